@@ -0,0 +1,31 @@
+#!/usr/bin/env bun
+
+/**
+ * Indexes Pokémon mentions for conversations stored before the
+ * pokemon_mentions table existed. Safe to re-run: existing rows are kept
+ * and only missing mentions are inserted.
+ *
+ * Usage: bun run db:backfill-mentions
+ */
+
+import dotenv from 'dotenv';
+import { getEnv } from '../src/config/env';
+import { initDatabase } from '../src/db/database';
+
+dotenv.config();
+
+function main() {
+  const env = getEnv();
+  const db = initDatabase(env.DATABASE_PATH);
+
+  const started = Date.now();
+  const { conversations, mentions } = db.backfillPokemonMentions();
+  console.log(
+    `Indexed ${mentions} mentions across ${conversations} conversations in ${Date.now() - started}ms`
+  );
+
+  // Close the raw connection; db.close() would also end in-progress calls
+  db.getDbConnection().close();
+}
+
+main();
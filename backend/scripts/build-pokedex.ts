@@ -0,0 +1,194 @@
+#!/usr/bin/env bun
+
+/**
+ * Regenerates src/data/pokedex.json from @pkmn/dex.
+ *
+ * The dataset is committed so the server never needs network access or the
+ * @pkmn packages at runtime. Bump POKEDEX_VERSION whenever the output shape
+ * or the curated aliases below change.
+ *
+ * Usage: bun run pokedex:build
+ */
+
+import { Dex, type Species } from '@pkmn/dex';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+
+const POKEDEX_VERSION = '1.0.0';
+const MAX_NATIONAL_DEX = 1025;
+const OUTPUT_PATH = join(__dirname, '..', 'src', 'data', 'pokedex.json');
+
+// Display names that read better than the @pkmn identifiers
+const DISPLAY_NAMES: Record<string, string> = {
+  'Nidoran-F': 'Nidoran♀',
+  'Nidoran-M': 'Nidoran♂',
+};
+
+// Extra spoken/typed variants that normalization alone cannot derive
+const EXTRA_ALIASES: Record<string, string[]> = {
+  'Nidoran-F': ['Nidoran', 'Nidoran female', 'female Nidoran'],
+  'Nidoran-M': ['Nidoran male', 'male Nidoran'],
+  'Mr. Mime': ['Mister Mime'],
+  'Mr. Rime': ['Mister Rime'],
+  'Mime Jr.': ['Mime Junior'],
+  'Type: Null': ['Type Null'],
+  Porygon2: ['Porygon 2', 'Porygon two'],
+  'Porygon-Z': ['Porygon Zed'],
+  Flabébé: ['Flabebe'],
+};
+
+// Names that are also everyday English words; the extractor only accepts
+// these when they appear capitalized in the source text.
+const AMBIGUOUS = new Set([
+  'Ditto',
+  'Durant',
+  'Electrode',
+  'Gloom',
+  'Golem',
+  'Mew',
+  'Persian',
+  'Slowpoke',
+]);
+
+// Regional and battle forms get natural-language aliases ("Alolan Vulpix")
+const FORM_PREFIXES: Record<string, string> = {
+  Alola: 'Alolan',
+  Galar: 'Galarian',
+  Hisui: 'Hisuian',
+  Paldea: 'Paldean',
+  Mega: 'Mega',
+  Primal: 'Primal',
+  Gmax: 'Gigantamax',
+};
+
+const EXCLUDED_NONSTANDARD = new Set(['CAP', 'Custom', 'LGPE']);
+
+type StatKey = 'hp' | 'atk' | 'def' | 'spa' | 'spd' | 'spe';
+
+function formAliases(base: string, forme: string): string[] {
+  const [head, ...rest] = forme.split('-');
+  const prefix = FORM_PREFIXES[head];
+  if (!prefix) return [`${base} ${forme.replace(/-/g, ' ')}`];
+  const suffix = rest.length ? ` ${rest.join(' ')}` : '';
+  return [`${prefix} ${base}${suffix}`, `${base} ${forme.replace(/-/g, ' ')}`];
+}
+
+function displayName(species: Species): string {
+  return DISPLAY_NAMES[species.name] || species.name;
+}
+
+function evolution(species: Species) {
+  const from = species.prevo ? Dex.species.get(species.prevo) : null;
+  return {
+    from: from ? displayName(Dex.species.get(from.baseSpecies)) : null,
+    to: Array.from(
+      new Set(
+        (species.evos || []).map((name) =>
+          displayName(Dex.species.get(Dex.species.get(name).baseSpecies))
+        )
+      )
+    ),
+    method: species.evoType || (species.evoLevel ? 'level' : null),
+    level: species.evoLevel ?? null,
+    item: species.evoItem ?? null,
+    condition: species.evoCondition ?? null,
+  };
+}
+
+function buildEntry(species: Species) {
+  const forms = (species.otherFormes || [])
+    .map((name) => Dex.species.get(name))
+    .filter(
+      (f) => f.exists && !EXCLUDED_NONSTANDARD.has(String(f.isNonstandard))
+    )
+    .map((f) => ({
+      name: f.name,
+      form: f.forme,
+      types: [...f.types],
+      aliases: formAliases(displayName(species), f.forme),
+    }));
+
+  const name = displayName(species);
+  const aliases = [...(EXTRA_ALIASES[species.name] || [])];
+  if (name !== species.name) aliases.push(species.name);
+
+  return {
+    id: species.num,
+    name,
+    generation: species.gen,
+    types: [...species.types],
+    abilities: Object.values(species.abilities).filter(Boolean),
+    baseStats: Object.fromEntries(
+      (['hp', 'atk', 'def', 'spa', 'spd', 'spe'] as StatKey[]).map((k) => [
+        k,
+        species.baseStats[k],
+      ])
+    ),
+    weightKg: species.weightkg,
+    evolution: evolution(species),
+    aliases,
+    ambiguous: AMBIGUOUS.has(species.name),
+    forms,
+  };
+}
+
+function buildTypeChart() {
+  const types = Dex.types
+    .all()
+    // Stellar only exists as a Tera type; it never appears on a species
+    .filter((t) => t.exists && !t.isNonstandard && t.name !== 'Stellar')
+    .map((t) => t.name)
+    .sort();
+  // damageTaken codes: 0 = neutral, 1 = weak, 2 = resists, 3 = immune
+  const multiplier: Record<number, number> = { 0: 1, 1: 2, 2: 0.5, 3: 0 };
+  const chart: Record<string, Record<string, number>> = {};
+  for (const attacker of types) {
+    chart[attacker] = {};
+    for (const defender of types) {
+      const code = Dex.types.get(defender).damageTaken[attacker] ?? 0;
+      const m = multiplier[code];
+      if (m !== 1) chart[attacker][defender] = m;
+    }
+  }
+  return { types, chart };
+}
+
+function main() {
+  const species = Dex.species
+    .all()
+    .filter(
+      (s) =>
+        s.num > 0 &&
+        s.num <= MAX_NATIONAL_DEX &&
+        s.name === s.baseSpecies &&
+        !EXCLUDED_NONSTANDARD.has(String(s.isNonstandard))
+    )
+    .sort((a, b) => a.num - b.num);
+
+  const { types, chart } = buildTypeChart();
+  const pokemon = species.map(buildEntry);
+
+  // One entry per line keeps diffs reviewable when the data is regenerated
+  const lines = [
+    '{',
+    `  "version": ${JSON.stringify(POKEDEX_VERSION)},`,
+    `  "source": "@pkmn/dex",`,
+    `  "types": ${JSON.stringify(types)},`,
+    `  "typeChart": ${JSON.stringify(chart)},`,
+    '  "pokemon": [',
+    pokemon
+      .map(
+        (p, i) => `    ${JSON.stringify(p)}${i < pokemon.length - 1 ? ',' : ''}`
+      )
+      .join('\n'),
+    '  ]',
+    '}',
+    '',
+  ];
+  writeFileSync(OUTPUT_PATH, lines.join('\n'), 'utf-8');
+  console.log(
+    `Wrote ${pokemon.length} Pokémon (v${POKEDEX_VERSION}) to ${OUTPUT_PATH}`
+  );
+}
+
+main();
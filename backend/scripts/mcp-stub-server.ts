@@ -0,0 +1,199 @@
+#!/usr/bin/env bun
+
+/**
+ * Minimal MCP server over SSE, backed by the bundled Pokédex, for exercising
+ * the MCP client manager (services/mcp-client.ts) without the real poke-mcp.
+ * Speaks just enough of the protocol for the AI SDK client: initialize,
+ * tools/list, tools/call and ping.
+ *
+ * Usage:
+ *   bun run mcp:stub                      # http://localhost:8931/sse
+ *   bun run mcp:stub --port 9000 --delay 500 --fail-tools
+ *
+ * Then point the backend at it: POKE_MCP_SSE_URL=http://localhost:8931/sse
+ * Stop and restart the stub to watch the backend back off and reconnect.
+ */
+
+import { getPokedex } from '../src/services/pokedex';
+
+export interface McpStubOptions {
+  port?: number; // 0 picks a free port
+  delayMs?: number; // added before every response
+  failTools?: boolean; // tools/call answers with a JSON-RPC error
+}
+
+export interface McpStubServer {
+  url: string; // SSE endpoint
+  stop(): void;
+}
+
+type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method: string;
+  params?: any;
+};
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+const TOOLS = [
+  {
+    name: 'get_pokemon',
+    description: 'Pokédex entry for a Pokémon: number, types and base stats.',
+    inputSchema: {
+      type: 'object',
+      properties: { name: { type: 'string', description: 'Pokémon name' } },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'list_types',
+    description: 'Every Pokémon type in the type chart.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+];
+
+function callTool(name: string, args: any) {
+  const pokedex = getPokedex();
+  if (name === 'list_types') return { types: pokedex.types };
+  if (name === 'get_pokemon') {
+    const entry = pokedex.getByName(String(args?.name ?? ''));
+    if (!entry) return { found: false };
+    return {
+      found: true,
+      name: entry.name,
+      nationalDex: entry.id,
+      types: entry.types,
+      baseStats: entry.baseStats,
+    };
+  }
+  throw new Error(`Unknown tool: ${name}`);
+}
+
+// Result for a request, or a JSON-RPC error object
+function handle(
+  request: JsonRpcRequest,
+  options: McpStubOptions
+): { result: unknown } | { error: { code: number; message: string } } {
+  switch (request.method) {
+    case 'initialize':
+      return {
+        result: {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'pokedex-mcp-stub', version: '1.0.0' },
+        },
+      };
+    case 'ping':
+      return { result: {} };
+    case 'tools/list':
+      return { result: { tools: TOOLS } };
+    case 'tools/call': {
+      if (options.failTools) {
+        return { error: { code: -32000, message: 'Stub tool failure' } };
+      }
+      try {
+        const data = callTool(request.params?.name, request.params?.arguments);
+        return {
+          result: { content: [{ type: 'text', text: JSON.stringify(data) }] },
+        };
+      } catch (error) {
+        return { error: { code: -32602, message: (error as Error).message } };
+      }
+    }
+    default:
+      return {
+        error: { code: -32601, message: `Method not found: ${request.method}` },
+      };
+  }
+}
+
+export function startMcpStubServer(
+  options: McpStubOptions = {}
+): McpStubServer {
+  const encoder = new TextEncoder();
+  const sessions = new Map<string, ReadableStreamDefaultController>();
+
+  const send = (sessionId: string, event: string, data: string) => {
+    sessions
+      .get(sessionId)
+      ?.enqueue(encoder.encode(`event: ${event}\ndata: ${data}\n\n`));
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 8931,
+    // SSE streams stay open between requests
+    idleTimeout: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+
+      if (req.method === 'GET' && url.pathname === '/sse') {
+        const sessionId = crypto.randomUUID();
+        const stream = new ReadableStream({
+          start(controller) {
+            sessions.set(sessionId, controller);
+            send(sessionId, 'endpoint', `/messages?sessionId=${sessionId}`);
+          },
+          cancel() {
+            sessions.delete(sessionId);
+          },
+        });
+        return new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+          },
+        });
+      }
+
+      if (req.method === 'POST' && url.pathname === '/messages') {
+        const sessionId = url.searchParams.get('sessionId') || '';
+        if (!sessions.has(sessionId)) {
+          return new Response('Unknown session', { status: 404 });
+        }
+        const request = (await req.json()) as JsonRpcRequest;
+        // Notifications (no id) get no response
+        if (request.id !== undefined) {
+          if (options.delayMs) await Bun.sleep(options.delayMs);
+          const message = {
+            jsonrpc: '2.0',
+            id: request.id,
+            ...handle(request, options),
+          };
+          send(sessionId, 'message', JSON.stringify(message));
+        }
+        return new Response('Accepted', { status: 202 });
+      }
+
+      return new Response('Not found', { status: 404 });
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}/sse`,
+    stop() {
+      for (const controller of sessions.values()) {
+        try {
+          controller.close();
+        } catch {}
+      }
+      sessions.clear();
+      server.stop(true);
+    },
+  };
+}
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+if (require.main === module) {
+  const stub = startMcpStubServer({
+    port: Number(argValue('--port') ?? process.env.MCP_STUB_PORT ?? 8931),
+    delayMs: Number(argValue('--delay') ?? 0),
+    failTools: process.argv.includes('--fail-tools'),
+  });
+  console.log(`MCP stub listening on ${stub.url}`);
+}
@@ -0,0 +1,93 @@
+#!/usr/bin/env bun
+
+/**
+ * Inspect and apply schema migrations (src/db/migrations).
+ *
+ * The server applies pending migrations on startup; use this to check or
+ * roll them back by hand.
+ *
+ * Usage:
+ *   bun run migrate status
+ *   bun run migrate up [--to <version>]
+ *   bun run migrate down [--steps <n>]
+ */
+
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import dotenv from 'dotenv';
+import { getEnv } from '../src/config/env';
+import { createMigrator, migrationId } from '../src/db/migrator';
+
+dotenv.config();
+
+function readFlag(args: string[], name: string): number | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} expects a non-negative integer`);
+  }
+  return value;
+}
+
+function formatTime(seconds: number | null): string {
+  return seconds === null ? 'pending' : new Date(seconds * 1000).toISOString();
+}
+
+function main() {
+  const [command = 'status', ...args] = process.argv.slice(2);
+  const dbPath = getEnv().DATABASE_PATH;
+  if (!existsSync(dirname(dbPath)))
+    mkdirSync(dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath, { create: true });
+  db.exec('PRAGMA journal_mode = WAL');
+
+  try {
+    const migrator = createMigrator(db);
+    switch (command) {
+      case 'status': {
+        console.log(`Database: ${dbPath}\n`);
+        for (const m of migrator.status()) {
+          console.log(
+            `  ${migrationId(m).padEnd(32)} ${formatTime(m.appliedAt)}`
+          );
+        }
+        console.log(`\n${migrator.pending().length} pending`);
+        break;
+      }
+      case 'up': {
+        const applied = migrator.up(readFlag(args, '--to'));
+        console.log(
+          applied.length
+            ? `Applied ${applied.map(migrationId).join(', ')}`
+            : 'Already up to date'
+        );
+        if (applied.some((m) => migrationId(m) === '004_conversation_turns')) {
+          console.log('Run `bun run db:backfill-mentions` to index mentions.');
+        }
+        break;
+      }
+      case 'down': {
+        const reverted = migrator.down(readFlag(args, '--steps') ?? 1);
+        console.log(
+          reverted.length
+            ? `Reverted ${reverted.map(migrationId).join(', ')}`
+            : 'Nothing to revert'
+        );
+        break;
+      }
+      default:
+        console.error(`Unknown command "${command}". Use status, up or down.`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
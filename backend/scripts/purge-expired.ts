@@ -0,0 +1,36 @@
+#!/usr/bin/env bun
+
+/**
+ * Applies the retention policy once (RETENTION_DAYS / RETENTION_IMAGE_DAYS),
+ * the same sweep the server runs every RETENTION_SWEEP_INTERVAL_MINUTES.
+ * Run from the backend directory so ./uploads/img resolves.
+ *
+ * Usage: bun run db:purge
+ */
+
+import dotenv from 'dotenv';
+import { getEnv } from '../src/config/env';
+import { initDatabase } from '../src/db/database';
+import { getRetentionService } from '../src/services/retention';
+
+dotenv.config();
+
+function main() {
+  const env = getEnv();
+  const db = initDatabase(env.DATABASE_PATH);
+
+  if (env.RETENTION_DAYS === 0 && !env.RETENTION_IMAGE_DAYS) {
+    console.log('Retention is disabled (RETENTION_DAYS=0); only expired sessions are removed');
+  }
+
+  const { conversations, turns, sessions, callers, images } =
+    getRetentionService().purgeExpired();
+  console.log(
+    `Removed ${conversations} conversations (${turns} turns), ${sessions} expired sessions, ${callers} callers and ${images} images`
+  );
+
+  // Close the raw connection; db.close() would also end in-progress calls
+  db.getDbConnection().close();
+}
+
+main();
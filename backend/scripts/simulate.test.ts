@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resetEnv } from '../src/config/env';
+import { closeDatabase } from '../src/db/database';
+import { getRetentionService } from '../src/services/retention';
+import { loadScenario, runScenario } from './simulate';
+
+/**
+ * Runs the call scenarios in scenarios/ against the backend started
+ * in-process: mock provider with slow streaming (fixtures/mock-llm-slow.json),
+ * a two-second image wait, a five-second idle timeout, an operator number
+ * for handoffs and a throwaway database, so no keys, network or running
+ * server are needed.
+ */
+
+const SCENARIO_DIR = join(__dirname, '../scenarios');
+// The idle-timeout scenario alone waits ten seconds
+const SCENARIO_TIMEOUT_MS = 30_000;
+
+const files = readdirSync(SCENARIO_DIR)
+  .filter((f) => /\.(ya?ml|json)$/.test(f))
+  .sort()
+  .map((f) => join(SCENARIO_DIR, f));
+
+const savedEnv = { ...process.env };
+const dir = mkdtempSync(join(tmpdir(), 'pokedex-simulate-'));
+const db = join(dir, 'calls.db');
+let server: ReturnType<typeof Bun.serve>;
+let url: string;
+
+beforeAll(async () => {
+  // Set before the app is loaded; values from .env do not override these
+  Object.assign(process.env, {
+    PROVIDER: 'mock',
+    FALLBACK_PROVIDER: 'mock',
+    MOCK_LLM_FIXTURES: join(__dirname, '../fixtures/mock-llm-slow.json'),
+    IMAGE_WAIT_TIMEOUT_SECONDS: '2',
+    HANDOFF_NUMBER: '+15550000000', // so handoffs end the session
+    IDLE_TIMEOUT_SECONDS: '5',
+    DATABASE_PATH: db,
+    TWILIO_AUTH_TOKEN: '', // no signature checks on simulated webhooks
+    LOG_LEVEL: process.env.LOG_LEVEL || 'warn',
+  });
+  // Other test files in this process may have read the environment already
+  resetEnv();
+
+  const app = (await import('../src/index')).default;
+  server = Bun.serve({ ...app, port: 0 });
+  url = `ws://localhost:${server.port}/ws`;
+});
+
+afterAll(() => {
+  server?.stop(true);
+  getRetentionService().stop();
+  closeDatabase();
+  rmSync(dir, { recursive: true, force: true });
+  process.env = savedEnv;
+  resetEnv();
+});
+
+describe('call scenarios', () => {
+  for (const file of files) {
+    const scenario = loadScenario(file);
+    test(
+      scenario.name ?? file,
+      async () => {
+        const result = await runScenario(scenario, { url, db, quiet: true });
+        expect(result.failures).toEqual([]);
+      },
+      SCENARIO_TIMEOUT_MS
+    );
+  }
+});
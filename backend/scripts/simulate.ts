@@ -0,0 +1,652 @@
+#!/usr/bin/env bun
+
+/**
+ * ConversationRelay call simulator. Connects to /ws the way Twilio does and
+ * speaks the relay protocol (setup, prompt, interrupt, dtmf, ping), so the
+ * voice path can be exercised without a phone call through ngrok.
+ *
+ * Usage:
+ *   bun run simulate                                  # interactive REPL
+ *   bun run simulate scenarios/pokemon-question.yaml  # run a scenario
+ *   bun run simulate --url ws://localhost:3005/ws --phone +15551234567
+ *
+ * In the REPL a plain line is sent as a prompt; /interrupt, /dtmf <digits>,
+ * /ping, /sms <text or image URL> and /quit send the other frames.
+ *
+ * Scenario files (YAML or JSON):
+ *   name: Asks about Pikachu
+ *   phone: "+1555{random}"       # optional; {random} is seven random digits
+ *   setup: { to: "+15551111111" }     # optional fields merged into setup
+ *   steps:
+ *     - prompt: Tell me about Pikachu
+ *       expect: { text: Electric }    # a reply containing "Electric"
+ *     - prompt: stop
+ *     - expect: { stop: true, timeoutMs: 2000 }
+ *     - interrupt: {}
+ *     - dtmf: "1"
+ *     - sms: { mediaUrl: "https://example.com/pikachu.jpg" }
+ *     - ping: {}
+ *       expect: { pong: true }
+ *     - wait: 500
+ *     - hangup: {}
+ *     - expect: { conversation: { ended: true, turns: 3 } }
+ *     - dial: {}                       # call again from the same phone
+ *       expect: { greeting: welcome back }
+ *     - prompt: Can you speak Spanish?
+ *       expect: { language: es-US }    # a "language" switch frame
+ *
+ * Every call first fetches /twiml like Twilio does, so `greeting` checks the
+ * welcome greeting. `text` is a case-insensitive substring, or a regex
+ * written as /.../flags; replies that do not match are skipped until one
+ * does. `conversation` reads the stored call from the SQLite file given by
+ * --db (default: DATABASE_PATH or ./data/calls.db). The process exits with 1
+ * when an expectation fails.
+ */
+
+import { Database } from 'bun:sqlite';
+import { randomUUID } from 'crypto';
+import { resolve } from 'path';
+import { createInterface } from 'readline';
+import { z } from 'zod';
+
+const ExpectSchema = z
+  .object({
+    text: z.string().optional(), // a complete reply (tokens up to last: true)
+    greeting: z.string().optional(),
+    stop: z.literal(true).optional(),
+    end: z.literal(true).optional(),
+    pong: z.literal(true).optional(),
+    language: z.string().optional(), // ttsLanguage of a "language" switch
+    conversation: z
+      .object({
+        ended: z.boolean().optional(),
+        turns: z.number().int().min(0).optional(), // at least, system included
+        handoffReason: z.string().optional(),
+        endReason: z.string().optional(),
+      })
+      .optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine(
+    (e) =>
+      [
+        e.text,
+        e.greeting,
+        e.stop,
+        e.end,
+        e.pong,
+        e.language,
+        e.conversation,
+      ].filter((v) => v !== undefined).length === 1,
+    {
+      message:
+        'expect needs exactly one of text, greeting, stop, end, pong, language, conversation',
+    }
+  );
+
+// `interrupt:` with no value parses as null in YAML
+const FieldsSchema = z.record(z.string(), z.unknown()).nullable();
+
+const SmsSchema = z.union([
+  z.string().transform((body) => ({ body })),
+  z.object({
+    body: z.string().optional(),
+    mediaUrl: z.string().url().optional(),
+    contentType: z.string().default('image/jpeg'),
+  }),
+]);
+
+const StepSchema = z.union([
+  z.object({ prompt: z.string(), expect: ExpectSchema.optional() }).strict(),
+  z.object({ interrupt: FieldsSchema }).strict(),
+  z
+    .object({
+      dtmf: z.union([z.string(), z.number()]).transform(String),
+      expect: ExpectSchema.optional(),
+    })
+    .strict(),
+  z.object({ ping: FieldsSchema, expect: ExpectSchema.optional() }).strict(),
+  z.object({ sms: SmsSchema, expect: ExpectSchema.optional() }).strict(),
+  z.object({ hangup: FieldsSchema, expect: ExpectSchema.optional() }).strict(),
+  z.object({ dial: FieldsSchema, expect: ExpectSchema.optional() }).strict(),
+  z.object({ wait: z.number().int().min(0) }).strict(),
+  z.object({ expect: ExpectSchema }).strict(),
+]);
+
+const ScenarioSchema = z.object({
+  name: z.string().optional(),
+  url: z.string().optional(),
+  phone: z.string().optional(),
+  setup: FieldsSchema.optional(),
+  timeoutMs: z.number().int().positive().default(15_000),
+  steps: z.array(StepSchema).min(1),
+});
+
+export type Scenario = z.input<typeof ScenarioSchema>;
+type Expectation = z.infer<typeof ExpectSchema>;
+type Sms = z.infer<typeof SmsSchema>;
+
+export interface SimulatorOptions {
+  url?: string; // default ws://localhost:$PORT/ws
+  phone?: string;
+  db?: string; // SQLite file for conversation expectations
+  quiet?: boolean; // no transcript on stdout
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+type RelayEvent =
+  | { kind: 'text'; text: string; complete: boolean }
+  | { kind: 'greeting'; text: string }
+  | { kind: 'stop' | 'end' | 'pong' | 'language'; frame: any };
+
+type CallOptions = Pick<SimulatorOptions, 'url' | 'phone'> & {
+  setup?: Record<string, unknown> | null;
+};
+
+function defaultUrl(): string {
+  return `ws://localhost:${process.env.PORT || 3005}/ws`;
+}
+
+// http(s) origin of the server behind a ws(s) URL
+function httpOrigin(wsUrl: string): string {
+  const url = new URL(wsUrl);
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  return url.origin;
+}
+
+function randomDigits(count: number): string {
+  let digits = '';
+  while (digits.length < count) digits += Math.floor(Math.random() * 10);
+  return digits;
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// The welcomeGreeting our /twiml route would give Twilio for this caller
+async function fetchGreeting(
+  origin: string,
+  phone?: string
+): Promise<string | null> {
+  try {
+    const res = await fetch(`${origin}/twiml`, {
+      method: 'POST',
+      body: new URLSearchParams(phone ? { From: phone } : {}),
+    });
+    const match = (await res.text()).match(/welcomeGreeting="([^"]*)"/);
+    return match ? decodeXml(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+// An inbound SMS/WhatsApp message, as Twilio posts it to /twilio/messaging
+export async function sendSms(wsUrl: string, phone: string, sms: Sms) {
+  const form: Record<string, string> = {
+    From: phone,
+    Body: sms.body ?? '',
+    NumMedia: '0',
+  };
+  if ('mediaUrl' in sms && sms.mediaUrl) {
+    form.NumMedia = '1';
+    form.MediaUrl0 = sms.mediaUrl;
+    form.MediaContentType0 = sms.contentType;
+  }
+  const res = await fetch(`${httpOrigin(wsUrl)}/twilio/messaging`, {
+    method: 'POST',
+    body: new URLSearchParams(form),
+  });
+  if (!res.ok) throw new Error(`/twilio/messaging answered ${res.status}`);
+}
+
+/**
+ * One simulated call. Text tokens are joined into replies; every frame the
+ * server sends becomes an event that expectations consume in order.
+ */
+export class RelayCall {
+  private events: RelayEvent[] = [];
+  private waiters: Array<() => void> = [];
+  private pendingText = '';
+  private closed = false;
+  readonly callSid = `CA${randomUUID().replace(/-/g, '')}`;
+
+  private constructor(
+    private readonly ws: WebSocket,
+    private readonly onEvent: (event: RelayEvent) => void
+  ) {
+    ws.addEventListener('message', (event) => this.receive(String(event.data)));
+    ws.addEventListener('close', () => {
+      this.flushText(false);
+      this.closed = true;
+      this.notify();
+    });
+  }
+
+  static async connect(
+    opts: CallOptions,
+    onEvent: (event: RelayEvent) => void = () => {}
+  ): Promise<RelayCall> {
+    const url = new URL(opts.url || defaultUrl());
+    const greeting = await fetchGreeting(httpOrigin(url.href), opts.phone);
+    if (opts.phone) url.searchParams.set('phone', opts.phone);
+    const ws = new WebSocket(url.toString());
+    await new Promise<void>((resolve, reject) => {
+      ws.addEventListener('open', () => resolve(), { once: true });
+      ws.addEventListener(
+        'error',
+        () => reject(new Error(`Cannot connect to ${url}`)),
+        { once: true }
+      );
+    });
+    const call = new RelayCall(ws, onEvent);
+    if (greeting !== null) call.push({ kind: 'greeting', text: greeting });
+    call.send({
+      type: 'setup',
+      sessionId: `VX${randomUUID().replace(/-/g, '')}`,
+      callSid: call.callSid,
+      from: opts.phone ?? '+15550000000',
+      to: '+15551111111',
+      direction: 'inbound',
+      ...opts.setup,
+    });
+    return call;
+  }
+
+  prompt(text: string) {
+    this.send({ type: 'prompt', voicePrompt: text, lang: 'en-US', last: true });
+  }
+
+  // The caller talked over the reply. The part they heard is reported to the
+  // server but is not a reply later expectations should see.
+  interrupt(fields?: Record<string, unknown> | null) {
+    const heard = this.pendingText;
+    this.pendingText = '';
+    if (heard) this.onEvent({ kind: 'text', text: heard, complete: false });
+    this.send({
+      type: 'interrupt',
+      utteranceUntilInterrupt: heard,
+      durationUntilInterruptMs: 0,
+      ...fields,
+    });
+  }
+
+  dtmf(digits: string) {
+    for (const digit of digits) this.send({ type: 'dtmf', digit });
+  }
+
+  ping(fields?: Record<string, unknown> | null) {
+    this.send({ type: 'ping', ...fields });
+  }
+
+  /**
+   * First event that satisfies `accept`, consuming it and everything before
+   * it. Throws on timeout or hang-up, listing the events that were skipped.
+   */
+  async next(
+    accept: (event: RelayEvent) => boolean,
+    timeoutMs: number
+  ): Promise<RelayEvent> {
+    const deadline = Date.now() + timeoutMs;
+    const skipped: RelayEvent[] = [];
+    while (true) {
+      while (this.events.length) {
+        const event = this.events.shift()!;
+        if (accept(event)) return event;
+        skipped.push(event);
+      }
+      const seen = skipped.length
+        ? `; got ${skipped.map(describe).join(' | ')}`
+        : '';
+      if (this.closed) throw new Error(`call ended${seen}`);
+      const remaining = deadline - Date.now();
+      if (remaining <= 0)
+        throw new Error(`nothing within ${timeoutMs}ms${seen}`);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  close() {
+    this.ws.close();
+  }
+
+  private send(frame: Record<string, unknown>) {
+    this.ws.send(JSON.stringify(frame));
+  }
+
+  private receive(data: string) {
+    let frame: any;
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      return;
+    }
+    switch (frame?.type) {
+      case 'text':
+        this.pendingText += frame.token ?? '';
+        if (frame.last) this.flushText(true);
+        return;
+      case 'stop':
+      case 'end':
+        this.flushText(false);
+        this.push({ kind: frame.type, frame });
+        return;
+      case 'pong':
+      case 'language':
+        this.push({ kind: frame.type, frame });
+        return;
+      default:
+        // Frames this simulator does not model (play, language, ...)
+        console.log(`< ${data}`);
+    }
+  }
+
+  private flushText(complete: boolean) {
+    if (!this.pendingText && !complete) return;
+    const text = this.pendingText;
+    this.pendingText = '';
+    this.push({ kind: 'text', text, complete });
+  }
+
+  private push(event: RelayEvent) {
+    this.events.push(event);
+    this.onEvent(event);
+    this.notify();
+  }
+
+  private notify() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const wake of waiters) wake();
+  }
+}
+
+function describe(event: RelayEvent): string {
+  if (event.kind === 'text') {
+    return event.complete ? event.text : `${event.text} [cut off]`;
+  }
+  if (event.kind === 'greeting') return `[greeting] ${event.text}`;
+  if (event.kind === 'language') {
+    return `[language ${event.frame.ttsLanguage}]`;
+  }
+  if (event.kind === 'end' && event.frame.handoffData) {
+    return `[end] ${event.frame.handoffData}`;
+  }
+  return `[${event.kind}]`;
+}
+
+function textMatches(expected: string, actual: string): boolean {
+  const regex = expected.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2]).test(actual);
+  return actual.toLowerCase().includes(expected.toLowerCase());
+}
+
+// Polls the database until the stored call matches (turns are written in
+// batches, and the end of the call is flushed when the socket closes)
+async function checkConversation(
+  dbPath: string,
+  callSid: string,
+  want: NonNullable<Expectation['conversation']>,
+  timeoutMs: number
+): Promise<string | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const db = new Database(dbPath, { readonly: true });
+    let found: string;
+    try {
+      const row = db
+        .query(
+          'SELECT ended_at, handoff_reason, end_reason FROM conversations WHERE call_sid = ?'
+        )
+        .get(callSid) as {
+        ended_at: number | null;
+        handoff_reason: string | null;
+        end_reason: string | null;
+      } | null;
+      const { n } = db
+        .query(
+          'SELECT COUNT(*) AS n FROM conversation_turns WHERE call_sid = ?'
+        )
+        .get(callSid) as { n: number };
+      const ok =
+        !!row &&
+        (want.ended === undefined || (row.ended_at !== null) === want.ended) &&
+        (want.turns === undefined || n >= want.turns) &&
+        (want.handoffReason === undefined ||
+          row.handoff_reason === want.handoffReason) &&
+        (want.endReason === undefined || row.end_reason === want.endReason);
+      if (ok) return null;
+      found = row
+        ? `ended: ${row.ended_at !== null}, turns: ${n}, handoffReason: ${row.handoff_reason}, endReason: ${row.end_reason}`
+        : 'no conversation';
+    } finally {
+      db.close();
+    }
+    if (Date.now() >= deadline) {
+      return `expected conversation ${JSON.stringify(want)}, found ${found}`;
+    }
+    await Bun.sleep(100);
+  }
+}
+
+// Error message when the expectation is not met, else null
+async function check(
+  call: RelayCall,
+  expectation: Expectation,
+  timeoutMs: number,
+  dbPath: string
+): Promise<string | null> {
+  if (expectation.conversation) {
+    return checkConversation(
+      dbPath,
+      call.callSid,
+      expectation.conversation,
+      timeoutMs
+    );
+  }
+  const { text, greeting, language } = expectation;
+  const kind =
+    text !== undefined
+      ? 'text'
+      : greeting !== undefined
+        ? 'greeting'
+        : language !== undefined
+          ? 'language'
+          : expectation.stop
+            ? 'stop'
+            : expectation.end
+              ? 'end'
+              : 'pong';
+  try {
+    await call.next((event) => {
+      if (event.kind !== kind) return false;
+      if (event.kind === 'text' && text !== undefined) {
+        return event.complete && textMatches(text, event.text);
+      }
+      if (event.kind === 'greeting' && greeting !== undefined) {
+        return textMatches(greeting, event.text);
+      }
+      if (event.kind === 'language' && language !== undefined) {
+        return textMatches(language, String(event.frame.ttsLanguage ?? ''));
+      }
+      return true;
+    }, timeoutMs);
+    return null;
+  } catch (error) {
+    const wanted =
+      text !== undefined
+        ? `text "${text}"`
+        : greeting !== undefined
+          ? `greeting "${greeting}"`
+          : language !== undefined
+            ? `language "${language}"`
+            : kind;
+    return `expected ${wanted}: ${(error as Error).message}`;
+  }
+}
+
+export function loadScenario(path: string): Scenario {
+  // Bun parses .yaml/.yml and .json files on require
+  return require(resolve(path));
+}
+
+export async function runScenario(
+  input: Scenario,
+  opts: SimulatorOptions = {}
+): Promise<ScenarioResult> {
+  const scenario = ScenarioSchema.parse(input);
+  const name = scenario.name ?? 'scenario';
+  const print = (line: string) => {
+    if (!opts.quiet) console.log(line);
+  };
+  const url = opts.url ?? scenario.url ?? defaultUrl();
+  const phone = (opts.phone ?? scenario.phone)?.replace('{random}', () =>
+    randomDigits(7)
+  );
+  const dbPath = opts.db ?? process.env.DATABASE_PATH ?? './data/calls.db';
+  const failures: string[] = [];
+
+  const dial = () =>
+    RelayCall.connect({ url, phone, setup: scenario.setup }, (event) =>
+      print(`< ${describe(event)}`)
+    );
+
+  print(`# ${name}`);
+  let call = await dial();
+
+  try {
+    for (const [index, step] of scenario.steps.entries()) {
+      if ('prompt' in step) {
+        print(`> ${step.prompt}`);
+        call.prompt(step.prompt);
+      } else if ('interrupt' in step) {
+        print('> [interrupt]');
+        call.interrupt(step.interrupt);
+      } else if ('dtmf' in step) {
+        print(`> [dtmf ${step.dtmf}]`);
+        call.dtmf(step.dtmf);
+      } else if ('ping' in step) {
+        print('> [ping]');
+        call.ping(step.ping);
+      } else if ('sms' in step) {
+        if (!phone) throw new Error('sms steps need a scenario phone');
+        const sms = step.sms;
+        print(`> [sms] ${('mediaUrl' in sms && sms.mediaUrl) || sms.body}`);
+        await sendSms(url, phone, sms);
+      } else if ('hangup' in step) {
+        print('> [hangup]');
+        call.close();
+      } else if ('dial' in step) {
+        call.close();
+        print('> [dial]');
+        call = await dial();
+      } else if ('wait' in step) {
+        await Bun.sleep(step.wait);
+      }
+
+      if ('expect' in step && step.expect) {
+        const failure = await check(
+          call,
+          step.expect,
+          step.expect.timeoutMs ?? scenario.timeoutMs,
+          dbPath
+        );
+        if (failure) {
+          failures.push(`step ${index + 1}: ${failure}`);
+          print(`✗ step ${index + 1}: ${failure}`);
+        } else {
+          print(`✓ step ${index + 1}`);
+        }
+      }
+    }
+  } finally {
+    call.close();
+  }
+
+  print(failures.length ? `FAIL ${name}` : `PASS ${name}`);
+  return { name, passed: failures.length === 0, failures };
+}
+
+async function repl(opts: SimulatorOptions) {
+  const url = opts.url ?? defaultUrl();
+  const call = await RelayCall.connect({ ...opts, url }, (event) =>
+    console.log(`< ${describe(event)}`)
+  );
+  console.log(
+    `Connected as ${call.callSid}. /interrupt, /dtmf <digits>, /ping, /sms <text>, /quit`
+  );
+
+  const rl = createInterface({ input: process.stdin });
+  for await (const line of rl) {
+    const input = line.trim();
+    if (!input) continue;
+    const [command, ...rest] = input.split(/\s+/);
+    if (command === '/quit') break;
+    else if (command === '/interrupt') call.interrupt();
+    else if (command === '/dtmf') call.dtmf(rest.join(''));
+    else if (command === '/ping') call.ping();
+    else if (command === '/sms') {
+      const body = rest.join(' ');
+      if (!opts.phone) console.log('/sms needs --phone');
+      else {
+        await sendSms(url, opts.phone, {
+          ...(/^https?:\/\//.test(body)
+            ? { mediaUrl: body, contentType: 'image/jpeg' }
+            : {}),
+          body,
+        }).catch((error) => console.log((error as Error).message));
+      }
+    } else call.prompt(input);
+  }
+  rl.close();
+  call.close();
+}
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+if (require.main === module) {
+  const opts: SimulatorOptions = {
+    url: argValue('--url'),
+    phone: argValue('--phone'),
+    db: argValue('--db'),
+  };
+  // Positional arguments that are not flag values are scenario files
+  const files = process.argv
+    .slice(2)
+    .filter(
+      (arg, i, args) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--')
+    );
+
+  (async () => {
+    if (!files.length) return repl(opts);
+    let failed = 0;
+    for (const file of files) {
+      const result = await runScenario(loadScenario(file), opts);
+      if (!result.passed) failed++;
+    }
+    process.exit(failed ? 1 : 0);
+  })().catch((error) => {
+    console.error((error as Error).message);
+    process.exit(1);
+  });
+}
@@ -1,5 +1,112 @@
 import { z } from 'zod';
 
+// Keypad digit -> action for DTMF_MENU (handled in routes/twilio.ts)
+const KeypadMenuSchema = z.record(
+  z.string().regex(/^[0-9*#]$/, 'keys must be 0-9, * or #'),
+  z.enum(['repeat', 'sms', 'photo', 'help', 'hang_up'])
+);
+type KeypadMenu = z.infer<typeof KeypadMenuSchema>;
+export type KeypadAction = KeypadMenu[string];
+
+const DEFAULT_KEYPAD_MENU: KeypadMenu = {
+  '1': 'repeat',
+  '2': 'sms',
+  '3': 'photo',
+  '0': 'help',
+  '#': 'hang_up',
+};
+
+// ConversationRelay attributes for RELAY_CONFIG (see utils/twiml.ts)
+const InterruptibleSchema = z.enum(['none', 'dtmf', 'speech', 'any']);
+const RelayAttributesSchema = z
+  .object({
+    welcomeGreetingInterruptible: InterruptibleSchema,
+    language: z.string().min(1),
+    ttsProvider: z.string().min(1),
+    voice: z.string().min(1),
+    transcriptionProvider: z.string().min(1),
+    speechModel: z.string().min(1),
+    hints: z.array(z.string().min(1)),
+    interruptible: InterruptibleSchema,
+    interruptSensitivity: z.enum(['low', 'medium', 'high']),
+    dtmfDetection: z.boolean(),
+    parameters: z.record(z.string().min(1), z.string()),
+    statusCallback: z.string().url(),
+  })
+  .partial()
+  .strict();
+
+// Later sections override earlier ones for the calls they match
+const RelayConfigSchema = z
+  .object({
+    defaults: RelayAttributesSchema.optional(),
+    numbers: z.record(z.string(), RelayAttributesSchema).optional(), // To
+    callers: z.record(z.string(), RelayAttributesSchema).optional(), // From
+  })
+  .strict();
+export type RelayConfig = z.infer<typeof RelayConfigSchema>;
+
+// "true"/"false" in any case, or a boolean. Only the value opposite to the
+// default switches it: "false" when it defaults to true, "true" otherwise.
+function envBool(defaultValue: boolean) {
+  return z
+    .union([z.string(), z.boolean()])
+    .transform((v) => {
+      if (typeof v !== 'string') return v;
+      const value = v.toLowerCase();
+      return defaultValue ? value !== 'false' : value === 'true';
+    })
+    .optional()
+    .default(defaultValue);
+}
+
+// A JSON value checked against `schema`; unset or empty gives `fallback`
+function envJson<T extends z.ZodType>(
+  name: string,
+  schema: T,
+  fallback: z.output<T>
+) {
+  return z
+    .string()
+    .optional()
+    .transform((v, ctx): z.output<T> => {
+      if (!v) return fallback;
+      let raw: unknown;
+      try {
+        raw = JSON.parse(v);
+      } catch (error) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Invalid ${name}: ${(error as Error).message}`,
+        });
+        return z.NEVER;
+      }
+      const parsed = schema.safeParse(raw);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        const at = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+        ctx.addIssue({
+          code: 'custom',
+          message: `Invalid ${name}${at}: ${issue?.message}`,
+        });
+        return z.NEVER;
+      }
+      return parsed.data;
+    });
+}
+
+// Extra redaction patterns: regular expression sources
+const RedactPatternsSchema = z.array(
+  z.string().refine((source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'not a valid regular expression')
+);
+
 const EnvSchema = z.object({
   PORT: z.coerce.number().int().positive().default(3005),
   LOG_LEVEL: z
@@ -7,21 +114,50 @@ const EnvSchema = z.object({
     .default('info'),
 
   // AI / Models
-  // Default text model (we use Groq for all text)
-  AI_MODEL: z.string().min(1).default('openai/gpt-oss-20b'),
+  // Default text model; unset uses the provider's default (services/providers.ts)
+  AI_MODEL: z.string().min(1).optional(),
+  // Per-use-case overrides of AI_MODEL (same provider)
+  AI_REASONER_MODEL: z.string().min(1).optional(),
+  AI_IMAGE_REPLY_MODEL: z.string().min(1).optional(),
   // Vision model (OpenAI only)
   AI_VISION_MODEL: z.string().min(1).default('openai/gpt-4o-mini'),
   AI_TIMEOUT_MS: z.coerce.number().int().positive().default(20_000),
+  // Let text models call the local Pokédex tools (lookup, matchups, evolutions)
+  AI_TOOLS_ENABLED: envBool(true),
 
   // External services
   POKE_MCP_SSE_URL: z.string().url().optional(),
+  // MCP client manager (services/mcp-client.ts)
+  MCP_CONNECT_TIMEOUT_MS: z.coerce.number().int().positive().default(2_000),
+  MCP_TOOLS_CACHE_TTL_SECONDS: z.coerce.number().int().min(0).default(300),
+  MCP_HEALTH_CHECK_INTERVAL_SECONDS: z.coerce.number().int().min(0).default(30),
   OPENAI_API_KEY: z.string().optional(),
-  // Provider for text models only (vision always uses OpenAI). Default: groq
+  // Provider for text models (vision uses OpenAI unless mock). Default: groq
   PROVIDER: z
-    .union([z.literal('openai'), z.literal('groq')])
+    .enum(['groq', 'openai', 'openai-compatible', 'mock'])
     .optional()
     .default('groq'),
   GROQ_API_KEY: z.string().optional(),
+  // Secondary provider tried when PROVIDER fails or is slow (services/failover.ts)
+  FALLBACK_PROVIDER: z
+    .enum(['groq', 'openai', 'openai-compatible', 'mock'])
+    .optional(),
+  FALLBACK_AI_MODEL: z.string().min(1).optional(),
+  // A provider that has not produced its first token by then counts as failed
+  AI_FIRST_TOKEN_TIMEOUT_MS: z.coerce.number().int().positive().default(8_000),
+  // Circuit breaker per provider: consecutive failures before it opens, and
+  // how long it stays open before a single probe request is let through
+  CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(3),
+  CIRCUIT_COOLDOWN_SECONDS: z.coerce.number().int().positive().default(30),
+  // Decide obvious intents locally instead of asking the reasoner model
+  INTENT_FAST_PATH: envBool(true),
+  // Replies for PROVIDER=mock; defaults to fixtures/mock-llm.json
+  MOCK_LLM_FIXTURES: z.string().optional(),
+  // Any OpenAI-compatible server, e.g. Ollama at http://localhost:11434/v1
+  OPENAI_COMPATIBLE_BASE_URL: z.string().url().optional(),
+  OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
+  // Whether the server honors JSON Schema response_format (reasoner decisions)
+  OPENAI_COMPATIBLE_STRUCTURED_OUTPUTS: envBool(false),
 
   // Twilio / Relay
   NGROK_URL: z.string().optional(),
@@ -33,11 +169,30 @@ const EnvSchema = z.object({
       'Hi! Welcome to the Pokédex Call Center. Ask me about any Pokémon!'
     ),
   // Quick placeholder speech while the model thinks
-  RELAY_THINKING_ENABLED: z
-    .union([z.string(), z.boolean()])
-    .transform((v) => (typeof v === 'string' ? v.toLowerCase() !== 'false' : v))
-    .optional()
-    .default(true),
+  RELAY_THINKING_ENABLED: envBool(true),
+  // How long a call waits for a texted photo before giving up
+  IMAGE_WAIT_TIMEOUT_SECONDS: z.coerce.number().int().positive().default(120),
+  // Language for callers with no stored preference whose calling code does
+  // not suggest one (utils/locales.ts)
+  DEFAULT_LANGUAGE: z.enum(['en', 'es', 'fr', 'de']).default('en'),
+  // Send often-asked Pokémon names to speech recognition as hints
+  RELAY_POKEMON_HINTS: envBool(true),
+  // Rewrite misheard Pokémon names in voice prompts ("pick a chew")
+  RELAY_NAME_CORRECTION: envBool(true),
+  // Keypad presses during calls (dtmfDetection on ConversationRelay)
+  DTMF_ENABLED: envBool(true),
+  // JSON object of key -> action, e.g. {"1":"repeat","#":"hang_up"}
+  DTMF_MENU: envJson('DTMF_MENU', KeypadMenuSchema, DEFAULT_KEYPAD_MENU),
+  // Say goodbye and hang up after this long without caller speech; 0 never does
+  IDLE_TIMEOUT_SECONDS: z.coerce.number().int().min(0).default(60),
+  // Human operator for handoffs: a number to dial, else a queue to join
+  HANDOFF_NUMBER: z.string().min(1).optional(),
+  HANDOFF_QUEUE: z.string().min(1).optional(),
+  // Hand off after this many failed answers in a row; 0 never does
+  HANDOFF_AFTER_FAILURES: z.coerce.number().int().min(0).default(3),
+  // ConversationRelay attributes as JSON: {"defaults": {...},
+  // "numbers": {"+1555...": {...}}, "callers": {"+1555...": {...}}}
+  RELAY_CONFIG: envJson('RELAY_CONFIG', RelayConfigSchema, {}),
   TWILIO_AUTH_TOKEN: z.string().optional(),
   TWILIO_ACCOUNT_SID: z.string().optional(),
   TWILIO_FROM_NUMBER: z.string().optional(),
@@ -45,13 +200,7 @@ const EnvSchema = z.object({
   TWILIO_VERIFY_SERVICE_SID: z.string().optional(),
   // When true, coerce outbound numbers to WhatsApp using whatsapp:+E164 prefix.
   // Docs: https://www.twilio.com/docs/whatsapp/api
-  TWILIO_FORCE_WHATSAPP: z
-    .union([z.string(), z.boolean()])
-    .transform((v) =>
-      typeof v === 'string' ? v.toLowerCase() === 'true' : !!v
-    )
-    .optional()
-    .default(false),
+  TWILIO_FORCE_WHATSAPP: envBool(false),
 
   // JWT Secret for session tokens
   JWT_SECRET: z
@@ -65,6 +214,24 @@ const EnvSchema = z.object({
 
   // Database
   DATABASE_PATH: z.string().default('./data/calls.db'),
+
+  // PII redaction (see utils/redact.ts)
+  // Mask phone numbers, emails, card numbers and addresses in stored transcripts
+  REDACT_TRANSCRIPTS: envBool(true),
+  // Same for log output; phone numbers keep their last 4 digits
+  REDACT_LOGS: envBool(true),
+  // Extra patterns as a JSON array of regex sources, e.g. ["ORDER-\\d+"]
+  REDACT_PATTERNS: envJson('REDACT_PATTERNS', RedactPatternsSchema, []),
+
+  // Data retention (days; 0 keeps data forever)
+  RETENTION_DAYS: z.coerce.number().int().min(0).default(0),
+  // Uploaded images; defaults to RETENTION_DAYS
+  RETENTION_IMAGE_DAYS: z.coerce.number().int().min(0).optional(),
+  RETENTION_SWEEP_INTERVAL_MINUTES: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60),
 });
 
 type Env = z.infer<typeof EnvSchema>;
@@ -82,3 +249,8 @@ export function getEnv(): Env {
   cached = parsed.data;
   return cached;
 }
+
+// Makes the next getEnv() read process.env again (tests)
+export function resetEnv(): void {
+  cached = null;
+}
@@ -0,0 +1,31 @@
+import type { RelayAttributes } from '../utils/twiml';
+import { getEnv } from './env';
+
+/**
+ * ConversationRelay attributes configured in RELAY_CONFIG for one call:
+ * `defaults`, then the entry for the called number (`To`), then the one for
+ * the caller (`From`). Later entries replace earlier attributes, except
+ * `parameters`, which are merged.
+ */
+export function relayAttributesFor(call: {
+  to?: string;
+  from?: string;
+}): RelayAttributes {
+  const { defaults, numbers = {}, callers = {} } = getEnv().RELAY_CONFIG;
+  const layers = [
+    defaults,
+    call.to ? numbers[call.to] : undefined,
+    call.from ? callers[call.from] : undefined,
+  ];
+  return layers.reduce<RelayAttributes>(
+    (merged, layer) =>
+      layer
+        ? {
+            ...merged,
+            ...layer,
+            parameters: { ...merged.parameters, ...layer.parameters },
+          }
+        : merged,
+    {}
+  );
+}
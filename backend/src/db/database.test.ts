@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { log } from '../utils/log';
+import { closeDatabase, initDatabase } from './database';
+
+const db = initDatabase(':memory:');
+// Test files share one process; leave the singleton to the next file
+afterAll(closeDatabase);
+const DAY = 86_400;
+
+describe('getPokemonStats timeline', () => {
+  test('fills empty buckets across the range', async () => {
+    const to = Date.UTC(2025, 0, 11) / 1000;
+    const stats = await db.getPokemonStats('+15550000001', {
+      from: to - 10 * DAY,
+      to,
+      bucket: 'day',
+    });
+    expect(stats.timeline).toHaveLength(10);
+    expect(stats.timeline[0].bucket).toBe('2025-01-01');
+    expect(stats.timeline[9]).toEqual({
+      bucket: '2025-01-10',
+      calls: 0,
+      totalDuration: 0,
+    });
+  });
+
+  test('keeps the most recent buckets when the range is too long', async () => {
+    const to = Date.UTC(2025, 0, 11) / 1000;
+    const stats = await db.getPokemonStats('+15550000001', {
+      from: to - 1000 * DAY,
+      to,
+      bucket: 'day',
+    });
+    expect(stats.timeline).toHaveLength(400);
+    expect(stats.timeline.at(-1)?.bucket).toBe('2025-01-10');
+  });
+});
+
+describe('appendConversationTurns', () => {
+  test('stores redacted content and indexes mentions from the original', async () => {
+    await db.createConversation('CA-redact', '+15550000002');
+    await new Promise((resolve) => setImmediate(resolve));
+    db.appendConversationTurns('CA-redact', [
+      {
+        turnIndex: 0,
+        role: 'user',
+        content: 'Text +15551234567 about Pikachu',
+      },
+      { turnIndex: 1, role: 'user', content: 'I live at 9 charizard drive' },
+    ]);
+
+    const turns = await db.getConversationTurns('CA-redact');
+    expect(turns.map((t) => t.content)).toEqual([
+      'Text [phone] about Pikachu',
+      'I live at [address]',
+    ]);
+    expect(await db.getPokemonMentionsForCall('CA-redact')).toEqual([
+      'Pikachu',
+      'Charizard',
+    ]);
+  });
+});
+
+describe('searchConversations', () => {
+  const ASH = '+15550000010';
+  const GARY = '+15550000011';
+
+  // One call per entry, each with a single caller turn
+  async function seed(phoneNumber: string, calls: Record<string, string>) {
+    for (const callSid of Object.keys(calls)) {
+      await db.createConversation(callSid, phoneNumber);
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+    for (const [callSid, content] of Object.entries(calls)) {
+      db.appendConversationTurns(callSid, [
+        { turnIndex: 0, role: 'user', content },
+      ]);
+    }
+  }
+
+  beforeAll(async () => {
+    await seed(ASH, {
+      'CA-search-1': 'Pikachu Pikachu Pikachu, I love Pikachu',
+      'CA-search-2':
+        'Tell me about the starters, the routes, the gyms and also Pikachu',
+      'CA-search-3': 'Is Charizard weak to water?',
+      'CA-search-4': 'Is "Mr. Mime" near Pikachu and not Jynx in the Pokédex?',
+    });
+    await seed(GARY, { 'CA-search-gary': 'Pikachu is my favourite' });
+  });
+
+  test('ranks calls by their best match and highlights the terms', async () => {
+    const { results, total } = await db.searchConversations(ASH, 'pikachu');
+    expect(total).toBe(3);
+    expect(results[0].call_sid).toBe('CA-search-1');
+    const scores = results.map((r) => r.score);
+    expect(scores).toEqual([...scores].sort((a, b) => a - b));
+    expect(scores[0]).toBeLessThan(scores[1]);
+    expect(results[0].matches).toEqual([
+      {
+        turnIndex: 0,
+        role: 'user',
+        snippet: expect.stringContaining('<mark>Pikachu</mark>'),
+      },
+    ]);
+  });
+
+  test('matches every word as a prefix', async () => {
+    const { results } = await db.searchConversations(ASH, 'chari wat');
+    expect(results.map((r) => r.call_sid)).toEqual(['CA-search-3']);
+  });
+
+  test('pages through calls with a stable total', async () => {
+    const first = await db.searchConversations(ASH, 'pikachu', 2, 0);
+    const rest = await db.searchConversations(ASH, 'pikachu', 2, 2);
+    expect(first.total).toBe(3);
+    expect(rest.total).toBe(3);
+    expect(first.results).toHaveLength(2);
+    expect(rest.results).toHaveLength(1);
+    const pages = [...first.results, ...rest.results].map((r) => r.call_sid);
+    expect(new Set(pages).size).toBe(3);
+  });
+
+  test("only searches the caller's own calls", async () => {
+    const ash = await db.searchConversations(ASH, 'favourite');
+    expect(ash).toEqual({ results: [], total: 0 });
+    const gary = await db.searchConversations(GARY, 'pikachu');
+    expect(gary.results.map((r) => r.call_sid)).toEqual(['CA-search-gary']);
+  });
+
+  test.each([
+    ['"Mr. Mime', 'an unbalanced quote'],
+    ['Mime"', 'a trailing quote'],
+    ['mime*', 'a prefix star'],
+    ['NEAR(mime pikachu)', 'NEAR'],
+    ['mime AND NOT pikachu', 'boolean operators'],
+    ['^mime -', 'stray operators'],
+  ])('treats %s (%s) as plain words', async (text) => {
+    const error = spyOn(log, 'error');
+    try {
+      const { results } = await db.searchConversations(ASH, text);
+      expect(results.map((r) => r.call_sid)).toContain('CA-search-4');
+      expect(error).not.toHaveBeenCalled();
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  test('input without words finds nothing', async () => {
+    expect(await db.searchConversations(ASH, '"* ()')).toEqual({
+      results: [],
+      total: 0,
+    });
+  });
+});
@@ -1,12 +1,16 @@
 import { Database } from 'bun:sqlite';
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { dirname } from 'path';
 import { log } from '../utils/log';
+import { redactTranscript } from '../utils/redact';
 import type { SimpleMessage } from '../services/ai';
+import type { Channel } from '../services/reasoner';
+import { getPokemonExtractor } from '../services/pokemon-extractor';
+import { createMigrator, migrationId } from './migrator';
 
 export interface Caller {
   phone_number: string;
   name: string | null;
+  language?: string | null; // utils/locales.ts code; null = not chosen
   created_at?: number;
   updated_at?: number;
 }
@@ -14,9 +18,12 @@ export interface Caller {
 export interface Conversation {
   call_sid: string;
   phone_number: string;
-  messages: string; // JSON string
+  messages?: string | null; // Legacy JSON blob, superseded by conversation_turns
+  channel?: Channel;
   started_at?: number;
   ended_at?: number | null;
+  handoff_reason?: string | null; // set when handed off to an operator
+  end_reason?: string | null; // caller_hangup, assistant_end, idle, handoff, error
 }
 
 export interface Session {
@@ -28,6 +35,83 @@ export interface Session {
   last_used_at?: number;
 }
 
+export type TurnSource = 'voice' | 'sms' | 'vision' | 'system';
+
+export interface ConversationTurn {
+  id: number;
+  call_sid: string;
+  turn_index: number;
+  role: SimpleMessage['role'];
+  content: string;
+  channel: Channel;
+  source: TurnSource;
+  latency_ms: number | null;
+  interrupted: number; // SQLite boolean (0/1)
+  created_at: number;
+}
+
+export interface NewConversationTurn {
+  turnIndex: number;
+  role: SimpleMessage['role'];
+  content: string;
+  channel?: Channel;
+  source?: TurnSource;
+  latencyMs?: number | null;
+  interrupted?: boolean;
+  createdAt?: number; // unix seconds; defaults to insert time
+}
+
+export type MentionSource = 'live' | 'backfill';
+
+export type StatsBucket = 'day' | 'week' | 'month';
+
+export interface StatsRange {
+  from?: number; // unix seconds, inclusive
+  to?: number; // unix seconds, exclusive
+  bucket?: StatsBucket;
+}
+
+export interface PokemonStats {
+  totalCalls: number;
+  uniquePokemon: number;
+  totalDuration: number;
+  topPokemon: Array<{ name: string; count: number }>;
+  recentActivity: Array<{
+    callSid: string;
+    timestamp: number;
+    pokemonCount: number;
+  }>;
+  timeline: Array<{
+    bucket: string; // UTC start of the bucket, YYYY-MM-DD
+    calls: number;
+    totalDuration: number;
+  }>;
+  channels: Array<{ channel: string; calls: number; totalDuration: number }>;
+}
+
+export interface TranscriptSearchResult {
+  call_sid: string;
+  timestamp: number;
+  duration?: number;
+  pokemon_names: string[];
+  matchCount: number;
+  score: number; // bm25 of the best matching turn; lower is more relevant
+  matches: Array<{
+    turnIndex: number;
+    role: SimpleMessage['role'];
+    snippet: string; // matched terms wrapped in <mark></mark>
+  }>;
+}
+
+// Rows removed by account erasure or the retention sweep
+export interface ErasureSummary {
+  conversations: number;
+  turns: number;
+  sessions: number;
+  callers: number;
+  images: string[]; // uploaded_images file names, still to be removed from disk
+}
+
 export interface VerificationAttempt {
   phone_number: string;
   attempt_count: number;
@@ -39,8 +123,12 @@ class CallDatabase {
   private db: Database;
   private getCallerStmt: any;
   private upsertCallerStmt: any;
+  private upsertCallerLanguageStmt: any;
   private createConversationStmt: any;
-  private updateConversationStmt: any;
+  private endConversationStmt: any;
+  private setHandoffReasonStmt: any;
+  private insertTurnStmt: any;
+  private insertMentionStmt: any;
 
   constructor(dbPath: string) {
     try {
@@ -53,10 +141,16 @@ class CallDatabase {
       this.db.exec('PRAGMA journal_mode = WAL');
       
       // Initialize schema
-      this.initializeSchema();
+      const applied = this.initializeSchema();
       
       // Prepare statements for performance
       this.prepareStatements();
+
+      // Turns split from legacy blobs by 004_conversation_turns still need
+      // their mentions indexed
+      if (applied.includes('004_conversation_turns')) {
+        this.backfillPokemonMentions();
+      }
       
       log.info('[db] Database initialized successfully', { path: dbPath });
     } catch (error) {
@@ -65,11 +159,14 @@ class CallDatabase {
     }
   }
 
-  private initializeSchema() {
-    // Read and execute schema
-    const schemaPath = join(import.meta.dir, 'schema.sql');
-    const schema = readFileSync(schemaPath, 'utf-8');
-    this.db.exec(schema);
+  // Applies pending migrations from src/db/migrations (see migrator.ts) and
+  // returns their ids
+  private initializeSchema(): string[] {
+    const applied = createMigrator(this.db).up().map(migrationId);
+    if (applied.length > 0) {
+      log.info('[db] Schema migrated', { applied });
+    }
+    return applied;
   }
 
   private ensureDbDir(dbPath: string) {
@@ -87,7 +184,7 @@ class CallDatabase {
   private prepareStatements() {
     // Prepare frequently used statements for speed
     this.getCallerStmt = this.db.prepare(
-      'SELECT phone_number, name FROM callers WHERE phone_number = ?'
+      'SELECT phone_number, name, language FROM callers WHERE phone_number = ?'
     );
     
     this.upsertCallerStmt = this.db.prepare(`
@@ -96,16 +193,38 @@ class CallDatabase {
       ON CONFLICT(phone_number) 
       DO UPDATE SET name = excluded.name, updated_at = excluded.updated_at
     `);
+
+    this.upsertCallerLanguageStmt = this.db.prepare(`
+      INSERT INTO callers (phone_number, language, updated_at)
+      VALUES (?, ?, unixepoch())
+      ON CONFLICT(phone_number)
+      DO UPDATE SET language = excluded.language, updated_at = excluded.updated_at
+    `);
     
     this.createConversationStmt = this.db.prepare(`
-      INSERT INTO conversations (call_sid, phone_number, messages)
+      INSERT INTO conversations (call_sid, phone_number, channel)
       VALUES (?, ?, ?)
     `);
     
-    this.updateConversationStmt = this.db.prepare(`
+    this.endConversationStmt = this.db.prepare(`
       UPDATE conversations 
-      SET messages = ?, ended_at = ?
-      WHERE call_sid = ?
+      SET ended_at = unixepoch(), end_reason = ?
+      WHERE call_sid = ? AND ended_at IS NULL
+    `);
+
+    this.setHandoffReasonStmt = this.db.prepare(
+      'UPDATE conversations SET handoff_reason = ? WHERE call_sid = ?'
+    );
+
+    this.insertTurnStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO conversation_turns
+        (call_sid, turn_index, role, content, channel, source, latency_ms, interrupted, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, unixepoch()))
+    `);
+
+    this.insertMentionStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO pokemon_mentions (call_sid, pokemon, role, turn_index, source)
+      VALUES (?, ?, ?, ?, ?)
     `);
   }
 
@@ -135,6 +254,18 @@ class CallDatabase {
     });
   }
 
+  // Fire-and-forget preferred language update (switched by voice mid-call)
+  async saveCallerLanguage(phoneNumber: string, language: string): Promise<void> {
+    setImmediate(() => {
+      try {
+        this.upsertCallerLanguageStmt.run(phoneNumber, language);
+        log.debug('[db] Saved caller language', { phoneNumber, language });
+      } catch (error) {
+        log.error('[db] Error saving caller language', { phoneNumber, error });
+      }
+    });
+  }
+
   // Upsert caller (for auth)
   async upsertCaller(phoneNumber: string, name: string | null): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -149,36 +280,105 @@ class CallDatabase {
   }
 
   // Create new conversation record
-  async createConversation(callSid: string, phoneNumber: string): Promise<void> {
+  async createConversation(
+    callSid: string,
+    phoneNumber: string,
+    channel: Channel = 'voice'
+  ): Promise<void> {
     setImmediate(() => {
       try {
-        const initialMessages = JSON.stringify([]);
-        this.createConversationStmt.run(callSid, phoneNumber, initialMessages);
-        log.debug('[db] Created conversation', { callSid, phoneNumber });
+        this.createConversationStmt.run(callSid, phoneNumber, channel);
+        log.debug('[db] Created conversation', { callSid, phoneNumber, channel });
       } catch (error) {
         log.error('[db] Error creating conversation', { callSid, error });
       }
     });
   }
 
-  // Update conversation messages (batched writes)
-  async updateConversationMessages(
-    callSid: string, 
-    messages: any[], 
-    ended: boolean = false
-  ): Promise<void> {
+  // Append turns for a call (used by the batch writer). Turns already stored
+  // for the same index are left untouched, so re-flushing is harmless. PII is
+  // redacted from the stored content (utils/redact.ts); mentions are indexed
+  // from the original wording.
+  appendConversationTurns(callSid: string, turns: NewConversationTurn[]): number {
+    try {
+      const insertAll = this.db.transaction(() => {
+        const inserted: NewConversationTurn[] = [];
+        for (const turn of turns) {
+          const result = this.insertTurnStmt.run(
+            callSid,
+            turn.turnIndex,
+            turn.role,
+            redactTranscript(turn.content),
+            turn.channel ?? 'voice',
+            turn.source ?? (turn.role === 'system' ? 'system' : 'voice'),
+            turn.latencyMs ?? null,
+            turn.interrupted ? 1 : 0,
+            turn.createdAt ?? null
+          );
+          if (result.changes > 0) inserted.push(turn);
+        }
+        return inserted;
+      });
+      const inserted = insertAll();
+      this.indexPokemonMentions(callSid, inserted);
+      log.debug('[db] Appended conversation turns', { callSid, count: inserted.length });
+      return inserted.length;
+    } catch (error) {
+      log.error('[db] Error appending conversation turns', { callSid, error });
+      return 0;
+    }
+  }
+
+  // Fire-and-forget: the call is being transferred to an operator
+  async saveHandoffReason(callSid: string, reason: string): Promise<void> {
     setImmediate(() => {
       try {
-        const messagesJson = JSON.stringify(messages);
-        const endedAt = ended ? Math.floor(Date.now() / 1000) : null;
-        this.updateConversationStmt.run(messagesJson, endedAt, callSid);
-        log.debug('[db] Updated conversation', { callSid, messageCount: messages.length, ended });
+        this.setHandoffReasonStmt.run(reason, callSid);
+        log.debug('[db] Saved handoff reason', { callSid, reason });
       } catch (error) {
-        log.error('[db] Error updating conversation', { callSid, error });
+        log.error('[db] Error saving handoff reason', { callSid, error });
       }
     });
   }
 
+  // Mark a conversation as ended; the first end (and its reason) sticks
+  endConversation(callSid: string, reason: string | null = null) {
+    try {
+      this.endConversationStmt.run(reason, callSid);
+      log.debug('[db] Ended conversation', { callSid, reason });
+    } catch (error) {
+      log.error('[db] Error ending conversation', { callSid, error });
+    }
+  }
+
+  // Turns of a conversation in order; system prompts are internal and skipped by default
+  async getConversationTurns(
+    callSid: string,
+    options: { includeSystem?: boolean } = {}
+  ): Promise<ConversationTurn[]> {
+    return new Promise((resolve) => {
+      try {
+        const stmt = this.db.prepare(`
+          SELECT id, call_sid, turn_index, role, content, channel, source,
+                 latency_ms, interrupted, created_at
+          FROM conversation_turns
+          WHERE call_sid = ? AND (? OR role != 'system')
+          ORDER BY turn_index ASC
+        `);
+        resolve(stmt.all(callSid, options.includeSystem ? 1 : 0) as ConversationTurn[]);
+      } catch (error) {
+        log.error('[db] Error getting conversation turns', { callSid, error });
+        resolve([]);
+      }
+    });
+  }
+
+  // Session history for a call, for recovering context after a reconnect
+  async getConversationMessages(callSid: string): Promise<SimpleMessage[]> {
+    const turns = await this.getConversationTurns(callSid, { includeSystem: true });
+    return turns.map((t) => ({ role: t.role, content: t.content }));
+  }
+
   // Get caller with timeout for fast response
   async getCallerQuickly(phoneNumber: string, timeoutMs: number = 100): Promise<Caller | null> {
     return Promise.race([
@@ -192,7 +392,7 @@ class CallDatabase {
     return new Promise((resolve) => {
       try {
         const stmt = this.db.prepare(`
-          SELECT call_sid, phone_number, messages, started_at, ended_at
+          SELECT call_sid, phone_number, channel, started_at, ended_at
           FROM conversations
           WHERE phone_number = ?
           ORDER BY started_at DESC
@@ -207,6 +407,24 @@ class CallDatabase {
     });
   }
 
+  // Every conversation of a caller, oldest first (for exports)
+  async getConversationsForPhone(phoneNumber: string): Promise<Conversation[]> {
+    return new Promise((resolve) => {
+      try {
+        const stmt = this.db.prepare(`
+          SELECT call_sid, phone_number, channel, started_at, ended_at
+          FROM conversations
+          WHERE phone_number = ?
+          ORDER BY started_at ASC, call_sid ASC
+        `);
+        resolve(stmt.all(phoneNumber) as Conversation[]);
+      } catch (error) {
+        log.error('[db] Error getting conversations for phone', { phoneNumber, error });
+        resolve([]);
+      }
+    });
+  }
+
   // Get conversation history with summaries for context (Phase 7)
   async getConversationContext(phoneNumber: string, hoursBack: number = 24): Promise<{
     recentTopics: string[];
@@ -219,7 +437,7 @@ class CallDatabase {
         
         // Get recent conversations
         const stmt = this.db.prepare(`
-          SELECT messages, started_at, ended_at
+          SELECT call_sid, started_at, ended_at
           FROM conversations
           WHERE phone_number = ? 
             AND started_at > ?
@@ -235,40 +453,34 @@ class CallDatabase {
           return;
         }
 
+        const userTurnsStmt = this.db.prepare(`
+          SELECT content
+          FROM conversation_turns
+          WHERE call_sid = ? AND role = 'user'
+          ORDER BY turn_index ASC
+        `);
+
         // Extract topics from conversations
+        const extractor = getPokemonExtractor();
         const topics = new Set<string>();
         let lastCallTime = conversations[0].started_at;
         
         for (const conv of conversations) {
-          try {
-            const messages = JSON.parse(conv.messages) as SimpleMessage[];
-            
-            // Extract Pokemon names and topics mentioned
-            for (const msg of messages) {
-              if (msg.role === 'user') {
-                // Look for Pokemon names (capitalized words)
-                const pokemonMatches = msg.content.match(/\b[A-Z][a-z]+(?:[-\s][A-Z]?[a-z]+)*\b/g);
-                if (pokemonMatches) {
-                  pokemonMatches.forEach(match => {
-                    // Common Pokemon names to track
-                    const commonPokemon = ['Pikachu', 'Charizard', 'Bulbasaur', 'Squirtle', 'Jigglypuff', 
-                                          'Mewtwo', 'Mew', 'Eevee', 'Snorlax', 'Dragonite'];
-                    if (commonPokemon.some(p => match.toLowerCase().includes(p.toLowerCase()))) {
-                      topics.add(match);
-                    }
-                  });
-                }
-                
-                // Look for specific topics
-                if (msg.content.toLowerCase().includes('evolution')) topics.add('evolution');
-                if (msg.content.toLowerCase().includes('type')) topics.add('types');
-                if (msg.content.toLowerCase().includes('move')) topics.add('moves');
-                if (msg.content.toLowerCase().includes('ability')) topics.add('abilities');
-                if (msg.content.toLowerCase().includes('stat')) topics.add('stats');
-              }
-            }
-          } catch (err) {
-            log.debug('[db] Error parsing conversation messages for context', { err });
+          const userTurns = userTurnsStmt.all(conv.call_sid) as Array<{ content: string }>;
+
+          // Extract Pokemon names and topics mentioned
+          for (const { content } of userTurns) {
+            // Pokemon names from the bundled Pokédex
+            extractor
+              .extractNames(content)
+              .forEach((name) => topics.add(name));
+
+            // Look for specific topics
+            if (content.toLowerCase().includes('evolution')) topics.add('evolution');
+            if (content.toLowerCase().includes('type')) topics.add('types');
+            if (content.toLowerCase().includes('move')) topics.add('moves');
+            if (content.toLowerCase().includes('ability')) topics.add('abilities');
+            if (content.toLowerCase().includes('stat')) topics.add('stats');
           }
         }
         
@@ -290,7 +502,7 @@ class CallDatabase {
     return new Promise((resolve) => {
       try {
         const stmt = this.db.prepare(`
-          SELECT call_sid, phone_number, messages, started_at, ended_at
+          SELECT call_sid, phone_number, channel, started_at, ended_at, handoff_reason, end_reason
           FROM conversations
           WHERE call_sid = ?
         `);
@@ -453,6 +665,271 @@ class CallDatabase {
     });
   }
 
+  // Record who sent an uploaded image so it can be erased with their data
+  recordUploadedImage(fileName: string, phoneNumber: string | null) {
+    try {
+      this.db
+        .prepare('INSERT OR IGNORE INTO uploaded_images (file_name, phone_number) VALUES (?, ?)')
+        .run(fileName, phoneNumber);
+    } catch (error) {
+      log.error('[db] Error recording uploaded image', { fileName, error });
+    }
+  }
+
+  // Run a DELETE and return the rows it removed. SQLite's changes() is used
+  // because bun:sqlite's `changes` also counts rows written by triggers
+  // (the FTS index triggers on conversation_turns).
+  private deleteRows(sql: string, ...params: Array<string | number>): number {
+    this.db.prepare(sql).run(...params);
+    return (this.db.prepare('SELECT changes() AS n').get() as { n: number }).n;
+  }
+
+  // Delete conversations matching a WHERE clause on `conversations`, with their
+  // turns (the FTS index follows via triggers) and Pokemon mentions
+  private deleteConversationsWhere(where: string, ...params: Array<string | number>) {
+    const scope = `SELECT call_sid FROM conversations WHERE ${where}`;
+    this.deleteRows(`DELETE FROM pokemon_mentions WHERE call_sid IN (${scope})`, ...params);
+    const turns = this.deleteRows(`DELETE FROM conversation_turns WHERE call_sid IN (${scope})`, ...params);
+    const conversations = this.deleteRows(`DELETE FROM conversations WHERE ${where}`, ...params);
+    return { conversations, turns };
+  }
+
+  // Erase everything stored for a caller. Returns the caller's uploaded image
+  // file names so the files can be removed from disk.
+  deleteCallerData(phoneNumber: string): ErasureSummary {
+    const erase = this.db.transaction((): ErasureSummary => {
+      const { conversations, turns } = this.deleteConversationsWhere('phone_number = ?', phoneNumber);
+      const images = (
+        this.db
+          .prepare('SELECT file_name FROM uploaded_images WHERE phone_number = ?')
+          .all(phoneNumber) as Array<{ file_name: string }>
+      ).map((r) => r.file_name);
+      this.deleteRows('DELETE FROM uploaded_images WHERE phone_number = ?', phoneNumber);
+      const sessions = this.deleteRows('DELETE FROM sessions WHERE phone_number = ?', phoneNumber);
+      this.deleteRows('DELETE FROM verification_attempts WHERE phone_number = ?', phoneNumber);
+      const callers = this.deleteRows('DELETE FROM callers WHERE phone_number = ?', phoneNumber);
+      return { conversations, turns, sessions, callers, images };
+    });
+    return erase();
+  }
+
+  // Retention sweep: drop finished conversations and uploaded images older than
+  // the cutoffs (unix seconds), expired sessions, and callers left with no
+  // conversations or sessions who have not called since the transcript cutoff.
+  purgeExpiredData(cutoffs: { transcriptsBefore?: number; imagesBefore?: number }): ErasureSummary {
+    const purge = this.db.transaction((): ErasureSummary => {
+      const summary: ErasureSummary = { conversations: 0, turns: 0, sessions: 0, callers: 0, images: [] };
+      const { transcriptsBefore, imagesBefore } = cutoffs;
+
+      if (transcriptsBefore !== undefined) {
+        // Calls still in progress are kept whatever their start time
+        Object.assign(
+          summary,
+          this.deleteConversationsWhere('ended_at IS NOT NULL AND ended_at < ?', transcriptsBefore)
+        );
+        summary.callers = this.deleteRows(
+          `DELETE FROM callers
+           WHERE updated_at < ?
+             AND phone_number NOT IN (SELECT phone_number FROM conversations WHERE phone_number IS NOT NULL)
+             AND phone_number NOT IN (SELECT phone_number FROM sessions)`,
+          transcriptsBefore
+        );
+      }
+
+      if (imagesBefore !== undefined) {
+        summary.images = (
+          this.db
+            .prepare('SELECT file_name FROM uploaded_images WHERE created_at < ?')
+            .all(imagesBefore) as Array<{ file_name: string }>
+        ).map((r) => r.file_name);
+        this.deleteRows('DELETE FROM uploaded_images WHERE created_at < ?', imagesBefore);
+      }
+
+      summary.sessions = this.deleteRows('DELETE FROM sessions WHERE expires_at < unixepoch()');
+      return summary;
+    });
+    return purge();
+  }
+
+  // Index Pokemon mentions for the given conversation turns.
+  // Idempotent: re-indexing the same turns is ignored by the primary key.
+  indexPokemonMentions(
+    callSid: string,
+    turns: Array<Pick<NewConversationTurn, 'turnIndex' | 'role' | 'content'>>,
+    source: MentionSource = 'live'
+  ): number {
+    try {
+      const extractor = getPokemonExtractor();
+      const insertAll = this.db.transaction(() => {
+        let inserted = 0;
+        for (const turn of turns) {
+          if (turn.role === 'system') continue;
+          for (const name of extractor.extractNames(turn.content)) {
+            inserted += this.insertMentionStmt.run(
+              callSid,
+              name,
+              turn.role,
+              turn.turnIndex,
+              source
+            ).changes;
+          }
+        }
+        return inserted;
+      });
+      const inserted = insertAll();
+      if (inserted > 0) {
+        log.debug('[db] Indexed Pokemon mentions', { callSid, inserted, source });
+      }
+      return inserted;
+    } catch (error) {
+      log.error('[db] Error indexing Pokemon mentions', { callSid, error });
+      return 0;
+    }
+  }
+
+  // Rebuild mentions for every stored conversation (see scripts/backfill-mentions.ts)
+  backfillPokemonMentions(batchSize: number = 500): {
+    conversations: number;
+    mentions: number;
+  } {
+    const callsStmt = this.db.prepare(`
+      SELECT DISTINCT call_sid
+      FROM conversation_turns
+      WHERE call_sid > ?
+      ORDER BY call_sid
+      LIMIT ?
+    `);
+    const turnsStmt = this.db.prepare(`
+      SELECT turn_index AS turnIndex, role, content
+      FROM conversation_turns
+      WHERE call_sid = ? AND role != 'system'
+    `);
+    let cursor = '';
+    let conversations = 0;
+    let mentions = 0;
+    for (;;) {
+      const rows = callsStmt.all(cursor, batchSize) as Array<{ call_sid: string }>;
+      if (rows.length === 0) break;
+      for (const row of rows) {
+        const turns = turnsStmt.all(row.call_sid) as Array<
+          Pick<NewConversationTurn, 'turnIndex' | 'role' | 'content'>
+        >;
+        mentions += this.indexPokemonMentions(row.call_sid, turns, 'backfill');
+        conversations++;
+      }
+      cursor = rows[rows.length - 1].call_sid;
+    }
+    log.info('[db] Backfilled Pokemon mentions', { conversations, mentions });
+    return { conversations, mentions };
+  }
+
+  // Distinct Pokemon mentioned in a conversation, in order of first mention
+  async getPokemonMentionsForCall(callSid: string): Promise<string[]> {
+    return new Promise((resolve) => {
+      try {
+        const stmt = this.db.prepare(`
+          SELECT pokemon
+          FROM pokemon_mentions
+          WHERE call_sid = ?
+          GROUP BY pokemon
+          ORDER BY MIN(turn_index), pokemon
+        `);
+        const rows = stmt.all(callSid) as { pokemon: string }[];
+        resolve(rows.map((r) => r.pokemon));
+      } catch (error) {
+        log.error('[db] Error getting Pokemon mentions', { callSid, error });
+        resolve([]);
+      }
+    });
+  }
+
+  // Full-text search over a caller's transcripts, one result per call ranked by best match
+  async searchConversations(
+    phoneNumber: string,
+    text: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ results: TranscriptSearchResult[]; total: number }> {
+    return new Promise((resolve) => {
+      const query = toFtsQuery(text);
+      if (!query) {
+        resolve({ results: [], total: 0 });
+        return;
+      }
+      try {
+        const hits = `
+          SELECT t.call_sid, t.turn_index, t.role, bm25(conversation_turns_fts) AS score,
+                 snippet(conversation_turns_fts, 0, '<mark>', '</mark>', '…', ${SNIPPET_TOKENS}) AS snippet
+          FROM conversation_turns_fts
+          JOIN conversation_turns t ON t.id = conversation_turns_fts.rowid
+          JOIN conversations c ON c.call_sid = t.call_sid
+          WHERE conversation_turns_fts MATCH ? AND c.phone_number = ?
+        `;
+
+        const { total } = this.db.prepare(`
+          SELECT COUNT(DISTINCT call_sid) AS total FROM (${hits})
+        `).get(query, phoneNumber) as { total: number };
+
+        const rows = this.db.prepare(`
+          WITH hits AS MATERIALIZED (${hits})
+          SELECT
+            h.call_sid,
+            c.started_at,
+            c.ended_at,
+            COUNT(*) AS matchCount,
+            MIN(h.score) AS score,
+            (
+              SELECT json_group_array(json_object('turnIndex', turn_index, 'role', role, 'snippet', snippet))
+              FROM (
+                SELECT turn_index, role, snippet FROM hits h2
+                WHERE h2.call_sid = h.call_sid
+                ORDER BY h2.score ASC
+                LIMIT ${SNIPPETS_PER_CALL}
+              )
+            ) AS matches_json,
+            (
+              SELECT json_group_array(pokemon) FROM (
+                SELECT m.pokemon
+                FROM pokemon_mentions m
+                WHERE m.call_sid = h.call_sid
+                GROUP BY m.pokemon
+                ORDER BY MIN(m.turn_index), m.pokemon
+              )
+            ) AS pokemon_json
+          FROM hits h
+          JOIN conversations c ON c.call_sid = h.call_sid
+          GROUP BY h.call_sid
+          ORDER BY score ASC, c.started_at DESC
+          LIMIT ? OFFSET ?
+        `).all(query, phoneNumber, limit, offset) as Array<{
+          call_sid: string;
+          started_at: number;
+          ended_at: number | null;
+          matchCount: number;
+          score: number;
+          matches_json: string;
+          pokemon_json: string | null;
+        }>;
+
+        resolve({
+          total,
+          results: rows.map((row) => ({
+            call_sid: row.call_sid,
+            timestamp: row.started_at,
+            duration: row.ended_at ? row.ended_at - row.started_at : undefined,
+            pokemon_names: JSON.parse(row.pokemon_json || '[]'),
+            matchCount: row.matchCount,
+            score: row.score,
+            matches: JSON.parse(row.matches_json || '[]'),
+          })),
+        });
+      } catch (error) {
+        log.error('[db] Error searching conversations', { phoneNumber, error });
+        resolve({ results: [], total: 0 });
+      }
+    });
+  }
+
   // Get all Pokemon queries for a user
   async getPokemonQueries(phoneNumber: string, limit: number = 50, offset: number = 0): Promise<{
     queries: Array<{
@@ -473,45 +950,41 @@ class CallDatabase {
         `);
         const countResult = countStmt.get(phoneNumber) as { total: number };
         
-        // Get paginated results
+        // Get paginated results with their Pokemon from the mentions index
         const stmt = this.db.prepare(`
-          SELECT call_sid, messages, started_at, ended_at
-          FROM conversations
-          WHERE phone_number = ? AND ended_at IS NOT NULL
-          ORDER BY started_at DESC
+          SELECT
+            c.call_sid,
+            c.started_at,
+            c.ended_at,
+            (
+              SELECT json_group_array(pokemon) FROM (
+                SELECT m.pokemon
+                FROM pokemon_mentions m
+                WHERE m.call_sid = c.call_sid
+                GROUP BY m.pokemon
+                ORDER BY MIN(m.turn_index), m.pokemon
+              )
+            ) AS pokemon_json
+          FROM conversations c
+          WHERE c.phone_number = ? AND c.ended_at IS NOT NULL
+          ORDER BY c.started_at DESC
           LIMIT ? OFFSET ?
         `);
         
-        const conversations = stmt.all(phoneNumber, limit, offset) as Conversation[];
-        
-        const queries = conversations.map(conv => {
-          const pokemonNames = new Set<string>();
-          
-          try {
-            const messages = JSON.parse(conv.messages) as SimpleMessage[];
-            
-            // Extract Pokemon names from messages
-            for (const msg of messages) {
-              // Look for Pokemon names in both user and assistant messages
-              const pokemonPattern = /\b(Pikachu|Charizard|Bulbasaur|Squirtle|Charmander|Wartortle|Blastoise|Caterpie|Metapod|Butterfree|Weedle|Kakuna|Beedrill|Pidgey|Pidgeotto|Pidgeot|Rattata|Raticate|Spearow|Fearow|Ekans|Arbok|Sandshrew|Sandslash|Nidoran|Nidorina|Nidoqueen|Nidorino|Nidoking|Clefairy|Clefable|Vulpix|Ninetales|Jigglypuff|Wigglytuff|Zubat|Golbat|Oddish|Gloom|Vileplume|Paras|Parasect|Venonat|Venomoth|Diglett|Dugtrio|Meowth|Persian|Psyduck|Golduck|Mankey|Primeape|Growlithe|Arcanine|Poliwag|Poliwhirl|Poliwrath|Abra|Kadabra|Alakazam|Machop|Machoke|Machamp|Bellsprout|Weepinbell|Victreebel|Tentacool|Tentacruel|Geodude|Graveler|Golem|Ponyta|Rapidash|Slowpoke|Slowbro|Magnemite|Magneton|Farfetch|Doduo|Dodrio|Seel|Dewgong|Grimer|Muk|Shellder|Cloyster|Gastly|Haunter|Gengar|Onix|Drowzee|Hypno|Krabby|Kingler|Voltorb|Electrode|Exeggcute|Exeggutor|Cubone|Marowak|Hitmonlee|Hitmonchan|Lickitung|Koffing|Weezing|Rhyhorn|Rhydon|Chansey|Tangela|Kangaskhan|Horsea|Seadra|Goldeen|Seaking|Staryu|Starmie|Scyther|Jynx|Electabuzz|Magmar|Pinsir|Tauros|Magikarp|Gyarados|Lapras|Ditto|Eevee|Vaporeon|Jolteon|Flareon|Porygon|Omanyte|Omastar|Kabuto|Kabutops|Aerodactyl|Snorlax|Articuno|Zapdos|Moltres|Dratini|Dragonair|Dragonite|Mewtwo|Mew)\b/gi;
-              const matches = msg.content.match(pokemonPattern);
-              if (matches) {
-                matches.forEach(match => pokemonNames.add(match));
-              }
-            }
-          } catch (err) {
-            log.debug('[db] Error parsing messages for Pokemon names', { err });
+        const rows = stmt.all(phoneNumber, limit, offset) as Array<
+          Pick<Conversation, 'call_sid' | 'started_at' | 'ended_at'> & {
+            pokemon_json: string | null;
           }
-          
-          return {
-            call_sid: conv.call_sid,
-            pokemon_names: Array.from(pokemonNames),
-            timestamp: conv.started_at || 0,
-            duration: (conv.ended_at && conv.started_at) 
-              ? conv.ended_at - conv.started_at 
-              : undefined
-          };
-        });
+        >;
+        
+        const queries = rows.map(row => ({
+          call_sid: row.call_sid,
+          pokemon_names: JSON.parse(row.pokemon_json || '[]') as string[],
+          timestamp: row.started_at || 0,
+          duration: (row.ended_at && row.started_at) 
+            ? row.ended_at - row.started_at 
+            : undefined
+        }));
         
         resolve({ queries, total: countResult.total });
       } catch (error) {
@@ -521,6 +994,107 @@ class CallDatabase {
     });
   }
 
+  // Aggregate call and Pokemon statistics for a user, optionally within a date range
+  async getPokemonStats(phoneNumber: string, range: StatsRange = {}): Promise<PokemonStats> {
+    return new Promise((resolve) => {
+      try {
+        const from = range.from ?? 0;
+        const to = range.to ?? Number.MAX_SAFE_INTEGER;
+        const bucket = range.bucket ?? 'day';
+        // Every query below is scoped to the same finished calls in [from, to)
+        const scope = `
+          c.phone_number = ? AND c.ended_at IS NOT NULL
+          AND c.started_at >= ? AND c.started_at < ?
+        `;
+        const params = [phoneNumber, from, to];
+
+        const totals = this.db.prepare(`
+          SELECT
+            COUNT(*) AS totalCalls,
+            COALESCE(SUM(c.ended_at - c.started_at), 0) AS totalDuration
+          FROM conversations c
+          WHERE ${scope}
+        `).get(...params) as { totalCalls: number; totalDuration: number };
+
+        const unique = this.db.prepare(`
+          SELECT COUNT(DISTINCT m.pokemon) AS uniquePokemon
+          FROM pokemon_mentions m
+          JOIN conversations c ON c.call_sid = m.call_sid
+          WHERE ${scope}
+        `).get(...params) as { uniquePokemon: number };
+
+        // Count each Pokemon once per call it was mentioned in
+        const topPokemon = this.db.prepare(`
+          SELECT m.pokemon AS name, COUNT(DISTINCT m.call_sid) AS count
+          FROM pokemon_mentions m
+          JOIN conversations c ON c.call_sid = m.call_sid
+          WHERE ${scope}
+          GROUP BY m.pokemon
+          ORDER BY count DESC, name ASC
+          LIMIT 10
+        `).all(...params) as Array<{ name: string; count: number }>;
+
+        const recentActivity = this.db.prepare(`
+          SELECT
+            c.call_sid AS callSid,
+            c.started_at AS timestamp,
+            (
+              SELECT COUNT(DISTINCT m.pokemon)
+              FROM pokemon_mentions m
+              WHERE m.call_sid = c.call_sid
+            ) AS pokemonCount
+          FROM conversations c
+          WHERE ${scope}
+          ORDER BY c.started_at DESC
+          LIMIT 5
+        `).all(...params) as PokemonStats['recentActivity'];
+
+        const timeline = this.db.prepare(`
+          SELECT
+            ${BUCKET_EXPRESSIONS[bucket]} AS bucket,
+            COUNT(*) AS calls,
+            COALESCE(SUM(c.ended_at - c.started_at), 0) AS totalDuration
+          FROM conversations c
+          WHERE ${scope}
+          GROUP BY bucket
+          ORDER BY bucket ASC
+        `).all(...params) as PokemonStats['timeline'];
+
+        const channels = this.db.prepare(`
+          SELECT
+            COALESCE(c.channel, 'voice') AS channel,
+            COUNT(*) AS calls,
+            COALESCE(SUM(c.ended_at - c.started_at), 0) AS totalDuration
+          FROM conversations c
+          WHERE ${scope}
+          GROUP BY COALESCE(c.channel, 'voice')
+          ORDER BY calls DESC
+        `).all(...params) as PokemonStats['channels'];
+
+        resolve({
+          totalCalls: totals.totalCalls,
+          uniquePokemon: unique.uniquePokemon,
+          totalDuration: totals.totalDuration,
+          topPokemon,
+          recentActivity,
+          timeline: fillTimeline(timeline, bucket, range.from, range.to),
+          channels,
+        });
+      } catch (error) {
+        log.error('[db] Error getting Pokemon stats', { phoneNumber, error });
+        resolve({
+          totalCalls: 0,
+          uniquePokemon: 0,
+          totalDuration: 0,
+          topPokemon: [],
+          recentActivity: [],
+          timeline: [],
+          channels: [],
+        });
+      }
+    });
+  }
+
   // Close database connection
   close() {
     try {
@@ -539,6 +1113,88 @@ class CallDatabase {
   }
 }
 
+// Transcript search: tokens per snippet and snippets returned per call
+const SNIPPET_TOKENS = 12;
+const SNIPPETS_PER_CALL = 3;
+
+// Turn free text into a safe FTS5 query: every word must match, as a prefix
+// so results update while typing. Quoting keeps FTS operators and
+// punctuation in user input from being parsed as query syntax.
+function toFtsQuery(text: string): string {
+  const words = text.match(/[\p{L}\p{N}]+/gu) || [];
+  return words
+    .slice(0, 10)
+    .map((word) => `"${word}"*`)
+    .join(' ');
+}
+
+// SQLite expressions mapping c.started_at to the UTC start date of its bucket
+const BUCKET_EXPRESSIONS: Record<StatsBucket, string> = {
+  day: "date(c.started_at, 'unixepoch')",
+  // 'weekday 0' moves forward to Sunday, so step back to that week's Monday
+  week: "date(c.started_at, 'unixepoch', 'weekday 0', '-6 days')",
+  month: "date(c.started_at, 'unixepoch', 'start of month')",
+};
+
+// Upper bound on generated buckets so an open-ended range stays cheap. A
+// longer range keeps its most recent buckets.
+const MAX_TIMELINE_BUCKETS = 400;
+
+// Insert zero rows for empty buckets so charts get a continuous axis
+function fillTimeline(
+  rows: PokemonStats['timeline'],
+  bucket: StatsBucket,
+  from?: number,
+  to?: number
+): PokemonStats['timeline'] {
+  if (rows.length === 0 && from === undefined) return [];
+
+  const byBucket = new Map(rows.map((r) => [r.bucket, r]));
+  const start = bucketStart(
+    from !== undefined ? new Date(from * 1000) : new Date(`${rows[0].bucket}T00:00:00Z`),
+    bucket
+  );
+  const endDate =
+    to !== undefined
+      ? new Date(to * 1000 - 1)
+      : rows.length > 0
+        ? new Date(`${rows[rows.length - 1].bucket}T00:00:00Z`)
+        : start;
+  const end = bucketStart(endDate, bucket);
+
+  // Filled back from the end, so the cap drops the oldest buckets
+  const filled: PokemonStats['timeline'] = [];
+  for (
+    let cursor = end;
+    cursor >= start && filled.length < MAX_TIMELINE_BUCKETS;
+    cursor = stepBucket(cursor, bucket, -1)
+  ) {
+    const key = cursor.toISOString().slice(0, 10);
+    filled.push(byBucket.get(key) || { bucket: key, calls: 0, totalDuration: 0 });
+  }
+  return filled.reverse();
+}
+
+function bucketStart(date: Date, bucket: StatsBucket): Date {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === 'week') {
+    // Monday-based weeks, matching BUCKET_EXPRESSIONS.week
+    d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  } else if (bucket === 'month') {
+    d.setUTCDate(1);
+  }
+  return d;
+}
+
+// Start of the bucket `steps` buckets after (or, when negative, before) `date`
+function stepBucket(date: Date, bucket: StatsBucket, steps: number): Date {
+  const d = new Date(date);
+  if (bucket === 'day') d.setUTCDate(d.getUTCDate() + steps);
+  else if (bucket === 'week') d.setUTCDate(d.getUTCDate() + 7 * steps);
+  else d.setUTCMonth(d.getUTCMonth() + steps);
+  return d;
+}
+
 // Singleton instance
 let dbInstance: CallDatabase | null = null;
 
@@ -555,3 +1211,9 @@ export function getDatabase(): CallDatabase {
   }
   return dbInstance;
 }
+
+// Closes the connection; the next initDatabase() opens a new one (tests)
+export function closeDatabase(): void {
+  dbInstance?.close();
+  dbInstance = null;
+}
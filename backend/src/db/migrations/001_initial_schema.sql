@@ -1,5 +1,7 @@
--- Minimal schema for fast caller recognition and conversation storage
--- Optimized for speed with simple structure
+-- Initial schema for fast caller recognition and conversation storage
+-- Tables use IF NOT EXISTS so databases created before migrations adopt cleanly
+
+-- migrate:up
 
 -- Callers table - stores phone numbers and names
 CREATE TABLE IF NOT EXISTS callers (
@@ -42,4 +44,11 @@ CREATE TABLE IF NOT EXISTS verification_attempts (
 CREATE INDEX IF NOT EXISTS idx_sessions_phone ON sessions(phone_number);
 CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
-CREATE INDEX IF NOT EXISTS idx_conversations_phone ON conversations(phone_number);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_conversations_phone ON conversations(phone_number);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS verification_attempts;
+DROP TABLE IF EXISTS sessions;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS callers;
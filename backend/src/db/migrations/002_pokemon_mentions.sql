@@ -0,0 +1,22 @@
+-- Pokemon mentions table - one row per Pokemon named in a conversation turn
+-- Populated at write time so history/stats never re-parse message JSON
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS pokemon_mentions (
+  call_sid TEXT NOT NULL,           -- Conversation the turn belongs to
+  pokemon TEXT NOT NULL,            -- Canonical Pokédex name
+  role TEXT NOT NULL,               -- user | assistant
+  turn_index INTEGER NOT NULL,      -- Position of the turn in the conversation
+  source TEXT NOT NULL DEFAULT 'live', -- live (batch writer) | backfill
+  created_at INTEGER DEFAULT (unixepoch()),
+  PRIMARY KEY (call_sid, turn_index, pokemon)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pokemon_mentions_pokemon ON pokemon_mentions(pokemon);
+CREATE INDEX IF NOT EXISTS idx_conversations_phone_started ON conversations(phone_number, started_at);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_conversations_phone_started;
+DROP TABLE IF EXISTS pokemon_mentions;
@@ -0,0 +1,23 @@
+import type { Database } from 'bun:sqlite';
+
+// Channel a conversation came in on (voice | messaging), for analytics
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+  return columns.some((c) => c.name === column);
+}
+
+export function up(db: Database) {
+  // Databases from before migrations may already have the column
+  if (!hasColumn(db, 'conversations', 'channel')) {
+    db.exec(
+      "ALTER TABLE conversations ADD COLUMN channel TEXT DEFAULT 'voice'"
+    );
+  }
+}
+
+export function down(db: Database) {
+  db.exec('ALTER TABLE conversations DROP COLUMN channel');
+}
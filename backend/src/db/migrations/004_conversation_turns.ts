@@ -0,0 +1,90 @@
+import type { Database } from 'bun:sqlite';
+
+// One row per conversation message, replacing the conversations.messages
+// blob. Mentions in the split turns are indexed afterwards by the re-runnable
+// backfill (CallDatabase.backfillPokemonMentions), which the database runs
+// when this migration was just applied, so the result does not depend on the
+// extractor as it was when the migration shipped.
+
+type LegacyMessage = { role: string; content: string };
+
+export function up(db: Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS conversation_turns (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      call_sid TEXT NOT NULL,           -- Conversation the turn belongs to
+      turn_index INTEGER NOT NULL,      -- Position of the turn in the session history
+      role TEXT NOT NULL,               -- system | user | assistant
+      content TEXT NOT NULL,
+      channel TEXT NOT NULL DEFAULT 'voice', -- voice | messaging
+      source TEXT NOT NULL DEFAULT 'voice',  -- voice | sms | vision | system
+      latency_ms INTEGER,               -- Assistant turns: prompt to first spoken token
+      interrupted INTEGER NOT NULL DEFAULT 0, -- 1 when the caller cut the reply off
+      created_at INTEGER DEFAULT (unixepoch()),
+      UNIQUE (call_sid, turn_index)
+    )
+  `);
+
+  // Split existing blobs into turns; unreadable blobs are left in place
+  const rows = db
+    .prepare(
+      `SELECT call_sid, messages, channel, started_at
+       FROM conversations
+       WHERE messages IS NOT NULL AND messages NOT IN ('', '[]')`
+    )
+    .all() as Array<{
+    call_sid: string;
+    messages: string;
+    channel: string | null;
+    started_at: number | null;
+  }>;
+
+  const insertTurn = db.prepare(`
+    INSERT OR IGNORE INTO conversation_turns
+      (call_sid, turn_index, role, content, channel, source, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const clearBlob = db.prepare(
+    'UPDATE conversations SET messages = NULL WHERE call_sid = ?'
+  );
+
+  for (const row of rows) {
+    let messages: LegacyMessage[];
+    try {
+      messages = JSON.parse(row.messages) as LegacyMessage[];
+    } catch {
+      continue;
+    }
+    messages.forEach((msg, index) => {
+      // Per-turn timing was never recorded; the call start is the best estimate
+      insertTurn.run(
+        row.call_sid,
+        index,
+        msg.role,
+        msg.content,
+        row.channel || 'voice',
+        msg.role === 'system' ? 'system' : 'voice',
+        row.started_at
+      );
+    });
+    clearBlob.run(row.call_sid);
+  }
+}
+
+export function down(db: Database) {
+  // Rebuild the JSON blobs from turns before dropping the table
+  db.exec(`
+    UPDATE conversations
+    SET messages = (
+      SELECT json_group_array(json_object('role', role, 'content', content))
+      FROM (
+        SELECT role, content
+        FROM conversation_turns t
+        WHERE t.call_sid = conversations.call_sid
+        ORDER BY t.turn_index
+      )
+    )
+    WHERE call_sid IN (SELECT call_sid FROM conversation_turns)
+  `);
+  db.exec('DROP TABLE IF EXISTS conversation_turns');
+}
@@ -0,0 +1,43 @@
+-- Full-text index over conversation turns for transcript search
+-- External-content FTS5 table kept in sync by triggers; system prompts are not indexed
+
+-- migrate:up
+
+CREATE VIRTUAL TABLE IF NOT EXISTS conversation_turns_fts USING fts5(
+  content,
+  content = 'conversation_turns',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS conversation_turns_fts_insert
+AFTER INSERT ON conversation_turns WHEN new.role != 'system'
+BEGIN
+  INSERT INTO conversation_turns_fts (rowid, content) VALUES (new.id, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS conversation_turns_fts_delete
+AFTER DELETE ON conversation_turns WHEN old.role != 'system'
+BEGIN
+  INSERT INTO conversation_turns_fts (conversation_turns_fts, rowid, content)
+  VALUES ('delete', old.id, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS conversation_turns_fts_update
+AFTER UPDATE OF content ON conversation_turns WHEN old.role != 'system'
+BEGIN
+  INSERT INTO conversation_turns_fts (conversation_turns_fts, rowid, content)
+  VALUES ('delete', old.id, old.content);
+  INSERT INTO conversation_turns_fts (rowid, content) VALUES (new.id, new.content);
+END;
+
+-- Index turns stored before this migration
+INSERT INTO conversation_turns_fts (rowid, content)
+SELECT id, content FROM conversation_turns WHERE role != 'system';
+
+-- migrate:down
+
+DROP TRIGGER IF EXISTS conversation_turns_fts_update;
+DROP TRIGGER IF EXISTS conversation_turns_fts_delete;
+DROP TRIGGER IF EXISTS conversation_turns_fts_insert;
+DROP TABLE IF EXISTS conversation_turns_fts;
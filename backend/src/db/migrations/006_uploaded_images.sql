@@ -0,0 +1,19 @@
+-- Uploaded images - who sent each file in uploads/img
+-- Lets account erasure and the retention sweep remove images with their owner's data
+
+-- migrate:up
+
+CREATE TABLE IF NOT EXISTS uploaded_images (
+  file_name TEXT PRIMARY KEY,       -- File in uploads/img, served at /img/:file
+  phone_number TEXT,                -- Sender (E.164, without whatsapp: prefix)
+  created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_uploaded_images_phone ON uploaded_images(phone_number);
+CREATE INDEX IF NOT EXISTS idx_uploaded_images_created ON uploaded_images(created_at);
+CREATE INDEX IF NOT EXISTS idx_conversations_ended ON conversations(ended_at);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_conversations_ended;
+DROP TABLE IF EXISTS uploaded_images;
@@ -0,0 +1,10 @@
+-- Preferred call language per caller (utils/locales.ts language codes)
+-- NULL: decided from the calling code or DEFAULT_LANGUAGE
+
+-- migrate:up
+
+ALTER TABLE callers ADD COLUMN language TEXT;
+
+-- migrate:down
+
+ALTER TABLE callers DROP COLUMN language;
@@ -0,0 +1,10 @@
+-- Why a call was handed off to a human operator (routes/twilio.ts)
+-- NULL: the call was not handed off
+
+-- migrate:up
+
+ALTER TABLE conversations ADD COLUMN handoff_reason TEXT;
+
+-- migrate:down
+
+ALTER TABLE conversations DROP COLUMN handoff_reason;
@@ -0,0 +1,11 @@
+-- How a call ended (services/call-state.ts EndReason):
+-- caller_hangup, assistant_end, idle, handoff or error
+-- NULL: still active, or ended before this column existed
+
+-- migrate:up
+
+ALTER TABLE conversations ADD COLUMN end_reason TEXT;
+
+-- migrate:down
+
+ALTER TABLE conversations DROP COLUMN end_reason;
@@ -0,0 +1,202 @@
+import type { Database } from 'bun:sqlite';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { log } from '../utils/log';
+
+/**
+ * Versioned schema migrations.
+ *
+ * Migrations live in src/db/migrations as `<version>_<name>.sql` or
+ * `<version>_<name>.ts`. SQL files split their statements with
+ * `-- migrate:up` / `-- migrate:down` markers; TypeScript files export
+ * `up(db)` and optionally `down(db)`. Each migration runs in its own
+ * transaction and is recorded in `schema_migrations`.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+  down?: (db: Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: number | null; // unix seconds, null when pending
+}
+
+// "003_conversation_channel", as in the file name
+export function migrationId(m: Pick<Migration, 'version' | 'name'>): string {
+  return `${String(m.version).padStart(3, '0')}_${m.name}`;
+}
+
+const MIGRATIONS_DIR = join(__dirname, 'migrations');
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.(sql|ts|js)$/;
+
+function parseSqlMigration(source: string): {
+  up: string;
+  down: string | null;
+} {
+  const upIndex = source.indexOf('-- migrate:up');
+  const downIndex = source.indexOf('-- migrate:down');
+  if (upIndex === -1) {
+    return { up: source, down: null };
+  }
+  const upSql = source.slice(upIndex, downIndex === -1 ? undefined : downIndex);
+  const downSql = downIndex === -1 ? null : source.slice(downIndex);
+  return { up: upSql, down: downSql };
+}
+
+function loadMigration(dir: string, file: string): Migration | null {
+  const match = file.match(FILE_PATTERN);
+  if (!match) return null;
+  const [, version, name, ext] = match;
+  const path = join(dir, file);
+
+  if (ext === 'sql') {
+    const { up, down } = parseSqlMigration(readFileSync(path, 'utf-8'));
+    return {
+      version: Number(version),
+      name,
+      up: (db) => db.exec(up),
+      down: down === null ? undefined : (db) => db.exec(down),
+    };
+  }
+
+  const mod = require(path) as Partial<Migration>;
+  if (typeof mod.up !== 'function') {
+    throw new Error(`Migration ${file} does not export an up() function`);
+  }
+  return { version: Number(version), name, up: mod.up, down: mod.down };
+}
+
+class Migrator {
+  private migrations: Migration[];
+
+  constructor(
+    private db: Database,
+    dir: string = MIGRATIONS_DIR
+  ) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER DEFAULT (unixepoch())
+      )
+    `);
+    this.migrations = this.loadAll(dir);
+  }
+
+  private loadAll(dir: string): Migration[] {
+    const byVersion = new Map<number, Migration>();
+    for (const file of readdirSync(dir).sort()) {
+      const migration = loadMigration(dir, file);
+      if (!migration) continue;
+      // A compiled build may hold both 003_x.js and 003_x.ts; keep the first
+      const existing = byVersion.get(migration.version);
+      if (existing && existing.name !== migration.name) {
+        throw new Error(
+          `Duplicate migration version ${migration.version}: ${existing.name}, ${migration.name}`
+        );
+      }
+      if (!existing) byVersion.set(migration.version, migration);
+    }
+    return Array.from(byVersion.values()).sort((a, b) => a.version - b.version);
+  }
+
+  private applied(): Map<number, number> {
+    const rows = this.db
+      .prepare('SELECT version, applied_at FROM schema_migrations')
+      .all() as Array<{ version: number; applied_at: number }>;
+    return new Map(rows.map((r) => [r.version, r.applied_at]));
+  }
+
+  status(): MigrationStatus[] {
+    const applied = this.applied();
+    return this.migrations.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version) ?? null,
+    }));
+  }
+
+  pending(): Migration[] {
+    const applied = this.applied();
+    return this.migrations.filter((m) => !applied.has(m.version));
+  }
+
+  // Apply pending migrations in order, optionally stopping at a version
+  up(target?: number): Migration[] {
+    const toApply = this.pending().filter(
+      (m) => target === undefined || m.version <= target
+    );
+    for (const migration of toApply) {
+      this.run(migration, 'up');
+    }
+    return toApply;
+  }
+
+  // Roll back the most recently applied migrations
+  down(steps: number = 1): Migration[] {
+    const applied = this.applied();
+    const toRevert = this.migrations
+      .filter((m) => applied.has(m.version))
+      .reverse()
+      .slice(0, steps);
+    for (const migration of toRevert) {
+      this.run(migration, 'down');
+    }
+    return toRevert;
+  }
+
+  private run(migration: Migration, direction: 'up' | 'down') {
+    const label = migrationId(migration);
+    const step = direction === 'up' ? migration.up : migration.down;
+    if (!step) {
+      throw new Error(
+        `Migration ${label} cannot be rolled back (no down step)`
+      );
+    }
+
+    const apply = this.db.transaction(() => {
+      step(this.db);
+      if (direction === 'up') {
+        this.db
+          .prepare(
+            'INSERT INTO schema_migrations (version, name) VALUES (?, ?)'
+          )
+          .run(migration.version, migration.name);
+      } else {
+        this.db
+          .prepare('DELETE FROM schema_migrations WHERE version = ?')
+          .run(migration.version);
+      }
+    });
+
+    const started = Date.now();
+    try {
+      apply();
+    } catch (error) {
+      log.error('[migrate] Migration failed; rolled back', {
+        migration: label,
+        direction,
+        error: (error as any)?.message || String(error),
+      });
+      throw error;
+    }
+    log.info(
+      `[migrate] ${direction === 'up' ? 'Applied' : 'Reverted'} migration`,
+      {
+        migration: label,
+        durationMs: Date.now() - started,
+      }
+    );
+  }
+}
+
+export function createMigrator(db: Database, dir?: string): Migrator {
+  return new Migrator(db, dir);
+}
+
+export type { Migrator };
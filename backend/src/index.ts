@@ -8,22 +8,36 @@ import { registerTwilioRoutes } from './routes/twilio';
 import { registerStreamRoutes } from './routes/stream';
 import { registerAuthRoutes } from './routes/auth';
 import { registerPokemonRoutes } from './routes/pokemon';
+import { registerMeRoutes } from './routes/me';
 import { initDatabase } from './db/database';
+import { getRetentionService } from './services/retention';
+import { getMcpClientManager } from './services/mcp-client';
+import { assertTextModelsConfigured } from './services/providers';
+import { getFailover } from './services/failover';
+import { getIntentClassifier } from './services/intent-classifier';
 
 const app = new Hono();
 dotenv.config();
 const env = getEnv();
 const PORT = env.PORT;
 
+// Fail fast on an unknown PROVIDER / model id instead of on the first call
+assertTextModelsConfigured();
+
 // Initialize database
 try {
   initDatabase(env.DATABASE_PATH);
   log.info('[main] Database initialized');
+  // Purge transcripts and images past the retention period (RETENTION_DAYS)
+  getRetentionService().start();
 } catch (error) {
   log.error('[main] Failed to initialize database', error);
   // Continue running even if database fails - fallback to in-memory only
 }
 
+// Connect to poke-mcp (POKE_MCP_SSE_URL) ahead of the first call
+getMcpClientManager().warmUp();
+
 // CORS middleware applied only where needed (avoid WS upgrade conflicts)
 app.use(
   '/health',
@@ -31,13 +45,21 @@ app.use(
 );
 app.use(
   '/api/*',
-  cors({ origin: ['http://localhost:5173'], credentials: true })
+  cors({
+    origin: ['http://localhost:5173'],
+    credentials: true,
+    // Lets the dashboard read the file name of transcript downloads
+    exposeHeaders: ['Content-Disposition'],
+  })
 );
 
 app.get('/health', (c: Context) => {
   return c.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
+    mcp: getMcpClientManager().status(),
+    ai: getFailover().metrics(),
+    intents: getIntentClassifier().metrics(),
   });
 });
 
@@ -83,6 +105,7 @@ registerTwilioRoutes(app, upgradeWebSocket);
 registerStreamRoutes(app);
 registerAuthRoutes(app);
 registerPokemonRoutes(app);
+registerMeRoutes(app);
 
 app.onError(errorHandler);
 
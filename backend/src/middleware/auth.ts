@@ -3,6 +3,18 @@ import { getCookie } from 'hono/cookie';
 import { getAuthService } from '../services/auth';
 import { log } from '../utils/log';
 
+export interface AuthUser {
+  phoneNumber: string;
+  sessionId: string;
+}
+
+// Types c.get('user') in routes behind authMiddleware
+declare module 'hono' {
+  interface ContextVariableMap {
+    user: AuthUser;
+  }
+}
+
 export async function authMiddleware(c: Context, next: Next) {
   try {
     // Get token from Authorization header or cookie
@@ -0,0 +1,96 @@
+import type { Hono } from 'hono';
+import { setCookie } from 'hono/cookie';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth';
+import { getDatabase } from '../db/database';
+import { getRetentionService } from '../services/retention';
+import { EXPORT_FORMATS, loadTranscript, renderTranscript } from '../services/transcript-export';
+import { createZip, type ZipEntry } from '../utils/zip';
+import { log } from '../utils/log';
+
+// Validation schemas
+const BulkExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('json')
+});
+
+export function registerMeRoutes(app: Hono) {
+  const db = getDatabase();
+
+  // Download every call transcript of the authenticated caller as a zip
+  app.get('/api/me/export', authMiddleware, async (c) => {
+    try {
+      const user = c.get('user');
+
+      const parsed = BulkExportQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
+        return c.json({ 
+          error: 'ValidationError', 
+          message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` 
+        }, 400);
+      }
+
+      const { format } = parsed.data;
+      const conversations = await db.getConversationsForPhone(user.phoneNumber);
+      const entries: ZipEntry[] = [];
+
+      // Sequential on purpose: each read is a synchronous SQLite query anyway
+      for (const conversation of conversations) {
+        const transcript = await loadTranscript(conversation);
+        const file = renderTranscript(transcript, format);
+        entries.push({
+          name: `transcripts/${file.fileName}`,
+          data: file.body,
+          modifiedAt: transcript.startedAt ? new Date(transcript.startedAt * 1000) : undefined
+        });
+      }
+
+      const archive = createZip(entries);
+      const today = new Date().toISOString().slice(0, 10);
+
+      log.info('[me] Exported transcripts', { 
+        phoneNumber: user.phoneNumber,
+        calls: conversations.length,
+        format,
+        bytes: archive.length 
+      });
+
+      return c.body(new Uint8Array(archive), 200, {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="pokedex-transcripts-${today}.zip"`
+      });
+    } catch (error) {
+      log.error('[me] Error exporting transcripts', { error });
+      return c.json({ 
+        error: 'InternalError', 
+        message: 'Failed to export transcripts' 
+      }, 500);
+    }
+  });
+
+  // Erase the caller's conversations, sessions, uploaded images and caller record
+  app.delete('/api/me', authMiddleware, async (c) => {
+    try {
+      const user = c.get('user');
+      const summary = await getRetentionService().eraseCaller(user.phoneNumber);
+
+      // Every session was deleted, including this one
+      setCookie(c, 'auth_token', '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'Lax',
+        maxAge: 0
+      });
+
+      return c.json({ 
+        success: true, 
+        deleted: summary 
+      });
+    } catch (error) {
+      log.error('[me] Error erasing caller data', { error });
+      return c.json({ 
+        error: 'InternalError', 
+        message: 'Failed to erase your data' 
+      }, 500);
+    }
+  });
+}
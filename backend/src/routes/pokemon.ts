@@ -1,7 +1,8 @@
-import type { Hono } from 'hono';
+import type { Context, Hono } from 'hono';
 import { z } from 'zod';
 import { authMiddleware } from '../middleware/auth';
-import { getDatabase } from '../db/database';
+import { getDatabase, type Conversation } from '../db/database';
+import { EXPORT_FORMATS, loadTranscript, renderTranscript } from '../services/transcript-export';
 import { log } from '../utils/log';
 
 // Validation schemas
@@ -10,6 +11,54 @@ const PaginationSchema = z.object({
   offset: z.coerce.number().min(0).default(0)
 });
 
+// Accepts unix seconds ("1735689600") or an ISO date ("2025-01-01")
+const TimestampSchema = z
+  .string()
+  .transform((value) => (/^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000)))
+  .refine((value) => Number.isFinite(value), 'Invalid timestamp');
+
+const SearchQuerySchema = PaginationSchema.extend({
+  q: z.string().trim().min(1).max(200)
+});
+
+const ExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('json')
+});
+
+const StatsQuerySchema = z.object({
+  from: TimestampSchema.optional(),
+  to: TimestampSchema.optional(),
+  bucket: z.enum(['day', 'week', 'month']).default('day')
+});
+
+// Looks up a call and verifies it belongs to the authenticated caller
+async function loadOwnedConversation(
+  c: Context,
+  callSid: string
+): Promise<{ conversation: Conversation } | { response: Response }> {
+  const conversation = await getDatabase().getConversationBySid(callSid);
+
+  if (!conversation) {
+    return {
+      response: c.json({ 
+        error: 'NotFound', 
+        message: 'Query not found' 
+      }, 404)
+    };
+  }
+
+  if (conversation.phone_number !== c.get('user').phoneNumber) {
+    return {
+      response: c.json({ 
+        error: 'Forbidden', 
+        message: 'Access denied' 
+      }, 403)
+    };
+  }
+
+  return { conversation };
+}
+
 export function registerPokemonRoutes(app: Hono) {
   const db = getDatabase();
 
@@ -54,115 +103,86 @@ export function registerPokemonRoutes(app: Hono) {
     }
   });
 
-  // Get specific Pokemon query details
-  app.get('/api/pokemon-queries/:callSid', authMiddleware, async (c) => {
+  // Full-text search across the user's transcripts (registered before /:callSid)
+  app.get('/api/pokemon-queries/search', authMiddleware, async (c) => {
     try {
       const user = c.get('user');
-      const callSid = c.req.param('callSid');
-      
-      // Get conversation details
-      const conversation = await db.getConversationBySid(callSid);
-      
-      if (!conversation) {
-        return c.json({ 
-          error: 'NotFound', 
-          message: 'Query not found' 
-        }, 404);
-      }
-      
-      // Verify ownership
-      if (conversation.phone_number !== user.phoneNumber) {
+
+      const parsed = SearchQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
         return c.json({ 
-          error: 'Forbidden', 
-          message: 'Access denied' 
-        }, 403);
-      }
-      
-      // Parse messages for detailed view
-      let messages = [];
-      let pokemonMentioned = new Set<string>();
-      
-      try {
-        const parsedMessages = JSON.parse(conversation.messages);
-        messages = parsedMessages;
-        
-        // Extract all Pokemon mentioned
-        for (const msg of parsedMessages) {
-          const pokemonPattern = /\b(Pikachu|Charizard|Bulbasaur|Squirtle|Charmander|Wartortle|Blastoise|Caterpie|Metapod|Butterfree|Weedle|Kakuna|Beedrill|Pidgey|Pidgeotto|Pidgeot|Rattata|Raticate|Spearow|Fearow|Ekans|Arbok|Sandshrew|Sandslash|Nidoran|Nidorina|Nidoqueen|Nidorino|Nidoking|Clefairy|Clefable|Vulpix|Ninetales|Jigglypuff|Wigglytuff|Zubat|Golbat|Oddish|Gloom|Vileplume|Paras|Parasect|Venonat|Venomoth|Diglett|Dugtrio|Meowth|Persian|Psyduck|Golduck|Mankey|Primeape|Growlithe|Arcanine|Poliwag|Poliwhirl|Poliwrath|Abra|Kadabra|Alakazam|Machop|Machoke|Machamp|Bellsprout|Weepinbell|Victreebel|Tentacool|Tentacruel|Geodude|Graveler|Golem|Ponyta|Rapidash|Slowpoke|Slowbro|Magnemite|Magneton|Farfetch|Doduo|Dodrio|Seel|Dewgong|Grimer|Muk|Shellder|Cloyster|Gastly|Haunter|Gengar|Onix|Drowzee|Hypno|Krabby|Kingler|Voltorb|Electrode|Exeggcute|Exeggutor|Cubone|Marowak|Hitmonlee|Hitmonchan|Lickitung|Koffing|Weezing|Rhyhorn|Rhydon|Chansey|Tangela|Kangaskhan|Horsea|Seadra|Goldeen|Seaking|Staryu|Starmie|Scyther|Jynx|Electabuzz|Magmar|Pinsir|Tauros|Magikarp|Gyarados|Lapras|Ditto|Eevee|Vaporeon|Jolteon|Flareon|Porygon|Omanyte|Omastar|Kabuto|Kabutops|Aerodactyl|Snorlax|Articuno|Zapdos|Moltres|Dratini|Dragonair|Dragonite|Mewtwo|Mew)\b/gi;
-          const matches = msg.content.match(pokemonPattern);
-          if (matches) {
-            matches.forEach(match => pokemonMentioned.add(match));
-          }
-        }
-      } catch (err) {
-        log.error('[pokemon] Error parsing conversation messages', { err });
+          error: 'ValidationError', 
+          message: 'A search query "q" (up to 200 characters) is required' 
+        }, 400);
       }
-      
+
+      const { q, limit, offset } = parsed.data;
+      const result = await db.searchConversations(user.phoneNumber, q, limit, offset);
+
+      log.debug('[pokemon] Searched transcripts', { 
+        phoneNumber: user.phoneNumber,
+        count: result.results.length,
+        total: result.total 
+      });
+
       return c.json({
-        callSid: conversation.call_sid,
-        timestamp: conversation.started_at,
-        duration: conversation.ended_at && conversation.started_at 
-          ? conversation.ended_at - conversation.started_at 
-          : undefined,
-        pokemonMentioned: Array.from(pokemonMentioned),
-        messages: messages,
-        messageCount: messages.length
+        query: q,
+        results: result.results,
+        pagination: {
+          limit,
+          offset,
+          total: result.total,
+          hasMore: offset + limit < result.total
+        }
       });
     } catch (error) {
-      log.error('[pokemon] Error fetching query details', { error });
+      log.error('[pokemon] Error searching transcripts', { error });
       return c.json({ 
         error: 'InternalError', 
-        message: 'Failed to fetch query details' 
+        message: 'Failed to search transcripts' 
       }, 500);
     }
   });
 
-  // Get user's Pokemon statistics
+  // Get user's Pokemon statistics (registered before /:callSid so it is not shadowed)
   app.get('/api/pokemon-queries/stats', authMiddleware, async (c) => {
     try {
       const user = c.get('user');
-      
-      // Get all queries to calculate stats
-      const result = await db.getPokemonQueries(user.phoneNumber, 1000, 0);
-      
-      // Calculate statistics
-      const allPokemon = new Map<string, number>();
-      let totalDuration = 0;
-      let callCount = result.queries.length;
-      
-      for (const query of result.queries) {
-        // Count Pokemon occurrences
-        for (const pokemon of query.pokemon_names) {
-          allPokemon.set(pokemon, (allPokemon.get(pokemon) || 0) + 1);
-        }
-        
-        // Sum durations
-        if (query.duration) {
-          totalDuration += query.duration;
-        }
+
+      const parsed = StatsQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
+        return c.json({ 
+          error: 'ValidationError', 
+          message: 'Invalid date range parameters' 
+        }, 400);
+      }
+
+      const { from, to, bucket } = parsed.data;
+      if (from !== undefined && to !== undefined && from >= to) {
+        return c.json({ 
+          error: 'ValidationError', 
+          message: '"from" must be before "to"' 
+        }, 400);
       }
       
-      // Sort Pokemon by frequency
-      const topPokemon = Array.from(allPokemon.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 10)
-        .map(([name, count]) => ({ name, count }));
-      
-      // Get recent activity
-      const recentQueries = result.queries.slice(0, 5);
+      // Aggregated in SQL over the pokemon_mentions index
+      const stats = await db.getPokemonStats(user.phoneNumber, { from, to, bucket });
       
       return c.json({
         stats: {
-          totalCalls: callCount,
-          uniquePokemon: allPokemon.size,
-          totalDuration: totalDuration,
-          averageDuration: callCount > 0 ? Math.round(totalDuration / callCount) : 0,
-          topPokemon,
-          recentActivity: recentQueries.map(q => ({
-            callSid: q.call_sid,
-            timestamp: q.timestamp,
-            pokemonCount: q.pokemon_names.length
-          }))
+          totalCalls: stats.totalCalls,
+          uniquePokemon: stats.uniquePokemon,
+          totalDuration: stats.totalDuration,
+          averageDuration: stats.totalCalls > 0 ? Math.round(stats.totalDuration / stats.totalCalls) : 0,
+          topPokemon: stats.topPokemon,
+          recentActivity: stats.recentActivity,
+          timeline: stats.timeline,
+          channels: stats.channels
+        },
+        range: {
+          from: from ?? null,
+          to: to ?? null,
+          bucket
         }
       });
     } catch (error) {
@@ -174,6 +194,66 @@ export function registerPokemonRoutes(app: Hono) {
     }
   });
 
+  // Get specific Pokemon query details
+  app.get('/api/pokemon-queries/:callSid', authMiddleware, async (c) => {
+    try {
+      const owned = await loadOwnedConversation(c, c.req.param('callSid'));
+      if ('response' in owned) {
+        return owned.response;
+      }
+
+      // Turns (without system prompts) and the indexed Pokemon mentions
+      const transcript = await loadTranscript(owned.conversation);
+      
+      return c.json({
+        callSid: transcript.callSid,
+        timestamp: transcript.startedAt,
+        duration: transcript.duration ?? undefined,
+        pokemonMentioned: transcript.pokemonMentioned,
+        messages: transcript.messages,
+        messageCount: transcript.messages.length
+      });
+    } catch (error) {
+      log.error('[pokemon] Error fetching query details', { error });
+      return c.json({ 
+        error: 'InternalError', 
+        message: 'Failed to fetch query details' 
+      }, 500);
+    }
+  });
+
+  // Download a call transcript as json, txt, md or csv
+  app.get('/api/pokemon-queries/:callSid/export', authMiddleware, async (c) => {
+    try {
+      const parsed = ExportQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
+        return c.json({ 
+          error: 'ValidationError', 
+          message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` 
+        }, 400);
+      }
+
+      const owned = await loadOwnedConversation(c, c.req.param('callSid'));
+      if ('response' in owned) {
+        return owned.response;
+      }
+
+      const transcript = await loadTranscript(owned.conversation);
+      const file = renderTranscript(transcript, parsed.data.format);
+
+      return c.body(file.body, 200, {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`
+      });
+    } catch (error) {
+      log.error('[pokemon] Error exporting transcript', { error });
+      return c.json({ 
+        error: 'InternalError', 
+        message: 'Failed to export transcript' 
+      }, 500);
+    }
+  });
+
   // Health check
   app.get('/api/pokemon/health', (c) => {
     return c.json({ 
@@ -251,11 +331,23 @@ export function registerPokemonRoutes(app: Hono) {
           continue;
         }
         
-        // Create conversation
+        // Create conversation; the insert is deferred, so let it run before
+        // writing turns and timestamps against the row
         await db.createConversation(conv.callSid, userPhoneNumber);
+        await new Promise((resolve) => setImmediate(resolve));
         
-        // Update with messages and end time
-        await db.updateConversationMessages(conv.callSid, JSON.parse(conv.messages), true);
+        // Add turns and end the call
+        const messages = JSON.parse(conv.messages) as Array<{ role: 'user' | 'assistant'; content: string }>;
+        db.appendConversationTurns(
+          conv.callSid,
+          messages.map((msg, index) => ({
+            turnIndex: index,
+            role: msg.role,
+            content: msg.content,
+            createdAt: startTime + Math.round((conv.duration * index) / messages.length)
+          }))
+        );
+        db.endConversation(conv.callSid);
         
         // Update timestamps for demo data
         try {
@@ -3,6 +3,7 @@ import type { Context } from 'hono';
 import { getEnv } from '../config/env';
 import { streamAnswer } from '../services/ai';
 import { log } from '../utils/log';
+import { isLanguageCode, LANGUAGE_CODES } from '../utils/locales';
 import { getRandomThinkingMessage } from '../utils/thinking-messages';
 
 export function registerStreamRoutes(app: Hono) {
@@ -12,8 +13,21 @@ export function registerStreamRoutes(app: Hono) {
 async function handleSSE(c: Context) {
   const q = c.req.query('q') || '';
   if (!q) return c.json({ error: 'bad_request', message: 'Missing q' }, 400);
+  const lang = c.req.query('lang');
+  if (lang && !isLanguageCode(lang)) {
+    return c.json(
+      {
+        error: 'bad_request',
+        message: `lang must be one of ${LANGUAGE_CODES.join(', ')}`,
+      },
+      400
+    );
+  }
+  const language = isLanguageCode(lang) ? lang : undefined;
   const env = getEnv();
-  const thinking = env.RELAY_THINKING_ENABLED ? getRandomThinkingMessage() : '';
+  const thinking = env.RELAY_THINKING_ENABLED
+    ? getRandomThinkingMessage(language)
+    : '';
 
   const stream = new ReadableStream<Uint8Array>({
     async start(controller) {
@@ -28,7 +42,7 @@ async function handleSSE(c: Context) {
         if (thinking) send('thinking', thinking);
 
         // For this simple endpoint, we don't persist history. If needed, extend with session.
-        const tokenStream = await streamAnswer(q);
+        const tokenStream = await streamAnswer(q, { language });
         for await (const token of tokenStream) {
           send('token', token);
         }
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import { upgradeWebSocket } from 'hono/bun';
+import { resetEnv } from '../config/env';
+import { registerTwilioRoutes } from './twilio';
+
+const RELAY_CONFIG = JSON.stringify({
+  defaults: { statusCallback: 'https://example.com/status', voice: 'Joanna' },
+});
+const savedEnv = { ...process.env };
+
+async function twiml(env: Record<string, string>): Promise<string> {
+  Object.assign(process.env, { TWILIO_AUTH_TOKEN: '', ...env });
+  resetEnv();
+  const app = new Hono();
+  registerTwilioRoutes(app, upgradeWebSocket);
+  const res = await app.request('http://localhost/twiml');
+  return res.text();
+}
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+  resetEnv();
+});
+
+describe('/twiml <Connect action>', () => {
+  test('is the handoff URL even when RELAY_CONFIG sets statusCallback', async () => {
+    const xml = await twiml({ HANDOFF_NUMBER: '+15550000000', RELAY_CONFIG });
+    expect(xml).toContain('<Connect action="http://localhost/twilio/handoff">');
+    expect(xml).toContain(' voice="Joanna"');
+  });
+
+  test('is the configured statusCallback without an operator', async () => {
+    const xml = await twiml({ RELAY_CONFIG });
+    expect(xml).toContain('<Connect action="https://example.com/status">');
+  });
+});
@@ -1,7 +1,12 @@
 import type { Hono } from 'hono';
 import type { UpgradeWebSocket, WSContext, WSMessageReceive } from 'hono/ws';
 import { nanoid } from 'nanoid';
-import { generateTwiML, generateMessagingTwiML } from '../utils/twiml';
+import {
+  generateTwiML,
+  generateMessagingTwiML,
+  generateHandoffTwiML,
+  type RelayAttributes,
+} from '../utils/twiml';
 import {
   streamAnswer,
   streamAnswerWithMessages,
@@ -9,20 +14,39 @@ import {
   identifyPokemonFromImageUrl,
 } from '../services/ai';
 import { validateTwilioSignature } from '../utils/twilio-signature';
-import { getEnv } from '../config/env';
+import { getEnv, type KeypadAction } from '../config/env';
+import { relayAttributesFor } from '../config/relay';
 import { log } from '../utils/log';
 import { sessions } from '../services/session';
-import { parseKnownMessage } from '../types/relay';
+import { parseKnownMessage, type DtmfMessageT } from '../types/relay';
 import {
   getRandomThinkingMessage,
   getRandomImageProcessingMessage,
 } from '../utils/thinking-messages';
 import type { Context } from 'hono';
-import { getDatabase } from '../db/database';
+import { getDatabase, type NewConversationTurn } from '../db/database';
 import { getBatchWriter } from '../services/batch-writer';
+import { getIntentClassifier } from '../services/intent-classifier';
 import { decideForPrompt, decideForImage } from '../services/reasoner';
+import {
+  getReasonerActions,
+  type ActionContext,
+} from '../services/reasoner-actions';
+import { resolveTextModel } from '../services/providers';
 import { getMessageQueue } from '../services/message-queue';
 import { getStreamCoordinator } from '../services/stream-coordinator';
+import { CallStateMachine, type HandoffReason } from '../services/call-state';
+import { getPokemonNameCorrector } from '../services/pokemon-phonetics';
+import {
+  detectLanguageSwitch,
+  getLocale,
+  languageInstruction,
+  languageSwitchMessage,
+  resolveLanguage,
+  twimlLanguageOptions,
+  welcomeGreetingFor,
+  type LanguageCode,
+} from '../utils/locales';
 
 // ----------------------------------------------------------------------------
 // Live Call Registry: track active calls by caller phone and callSid, so that
@@ -32,8 +56,7 @@ type CallChannel = {
   ws: WSContext;
   phoneNumber: string | null;
   callSid: string | null;
-  waitingForImage: boolean;
-  waitTimer?: ReturnType<typeof setTimeout> | null;
+  call: CallStateMachine; // shared with the relay connection
   lastReminderTime?: number; // Track when we last sent a reminder
 };
 
@@ -47,51 +70,63 @@ function normalizePhone(p?: string | null): string | null {
     : s;
 }
 
-// Intent heuristics moved to AI reasoner (services/reasoner.ts)
+// Register the live call at setup; a newer call from the same phone wins
+function registerCall(
+  ws: WSContext,
+  phoneNumber: string,
+  callSid: string,
+  call: CallStateMachine
+) {
+  const norm = normalizePhone(phoneNumber);
+  if (!norm) return;
+  const ch: CallChannel = { ws, phoneNumber, callSid, call };
+  watchImageWait(ch);
+  activeCallsByPhone.set(norm, ch);
+}
 
-function setWaitingForImage(ch: CallChannel, ms = 120000) {
-  ch.waitingForImage = true;
-  // Reset reminder time when starting to wait for image
-  ch.lastReminderTime = undefined;
-  if (ch.waitTimer) clearTimeout(ch.waitTimer);
-  ch.waitTimer = setTimeout(() => {
-    if (!ch.ws) return;
-    try {
-      ch.ws.send(
-        JSON.stringify({
-          type: 'text',
-          token:
-            "I didn't receive a photo in time. If you'd like, say 'check my Pokémon photo' again and send it now.",
-          last: true,
-        })
-      );
-    } catch {}
-    ch.waitingForImage = false;
-    ch.waitTimer = null;
-  }, ms);
-
-  log.info('[twilio] setWaitingForImage: now waiting for image', {
-    phoneNumber: ch.phoneNumber,
-    callSid: ch.callSid,
-    timeoutMs: ms,
-  });
+function unregisterCall(phoneNumber: string, callSid: string) {
+  const norm = normalizePhone(phoneNumber);
+  const ch = norm ? activeCallsByPhone.get(norm) : undefined;
+  if (!norm || ch?.callSid !== callSid) return;
+  activeCallsByPhone.delete(norm);
 }
 
-function clearWaitingForImage(ch: CallChannel) {
-  const wasWaiting = ch.waitingForImage;
-  ch.waitingForImage = false;
-  ch.lastReminderTime = undefined; // Reset reminder time
-  if (ch.waitTimer) {
-    clearTimeout(ch.waitTimer);
-    ch.waitTimer = null;
-  }
+// Intent heuristics moved to AI reasoner (services/reasoner.ts)
 
-  if (wasWaiting) {
-    log.info('[twilio] clearWaitingForImage: stopped waiting for image', {
+// Side effects of the awaiting_image phase: the wait times out after
+// IMAGE_WAIT_TIMEOUT_SECONDS, and leaving the phase any other way (photo,
+// cancel, hangup) stops the timer.
+function watchImageWait(ch: CallChannel) {
+  let waitTimer: ReturnType<typeof setTimeout> | null = null;
+
+  ch.call.onEnter('awaiting_image', () => {
+    const ms = getEnv().IMAGE_WAIT_TIMEOUT_SECONDS * 1000;
+    ch.lastReminderTime = undefined;
+    waitTimer = setTimeout(() => {
+      waitTimer = null;
+      if (!ch.call.send({ type: 'image_wait_timed_out' })) return;
+      try {
+        ch.ws.send(
+          JSON.stringify({
+            type: 'text',
+            token: getLocale(ch.call.context.language).photoTimeout,
+            last: true,
+          })
+        );
+      } catch {}
+    }, ms);
+    log.info('[twilio] Waiting for image', {
       phoneNumber: ch.phoneNumber,
       callSid: ch.callSid,
+      timeoutMs: ms,
     });
-  }
+  });
+
+  ch.call.onExit('awaiting_image', () => {
+    ch.lastReminderTime = undefined;
+    if (waitTimer) clearTimeout(waitTimer);
+    waitTimer = null;
+  });
 }
 
 function chunkText(text: string, size = 240): string[] {
@@ -192,6 +227,43 @@ function resolveRelayWsUrl(req: Request): string {
   return `${scheme}://${host}/twilio/relay`;
 }
 
+// Where Twilio asks what to do after a handoff (the <Connect action>)
+function resolveHandoffUrl(req: Request): string {
+  const domain = getEnv().NGROK_URL;
+  const origin = domain ? `https://${domain}` : new URL(req.url).origin;
+  return `${origin}/twilio/handoff`;
+}
+
+function handoffConfigured(env: ReturnType<typeof getEnv>): boolean {
+  return !!(env.HANDOFF_NUMBER || env.HANDOFF_QUEUE);
+}
+
+// ConversationRelay attributes shared by /twiml and /twilio/voice:
+// keypad and language settings, then RELAY_CONFIG. Configured hints are
+// kept ahead of the Pokémon names. With an operator configured the
+// <Connect action> is the handoff URL, whatever RELAY_CONFIG says, or
+// handoffs would never reach /twilio/handoff.
+function relayAttributes(
+  env: ReturnType<typeof getEnv>,
+  req: Request,
+  language: LanguageCode,
+  call: { to?: string; from?: string }
+): RelayAttributes {
+  const configured = relayAttributesFor(call);
+  const pokemonHints = env.RELAY_POKEMON_HINTS
+    ? getPokemonNameCorrector().hints()
+    : [];
+  return {
+    dtmfDetection: env.DTMF_ENABLED,
+    ...twimlLanguageOptions(language),
+    ...configured,
+    statusCallback: handoffConfigured(env)
+      ? resolveHandoffUrl(req)
+      : configured.statusCallback,
+    hints: [...(configured.hints ?? []), ...pokemonHints],
+  };
+}
+
 type UpgradeWS = UpgradeWebSocket;
 
 export function registerTwilioRoutes(app: Hono, upgradeWebSocket: UpgradeWS) {
@@ -200,6 +272,7 @@ export function registerTwilioRoutes(app: Hono, upgradeWebSocket: UpgradeWS) {
   registerVoiceRoute(app, env);
   registerRelayRoutes(app, upgradeWebSocket, env);
   registerMessagingRoute(app, env);
+  registerHandoffRoute(app, env);
 }
 
 function registerTwiMLRoute(app: Hono, env: ReturnType<typeof getEnv>) {
@@ -216,9 +289,13 @@ function registerVoiceRoute(app: Hono, env: ReturnType<typeof getEnv>) {
         401
       );
     const wsUrl = resolveRelayWsUrl(c.req.raw);
+    const form = await c.req.parseBody().catch(() => ({}));
+    const { From: from, To: to } = form as Record<string, string | undefined>;
+    const language = resolveLanguage(null, from);
     const xml = generateTwiML({
       websocketUrl: wsUrl,
-      welcomeGreeting: env.RELAY_WELCOME_GREETING,
+      welcomeGreeting: welcomeGreetingFor(language),
+      ...relayAttributes(env, c.req.raw, language, { to, from }),
     });
     log.info('[twilio] POST /twilio/voice -> replying TwiML with ws URL');
     return c.text(xml, 200, { 'Content-Type': 'text/xml' });
@@ -235,6 +312,46 @@ function registerRelayRoutes(
   app.get('/twilio/relay', upgradeWebSocket(handlerFactory));
 }
 
+// <Connect action>: Twilio posts here when the ConversationRelay session
+// ends. A handoff from the relay (an "end" message whose handoffData has
+// reason "handoff") is dialed through or queued; any other end hangs up.
+function registerHandoffRoute(app: Hono, env: ReturnType<typeof getEnv>) {
+  app.post('/twilio/handoff', async (c) => {
+    const ok = await validateSignatureIfConfigured(c, env);
+    if (!ok)
+      return c.json(
+        { error: 'unauthorized', message: 'Invalid Twilio signature' },
+        401
+      );
+    const form = (await c.req.parseBody().catch(() => ({}))) as Record<
+      string,
+      string | undefined
+    >;
+    let handoff: { reason?: string; handoffReason?: string } = {};
+    try {
+      handoff = form.HandoffData ? JSON.parse(form.HandoffData) : {};
+    } catch {
+      log.warn('[twilio] handoff: unreadable HandoffData', {
+        callSid: form.CallSid,
+      });
+    }
+
+    const operator =
+      handoff.reason === 'handoff'
+        ? { number: env.HANDOFF_NUMBER, queue: env.HANDOFF_QUEUE }
+        : {};
+    log.info('[twilio] POST /twilio/handoff', {
+      callSid: form.CallSid,
+      sessionStatus: form.SessionStatus,
+      reason: handoff.reason ?? null,
+      handoffReason: handoff.handoffReason ?? null,
+      next: operator.number ? 'dial' : operator.queue ? 'enqueue' : 'hangup',
+    });
+    const xml = generateHandoffTwiML(operator);
+    return c.text(xml, 200, { 'Content-Type': 'text/xml' });
+  });
+}
+
 function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
   // Twilio will POST application/x-www-form-urlencoded
   app.post('/twilio/messaging', async (c) => {
@@ -256,6 +373,7 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
       );
     }
 
+    const receivedAt = Date.now();
     const from = (form.From as string) || '';
     const body = ((form.Body as string) || '').trim();
     const numMedia = parseInt(String(form.NumMedia || '0'), 10) || 0;
@@ -294,10 +412,10 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
       if (dataUrlMatch) {
         const mime = dataUrlMatch[1];
         const b64 = dataUrlMatch[2];
-        localUrl = await saveBase64ImageAndGetUrl(b64, mime, env);
+        localUrl = await saveBase64ImageAndGetUrl(b64, mime, from, env);
       } else if (/^[A-Za-z0-9+/=\n\r]+$/.test(body) && body.length > 100) {
         // Heuristic: looks like raw base64, assume PNG
-        localUrl = await saveBase64ImageAndGetUrl(body, 'image/png', env);
+        localUrl = await saveBase64ImageAndGetUrl(body, 'image/png', from, env);
       }
     }
 
@@ -308,10 +426,7 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
     const active = normFrom ? activeCallsByPhone.get(normFrom) : undefined;
     if (active && !finalImageUrl) {
       try {
-        speakToCall(
-          active,
-          "I didn't receive an image. Please text your Pokémon photo to this number and I'll analyze it."
-        );
+        speakToCall(active, getLocale(active.call.context.language).noImage);
       } catch {}
       const ackNone = `<?xml version=\"1.0\" encoding=\"UTF-8\"?><Response/>`;
       log.info(
@@ -335,9 +450,15 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
       // Return empty TwiML so Twilio does NOT send any message back
       const ack = `<?xml version="1.0" encoding="UTF-8"?><Response/>`;
 
+      // Read before the call moves on to analyzing
+      const requested = active.call.phase === 'awaiting_image';
+      active.call.send({ type: 'image_received' });
+
       // Immediate voice feedback that photo was received
       try {
-        const immediateFeedback = getRandomImageProcessingMessage();
+        const immediateFeedback = getRandomImageProcessingMessage(
+          active.call.context.language
+        );
         speakToCall(active, immediateFeedback);
         log.info('[twilio] messaging: sent immediate photo received feedback', {
           message: immediateFeedback.substring(0, 50) + '...',
@@ -366,7 +487,9 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
         try {
           // Send a processing message while analyzing
           try {
-            const processingMessage = getRandomThinkingMessage();
+            const processingMessage = getRandomThinkingMessage(
+              active.call.context.language
+            );
             // Small delay before processing message
             await new Promise((resolve) => setTimeout(resolve, 300));
             speakToCall(active, processingMessage);
@@ -420,48 +543,36 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
           log.info('[twilio] messaging: calling decideForImage reasoner');
           const { reply } = await decideForImage({
             analysis,
-            waitingForImage: !!active.waitingForImage,
+            waitingForImage: requested,
             callerName,
+            language: active.call.context.language,
           });
           log.info('[twilio] messaging: reasoner completed', {
             replyLength: reply?.length || 0,
             replyPreview: reply?.substring(0, 100) + '...',
           });
 
-          // Clear waiting state and speak back
-          log.info(
-            '[twilio] messaging: clearing waiting state and speaking reply'
-          );
-
           // Small delay before final result to ensure processing message is heard
           await new Promise((resolve) => setTimeout(resolve, 500));
 
-          clearWaitingForImage(active);
-          // Reset reminder time so future image requests can send reminders again
-          active.lastReminderTime = undefined;
+          active.call.send({ type: 'image_handled' });
           speakToCall(active, reply);
 
           // Persist assistant reply in session/history if possible
           const sid = active.callSid;
           if (sid) {
-            const history = sessions.get(sid) || [];
-            const withAssistant: SimpleMessage[] = [
-              ...history,
+            recordTurn(
+              sid,
               { role: 'assistant', content: reply },
-            ];
-            sessions.set(sid, withAssistant);
-            try {
-              const batchWriter = getBatchWriter();
-              batchWriter.enqueue(sid, withAssistant, false);
-              log.debug('[twilio] messaging: queued assistant reply to batch', {
-                callSid: sid,
-              });
-            } catch (err) {
-              log.error(
-                '[twilio] messaging: failed to queue assistant reply',
-                err
-              );
-            }
+              {
+                channel: 'messaging',
+                source: 'vision',
+                latencyMs: Date.now() - receivedAt,
+              }
+            );
+            log.debug('[twilio] messaging: queued assistant reply to batch', {
+              callSid: sid,
+            });
           }
 
           log.info('[twilio] messaging: spoke result on active call', {
@@ -478,21 +589,15 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
             stack: (err as any)?.stack,
           });
 
-          // Clear waiting state on error
-          try {
-            clearWaitingForImage(active);
-            log.info('[twilio] messaging: cleared waiting state due to error');
-          } catch (clearError) {
-            log.warn('[twilio] messaging: failed to clear waiting state', {
-              error: (clearError as any)?.message || String(clearError),
-            });
-          }
+          // Back to the conversation on error
+          active.call.send({ type: 'image_handled' });
 
           // Try to speak error message
           try {
+            const locale = getLocale(active.call.context.language);
             const errorReply = errorMessage.includes('timeout')
-              ? 'Sorry, the image analysis took too long. Please try sending a smaller or clearer photo.'
-              : 'Sorry, I had trouble analyzing that image. Please try again with a different photo.';
+              ? locale.imageTooSlow
+              : locale.imageFailed;
 
             speakToCall(active, errorReply);
             log.info('[twilio] messaging: sent error message to caller', {
@@ -525,6 +630,7 @@ function registerMessagingRoute(app: Hono, env: ReturnType<typeof getEnv>) {
 async function saveBase64ImageAndGetUrl(
   base64: string,
   mime: string,
+  from: string,
   env: ReturnType<typeof getEnv>
 ) {
   const clean = base64.replace(/\s/g, '');
@@ -535,6 +641,12 @@ async function saveBase64ImageAndGetUrl(
   const path = `${dir}/${id}.${ext}`;
   await ensureDir(dir);
   await Bun.write(path, buf);
+  // Owner is tracked so account erasure and retention can remove the file
+  try {
+    getDatabase().recordUploadedImage(`${id}.${ext}`, normalizePhone(from));
+  } catch (err) {
+    log.warn('[twilio] messaging: could not record image owner', { err });
+  }
   const port = env.PORT;
   return `http://localhost:${port}/img/${id}.${ext}`;
 }
@@ -571,48 +683,48 @@ async function runPokemonVision(imageUrl: string): Promise<string> {
 async function respondWithTwiML(c: Context, env: ReturnType<typeof getEnv>) {
   // Extract phone number from Twilio POST data
   let phoneNumber = '';
-  let welcomeGreeting =
-    env.RELAY_WELCOME_GREETING || 'Welcome to the Pokédex Call Center.';
+  let calledNumber = '';
+  let language = resolveLanguage();
+  let welcomeGreeting = welcomeGreetingFor(language);
 
   if (c.req.method === 'POST') {
     try {
       const formData = await c.req.parseBody();
       phoneNumber = (formData.From as string) || '';
+      calledNumber = (formData.To as string) || '';
       log.info('[twilio] Extracted phone number', { phoneNumber });
 
       // Quick caller lookup for personalized greeting
       if (phoneNumber) {
+        language = resolveLanguage(null, phoneNumber);
         try {
           const db = getDatabase();
           const caller = await db.getCallerQuickly(phoneNumber, 50); // 50ms timeout for TwiML response
+          language = resolveLanguage(caller?.language, phoneNumber);
+          const locale = getLocale(language);
 
           if (caller?.name) {
             // Special pronunciation for bdougie
             const displayName =
               caller.name === 'bdougie' ? 'bee dug ee' : caller.name;
 
-            // Array of greeting variations
-            const greetings = [
-              `Sup ${displayName}! What Pokémon can I help you with today?`,
-              `Yo ${displayName}, good to hear from you! Which Pokémon are we looking up today?`,
-              `Hey ${displayName}, welcome back! What Pokémon info do you need?`,
-              `${displayName}! Great to hear from you again. What Pokémon should we explore?`,
-              `What's up ${displayName}? Ready to dive into some Pokémon facts?`,
-            ];
-
             // Pick a random greeting
+            const greetings = locale.returning;
             welcomeGreeting =
-              greetings[Math.floor(Math.random() * greetings.length)];
+              greetings[Math.floor(Math.random() * greetings.length)](
+                displayName
+              );
             log.info('[twilio] Personalized greeting for returning caller', {
               name: caller.name,
+              language,
               greeting: welcomeGreeting,
             });
           } else {
-            welcomeGreeting =
-              'Welcome to the Pokédex Call Center. May I have your name please?';
-            log.info('[twilio] Default greeting for new caller');
+            welcomeGreeting = locale.askName;
+            log.info('[twilio] Default greeting for new caller', { language });
           }
         } catch (err) {
+          welcomeGreeting = welcomeGreetingFor(language);
           log.error('[twilio] Error during caller lookup for greeting', err);
         }
       }
@@ -634,10 +746,15 @@ async function respondWithTwiML(c: Context, env: ReturnType<typeof getEnv>) {
   const xml = generateTwiML({
     websocketUrl: wsUrl,
     welcomeGreeting,
+    ...relayAttributes(env, c.req.raw, language, {
+      to: calledNumber,
+      from: phoneNumber,
+    }),
   });
   log.info('[twilio] respondWithTwiML -> replying TwiML with ws URL', {
     wsUrl,
     welcomeGreeting,
+    language,
   });
   return c.text(xml, 200, { 'Content-Type': 'text/xml' });
 }
@@ -688,6 +805,27 @@ function makeRelayHandlerFactory(env: ReturnType<typeof getEnv>) {
       log.error('[relay] Failed to extract phone from URL', err);
     }
 
+    // One state per connection: what one message changes (caller name from
+    // setup, a "stop" during a reply) must be visible to the next
+    const state: RelayState = {
+      connectionId,
+      callSidRef: () => callSid,
+      setCallSid: (v: string | null) => (callSid = v),
+      phoneNumber,
+      call: new CallStateMachine(
+        () => ({ connectionId, callSid }),
+        resolveLanguage(null, phoneNumber)
+      ),
+      idleTimer: null,
+    };
+    const abortRef: AbortRef = {
+      get: () => currentAbort,
+      set: (a: any) => (currentAbort = a),
+    };
+    // Messages are handled concurrently; later ones wait for setup (caller
+    // lookup) so a caller talking over the greeting is still recognized
+    let setupDone: Promise<void> | null = null;
+
     return {
       onOpen() {
         log.info('[relay] open', { connectionId, phoneNumber });
@@ -696,21 +834,19 @@ function makeRelayHandlerFactory(env: ReturnType<typeof getEnv>) {
         try {
           const parsed = safeParseMessage(event);
           if (!parsed) return;
-          await routeRelayMessage({
+          const fromCaller = CALLER_MESSAGES.has(parsed.type);
+          if (fromCaller) clearIdleTimer(state);
+          const handled = routeRelayMessage({
             parsed,
             ws,
-            state: {
-              connectionId,
-              callSidRef: () => callSid,
-              setCallSid: (v: string | null) => (callSid = v),
-              phoneNumber,
-            },
-            abortRef: {
-              get: () => currentAbort,
-              set: (a: any) => (currentAbort = a),
-            },
+            state,
+            abortRef,
             isDebug,
+            setupDone,
           });
+          if (parsed.type === 'setup') setupDone = handled.catch(() => {});
+          await handled;
+          if (fromCaller) armIdleTimer(state, ws);
         } catch (err) {
           log.error('[relay] onMessage:error', {
             error: (err as any)?.message || String(err),
@@ -719,11 +855,16 @@ function makeRelayHandlerFactory(env: ReturnType<typeof getEnv>) {
       },
       onError() {
         if (currentAbort) currentAbort.abort('ws-error');
+        state.call.send({ type: 'hangup', reason: 'error' });
         log.error('[relay] ws:error', { connectionId, callSid });
       },
       onClose() {
         if (currentAbort) currentAbort.abort('ws-closed');
         currentAbort = null;
+        clearIdleTimer(state);
+        // Refused when the call already ended some other way, whose reason
+        // is kept
+        state.call.send({ type: 'hangup', reason: 'caller_hangup' });
 
         // Clean up message queue and stream coordinator
         if (callSid) {
@@ -736,15 +877,17 @@ function makeRelayHandlerFactory(env: ReturnType<typeof getEnv>) {
           // Clear stream state
           streamCoordinator.clearCall(callSid);
         }
+        if (callSid && phoneNumber) unregisterCall(phoneNumber, callSid);
 
         // Mark conversation as ended using batch writer
         if (callSid && phoneNumber) {
           try {
             const batchWriter = getBatchWriter();
-            const finalMessages = sessions.get(callSid) || [];
-            batchWriter.enqueue(callSid, finalMessages, true); // true = ended, will flush immediately
+            const reason = state.call.context.endReason ?? 'caller_hangup';
+            batchWriter.markEnded(callSid, reason); // flushes pending turns immediately
             log.info('[relay] Marked conversation as ended in batch', {
               callSid,
+              reason,
             });
           } catch (err) {
             log.error('[relay] Failed to mark conversation as ended', err);
@@ -807,31 +950,35 @@ type RelayState = {
   callSidRef: () => string | null;
   setCallSid: (v: string | null) => void;
   phoneNumber: string | null;
-  // Additional state properties
-  callerName?: string;
-  isNewCaller?: boolean;
-  nameExtracted?: boolean;
-  pendingInterrupt?: boolean;
-  ttsStoppedByUser?: boolean;
+  // Phase, caller name and reply flags (services/call-state.ts)
+  call: CallStateMachine;
+  idleTimer: Timer | null; // see armIdleTimer
 };
 type AbortRef = { get: () => any; set: (a: any) => void };
 
+// Messages that mean the caller is there; they restart the idle timeout
+const CALLER_MESSAGES = new Set(['prompt', 'dtmf', 'interrupt']);
+
 async function routeRelayMessage(args: {
   parsed: any;
   ws: WSContext;
   state: RelayState;
   abortRef: AbortRef;
   isDebug: boolean;
+  setupDone: Promise<void> | null;
 }) {
-  const { parsed, ws, state, abortRef, isDebug } = args;
+  const { parsed, ws, state, abortRef, isDebug, setupDone } = args;
   const type = parsed?.type;
+  if (type !== 'setup' && setupDone) await setupDone;
   switch (type) {
     case 'setup':
-      return handleSetup(parsed, state);
+      return handleSetup(parsed, ws, state);
     case 'prompt':
       return handlePrompt(parsed, ws, state, abortRef, isDebug);
     case 'interrupt':
       return handleInterrupt(state, abortRef, ws);
+    case 'dtmf':
+      return handleDtmf(parsed, ws, state);
     case 'ping':
       ws.send(JSON.stringify({ type: 'pong' }));
       return;
@@ -840,15 +987,25 @@ async function routeRelayMessage(args: {
   }
 }
 
-async function handleSetup(parsed: any, state: RelayState) {
+async function handleSetup(parsed: any, ws: WSContext, state: RelayState) {
   const callSid = parsed?.callSid || null;
   state.setCallSid(callSid);
+  if (parsed?.customParameters) {
+    log.debug('[relay] Custom parameters', {
+      callSid,
+      customParameters: parsed.customParameters,
+    });
+  }
+  if (callSid && state.phoneNumber) {
+    registerCall(ws, state.phoneNumber, callSid, state.call);
+  }
 
   if (callSid) {
     // Start with base system prompt
     let systemPrompt =
       getEnv().SYSTEM_PROMPT || 'You are a helpful Pokédex assistant.';
     let callerName: string | null = null;
+    let language = state.call.context.language;
 
     // Quick caller lookup with timeout
     if (state.phoneNumber) {
@@ -858,21 +1015,15 @@ async function handleSetup(parsed: any, state: RelayState) {
         // Check for existing conversation (recovery scenario)
         const existingConv = await db.getConversationBySid(callSid);
 
-        if (existingConv && existingConv.messages) {
+        if (existingConv) {
           // Recover conversation context
-          try {
-            const messages = JSON.parse(
-              existingConv.messages
-            ) as SimpleMessage[];
-            if (messages.length > 0) {
-              sessions.set(callSid, messages);
-              log.info('[relay] Recovered conversation from database', {
-                callSid,
-                messageCount: messages.length,
-              });
-            }
-          } catch (parseErr) {
-            log.error('[relay] Failed to parse recovered messages', parseErr);
+          const messages = await db.getConversationMessages(callSid);
+          if (messages.length > 0) {
+            sessions.set(callSid, messages);
+            log.info('[relay] Recovered conversation from database', {
+              callSid,
+              messageCount: messages.length,
+            });
           }
         } else {
           // Check for recent unclosed conversation (within last 5 minutes)
@@ -886,25 +1037,18 @@ async function handleSetup(parsed: any, state: RelayState) {
               : Infinity;
             if (timeSinceStart < 300) {
               // 5 minutes
-              try {
-                const messages = JSON.parse(
-                  recentConvs[0].messages
-                ) as SimpleMessage[];
-                if (messages.length > 0) {
-                  // Recover context from previous unclosed conversation
-                  sessions.set(callSid, messages);
-                  log.info('[relay] Recovered recent unclosed conversation', {
-                    oldCallSid: recentConvs[0].call_sid,
-                    newCallSid: callSid,
-                    messageCount: messages.length,
-                    ageSeconds: Math.round(timeSinceStart),
-                  });
-                }
-              } catch (parseErr) {
-                log.error(
-                  '[relay] Failed to parse recent conversation messages',
-                  parseErr
-                );
+              const messages = await db.getConversationMessages(
+                recentConvs[0].call_sid
+              );
+              if (messages.length > 0) {
+                // Recover context from previous unclosed conversation
+                sessions.set(callSid, messages);
+                log.info('[relay] Recovered recent unclosed conversation', {
+                  oldCallSid: recentConvs[0].call_sid,
+                  newCallSid: callSid,
+                  messageCount: messages.length,
+                  ageSeconds: Math.round(timeSinceStart),
+                });
               }
             }
           }
@@ -919,6 +1063,7 @@ async function handleSetup(parsed: any, state: RelayState) {
 
         // Try to get caller info quickly (100ms timeout)
         const caller = await db.getCallerQuickly(state.phoneNumber, 100);
+        language = resolveLanguage(caller?.language, state.phoneNumber);
 
         // Get conversation context for returning callers (non-blocking)
         let contextPromise: Promise<any> | null = null;
@@ -1008,21 +1153,31 @@ async function handleSetup(parsed: any, state: RelayState) {
       }
     }
 
-    // Initialize session with customized prompt
-    sessions.getOrInit(callSid, [
-      { role: 'system', content: systemPrompt },
-    ] as SimpleMessage[]);
+    systemPrompt = withLanguage(systemPrompt, language);
+
+    // Initialize session with customized prompt (recovered sessions keep theirs)
+    if (!sessions.get(callSid)) {
+      recordTurn(
+        callSid,
+        { role: 'system', content: systemPrompt },
+        { source: 'system' },
+        !!state.phoneNumber
+      );
+    }
 
-    // Store caller info in state for later use
-    state.callerName = callerName || undefined;
-    state.isNewCaller = !callerName;
+    state.call.send({
+      type: 'setup',
+      callerName,
+      canCaptureName: !!state.phoneNumber,
+      language,
+    });
   }
 
   log.info('[relay] setup', {
     connectionId: state.connectionId,
     callSid,
     phoneNumber: state.phoneNumber,
-    isNewCaller: !state.callerName,
+    phase: state.call.phase,
   });
 }
 
@@ -1033,22 +1188,24 @@ async function handlePrompt(
   abortRef: AbortRef,
   isDebug: boolean
 ) {
-  const text: string = parsed?.voicePrompt || parsed?.text || '';
-  if (!text) return;
+  const heard: string = parsed?.voicePrompt || parsed?.text || '';
+  if (!heard) return;
 
-  // Check if we're waiting for an image - if so, ignore all voice input
+  // While a photo is expected or being analyzed, ignore all voice input
   const norm = normalizePhone(state.phoneNumber);
   const ch = norm ? activeCallsByPhone.get(norm) : undefined;
 
-  if (ch?.waitingForImage) {
+  if (state.call.ignoresVoice) {
     log.info(
       '[relay] handlePrompt: ignoring voice input while waiting for image',
       {
         phoneNumber: state.phoneNumber,
         callSid: state.callSidRef(),
-        voiceInput: text.substring(0, 50) + '...',
+        phase: state.call.phase,
+        voiceInput: heard.substring(0, 50) + '...',
       }
     );
+    if (!ch || state.call.phase !== 'awaiting_image') return;
 
     // Optionally send a brief reminder that we're waiting for image (max once per 30 seconds)
     const now = Date.now();
@@ -1058,10 +1215,7 @@ async function handlePrompt(
     if (timeSinceLastReminder > 30000) {
       // 30 seconds
       try {
-        speakToCall(
-          ch,
-          "I'm waiting for your Pokémon photo. Please send it via text message."
-        );
+        speakToCall(ch, getLocale(state.call.context.language).waitingForPhoto);
         ch.lastReminderTime = now;
         log.debug(
           '[relay] handlePrompt: sent reminder about waiting for image'
@@ -1086,12 +1240,10 @@ async function handlePrompt(
   const callSid = state.callSidRef();
   const streamCoordinator = getStreamCoordinator();
   const messageQueue = getMessageQueue();
+  const text = correctPokemonNames(heard, state);
 
   // Check if this is a stop command
-  const isStopCommand =
-    text.toLowerCase().trim() === 'stop' ||
-    text.toLowerCase().includes('stop talking') ||
-    text.toLowerCase().includes('stop speaking');
+  const isStopCommand = getIntentClassifier().isStop(text);
 
   // Check if stream is currently active
   if (callSid && streamCoordinator.isStreamActive(callSid)) {
@@ -1109,11 +1261,8 @@ async function handlePrompt(
         }
       );
 
-      // Clear interrupt flag
-      state.pendingInterrupt = false;
-
-      // Mark that we should skip sending remaining chunks to client
-      state.ttsStoppedByUser = true;
+      // Skip sending the remaining chunks to the client
+      state.call.send({ type: 'reply_stopped' });
       return;
     }
 
@@ -1131,19 +1280,43 @@ async function handlePrompt(
       textPreview: text.slice(0, 50),
       pendingCount: messageQueue.getPendingCount(callSid),
     });
-
-    // Clear interrupt flag
-    state.pendingInterrupt = false;
     return; // Don't process now, will be handled after current stream
   }
 
-  // Clear interrupt flag
-  state.pendingInterrupt = false;
-
   // Process the prompt immediately
   await processPrompt(text, ws, state, abortRef, isDebug);
 }
 
+// The language instruction is appended for calls not held in English
+function withLanguage(prompt: string, language: LanguageCode): string {
+  return language === 'en'
+    ? prompt
+    : `${prompt}\n\n${languageInstruction(language)}`;
+}
+
+// System prompt once a new caller has given their name
+function namedCallerPrompt(name: string, language: LanguageCode): string {
+  return withLanguage(
+    `You are a helpful Pokédex assistant. The caller's name is ${name}. You've just learned their name, so acknowledge it warmly and continue helping with their Pokémon questions.`,
+    language
+  );
+}
+
+// Misheard Pokémon names ("pick a chew") are fixed before the reasoner and
+// the model see the prompt; corrections are logged for review
+function correctPokemonNames(heard: string, state: RelayState): string {
+  if (!getEnv().RELAY_NAME_CORRECTION) return heard;
+  const { text, corrections } = getPokemonNameCorrector().correct(heard);
+  if (corrections.length > 0) {
+    log.info('[relay] Corrected Pokémon names in prompt', {
+      connectionId: state.connectionId,
+      callSid: state.callSidRef(),
+      corrections,
+    });
+  }
+  return text;
+}
+
 async function processPrompt(
   text: string,
   ws: WSContext,
@@ -1153,20 +1326,32 @@ async function processPrompt(
 ) {
   const callSid = state.callSidRef();
   const streamCoordinator = getStreamCoordinator();
+  const promptAt = Date.now();
+  // Handed off or hung up: prompts still queued are not answered
+  if (state.call.phase === 'ending') return;
+
+  // "Can you speak Spanish?" is handled here, not by the model
+  const requestedLanguage = detectLanguageSwitch(text);
+  if (requestedLanguage) {
+    const reply = switchLanguage(state, ws, requestedLanguage);
+    recordActionTurns(state, text, reply, promptAt);
+    return;
+  }
 
   // Get the call channel for decision logic
   const norm = normalizePhone(state.phoneNumber);
   const ch = norm ? activeCallsByPhone.get(norm) : undefined;
 
-  // Check if this is a new caller and try to extract their name
-  if (state.isNewCaller && !state.nameExtracted) {
+  // New caller asked for their name: try to extract it. The reasoner's
+  // guess below may still replace this one on the same turn.
+  const capturingName = state.call.phase === 'name_capture';
+  if (capturingName) {
     const extractedName = extractNameFromResponse(text);
     if (extractedName && state.phoneNumber) {
       try {
         const db = getDatabase();
         await db.saveCallerName(state.phoneNumber, extractedName);
-        state.callerName = extractedName;
-        state.nameExtracted = true;
+        state.call.send({ type: 'name_captured', name: extractedName });
         log.info('[relay] Extracted and saved caller name', {
           name: extractedName,
           phoneNumber: state.phoneNumber,
@@ -1176,7 +1361,10 @@ async function processPrompt(
         if (callSid) {
           const history = sessions.get(callSid) || [];
           if (history.length > 0 && history[0].role === 'system') {
-            history[0].content = `You are a helpful Pokédex assistant. The caller's name is ${extractedName}. You've just learned their name, so acknowledge it warmly and continue helping with their Pokémon questions.`;
+            history[0].content = namedCallerPrompt(
+              extractedName,
+              state.call.context.language
+            );
             sessions.set(callSid, history);
           }
         }
@@ -1191,9 +1379,10 @@ async function processPrompt(
     const decision = await decideForPrompt({
       channel: 'voice',
       text,
-      waitingForImage: !!ch?.waitingForImage,
-      callerName: state.callerName || null,
-      isNewCaller: !!state.isNewCaller,
+      waitingForImage: state.call.phase === 'awaiting_image',
+      callerName: state.call.context.callerName,
+      isNewCaller: capturingName,
+      language: state.call.context.language,
     });
     log.debug('[relay] reasoner:decision', {
       action: decision.action,
@@ -1201,19 +1390,23 @@ async function processPrompt(
     });
 
     // Persist name if extracted for new callers
-    if (decision.extractedName && state.isNewCaller && state.phoneNumber) {
+    if (decision.extractedName && capturingName && state.phoneNumber) {
       try {
         const db = getDatabase();
         await db.saveCallerName(state.phoneNumber, decision.extractedName);
-        state.callerName = decision.extractedName;
-        state.isNewCaller = false;
-        state.nameExtracted = true;
+        state.call.send({
+          type: 'name_captured',
+          name: decision.extractedName,
+        });
         const callSid = state.callSidRef();
 
         if (callSid) {
           const history = sessions.get(callSid) || [];
           if (history.length > 0 && history[0].role === 'system') {
-            history[0].content = `You are a helpful Pokédex assistant. The caller's name is ${decision.extractedName}. You've just learned their name, so acknowledge it warmly and continue helping with their Pokémon questions.`;
+            history[0].content = namedCallerPrompt(
+              decision.extractedName,
+              state.call.context.language
+            );
             sessions.set(callSid, history);
           }
         }
@@ -1226,63 +1419,17 @@ async function processPrompt(
       }
     }
 
-    // If decision is not to chat, act immediately and return
-    if (decision.action === 'wait_for_image' && ch) {
-      setWaitingForImage(ch);
-      speakToCall(ch, decision.reply);
-
-      // Record assistant reply in session
-      if (state.callSidRef()) {
-        const history = sessions.get(state.callSidRef()!) || [];
-        const withAssistant: SimpleMessage[] = [
-          ...history,
-          { role: 'assistant', content: decision.reply },
-        ];
-        sessions.set(state.callSidRef()!, withAssistant);
-        try {
-          const batchWriter = getBatchWriter();
-          batchWriter.enqueue(state.callSidRef()!, withAssistant, false);
-        } catch {}
-      }
-      return;
-    }
-
-    if (decision.action === 'cancel_wait' && ch) {
-      clearWaitingForImage(ch);
-      speakToCall(ch, decision.reply);
-      if (state.callSidRef()) {
-        const history = sessions.get(state.callSidRef()!) || [];
-        const withAssistant: SimpleMessage[] = [
-          ...history,
-          { role: 'assistant', content: decision.reply },
-        ];
-        sessions.set(state.callSidRef()!, withAssistant);
-        try {
-          const batchWriter = getBatchWriter();
-          batchWriter.enqueue(state.callSidRef()!, withAssistant, false);
-        } catch {}
-      }
-      return;
-    }
-
-    if (decision.action === 'ack_name_only' && ch) {
-      speakToCall(ch, decision.reply);
-      if (state.callSidRef()) {
-        const history = sessions.get(state.callSidRef()!) || [];
-        const withAssistant: SimpleMessage[] = [
-          ...history,
-          { role: 'assistant', content: decision.reply },
-        ];
-        sessions.set(state.callSidRef()!, withAssistant);
-        try {
-          const batchWriter = getBatchWriter();
-          batchWriter.enqueue(state.callSidRef()!, withAssistant, false);
-        } catch {}
-      }
+    // Actions other than chat answer the prompt themselves
+    const action = getReasonerActions().get(decision.action);
+    const reply = action
+      ? await action.handle(actionContext(state, ws, ch), decision)
+      : null;
+    if (reply !== null) {
+      recordActionTurns(state, text, reply, promptAt);
       return;
     }
   } catch (err) {
-    log.warn('[relay] reasoner failed; proceeding with chat', err);
+    log.warn('[relay] reasoner action failed; proceeding with chat', err);
   }
 
   // Register stream start
@@ -1291,13 +1438,14 @@ async function processPrompt(
   }
 
   startAbort(abortRef);
+  state.call.send({ type: 'reply_started' });
   const { turnId, startedAt } = logPromptReceived(text, state);
   const timer = startTimeout(abortRef);
   try {
     // Send a quick placeholder so callers hear immediate feedback
     const env = getEnv();
     if (env.RELAY_THINKING_ENABLED) {
-      const thinking = getRandomThinkingMessage();
+      const thinking = getRandomThinkingMessage(state.call.context.language);
       if (thinking) {
         ws.send(JSON.stringify({ type: 'text', token: thinking, last: false }));
       }
@@ -1314,38 +1462,33 @@ async function processPrompt(
       }, 5000); // Update every 5 seconds
     }
 
-    const { chunks, chars, fullResponse } = await sendStream(ws, stream, state);
+    const { chunks, chars, fullResponse, firstTokenAt } = await sendStream(
+      ws,
+      stream,
+      state
+    );
 
     if (activityTimer) clearInterval(activityTimer);
 
     // Save assistant response to session and database
     if (callSid && fullResponse) {
-      const history = sessions.get(callSid) || [];
-      const withAssistant: SimpleMessage[] = [
-        ...history,
+      const withAssistant = recordTurn(
+        callSid,
         { role: 'assistant', content: fullResponse },
-      ];
-      sessions.set(callSid, withAssistant);
-
-      // Use batch writer for efficient database updates
-      if (state.phoneNumber) {
-        try {
-          const batchWriter = getBatchWriter();
-          batchWriter.enqueue(callSid, withAssistant, false);
-          log.debug(
-            '[relay] Queued conversation update with assistant response',
-            {
-              callSid,
-              messageCount: withAssistant.length,
-            }
-          );
-        } catch (err) {
-          log.error('[relay] Failed to queue conversation update', err);
-        }
-      }
+        {
+          latencyMs: firstTokenAt ? firstTokenAt - promptAt : null,
+          interrupted: state.call.context.interrupted,
+        },
+        !!state.phoneNumber
+      );
+      log.debug('[relay] Queued conversation update with assistant response', {
+        callSid,
+        messageCount: withAssistant.length,
+      });
     }
 
     logStreamFinish(state, turnId, startedAt, chunks, chars);
+    handOffIfFailing(state, ws);
 
     // Register stream end
     if (callSid) {
@@ -1360,6 +1503,12 @@ async function processPrompt(
     if (callSid) {
       streamCoordinator.registerStreamEnd(callSid);
     }
+    // Replies cut short by the caller or a newer prompt are not failures
+    const signal: AbortSignal | undefined = abortRef.get()?.signal;
+    if (!signal?.aborted || signal.reason === 'timeout') {
+      state.call.send({ type: 'reply_failed' });
+      handOffIfFailing(state, ws);
+    }
   } finally {
     if (timer) clearTimeout(timer);
   }
@@ -1427,8 +1576,8 @@ function handleInterrupt(
 
   // Check if stream is active
   if (callSid && streamCoordinator.isStreamActive(callSid)) {
-    // Store interrupt flag in state to check with next prompt
-    state.pendingInterrupt = true;
+    // Marks the streaming reply as interrupted when it is recorded
+    state.call.send({ type: 'reply_interrupted' });
 
     log.info('[relay] interrupt signal received (waiting for prompt)', {
       connectionId: state.connectionId,
@@ -1447,6 +1596,363 @@ function handleInterrupt(
   }
 }
 
+// ----------------------------------------------------------------------------
+// Keypad (DTMF): DTMF_MENU maps each key to one of the actions below. A key
+// press cuts the answer being spoken short, like saying "stop".
+// ----------------------------------------------------------------------------
+
+// Each action returns what to say, or null when it speaks for itself.
+// Behaviors the reasoner can also pick run its action handlers
+// (services/reasoner-actions.ts), so a key and a spoken request do the same.
+const KEYPAD_ACTIONS: Record<
+  KeypadAction,
+  (state: RelayState, ws: WSContext) => string | null | Promise<string | null>
+> = {
+  async repeat(state, ws) {
+    await runReasonerAction(state, ws, 'repeat');
+    return null;
+  },
+
+  async sms(state, ws) {
+    await runReasonerAction(state, ws, 'send_sms');
+    return null;
+  },
+
+  async photo(state, ws) {
+    const locale = getLocale(state.call.context.language);
+    const said = await runReasonerAction(
+      state,
+      ws,
+      'wait_for_image',
+      locale.photoRequested
+    );
+    return said === null ? locale.photosUnavailable : null;
+  },
+
+  help: (state) => keypadHelp(state.call.context.language),
+
+  hang_up(state, ws) {
+    endCall(state, ws, 'caller_hangup');
+    return null;
+  },
+};
+
+// Runs a reasoner action for a key press. Returns what it said, or null
+// when it did nothing.
+async function runReasonerAction(
+  state: RelayState,
+  ws: WSContext,
+  name: string,
+  reply = ''
+): Promise<string | null> {
+  const action = getReasonerActions().get(name);
+  if (!action) return null;
+  const norm = normalizePhone(state.phoneNumber);
+  const ch = norm ? activeCallsByPhone.get(norm) : undefined;
+  return action.handle(actionContext(state, ws, ch), { reply, payload: null });
+}
+
+// Menu order when reading the options out
+const KEY_ORDER = '1234567890*#';
+
+function keyName(key: string, language: LanguageCode): string {
+  const { keypad } = getLocale(language);
+  return key === '#' ? keypad.pound : key === '*' ? keypad.star : key;
+}
+
+function keypadHelp(language: LanguageCode): string {
+  const { keypad } = getLocale(language);
+  const menu = Object.entries(getEnv().DTMF_MENU).sort(
+    ([a], [b]) => KEY_ORDER.indexOf(a) - KEY_ORDER.indexOf(b)
+  );
+  if (!menu.length) return keypad.none;
+  return menu
+    .map(([key, action]) =>
+      keypad.press(keyName(key, language), keypad.options[action])
+    )
+    .join(' ');
+}
+
+// Most recent assistant answer of this call
+function lastAnswer(state: RelayState): string | null {
+  const callSid = state.callSidRef();
+  const history = (callSid && sessions.get(callSid)) || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role === 'assistant') return history[i].content;
+  }
+  return null;
+}
+
+// Speak on the relay socket directly (calls without a registered phone too)
+function speak(ws: WSContext, message: string) {
+  const chunks = chunkText(cleanSpecialCharacters(message));
+  chunks.forEach((token, idx) => {
+    ws.send(
+      JSON.stringify({ type: 'text', token, last: idx === chunks.length - 1 })
+    );
+  });
+}
+
+async function handleDtmf(
+  parsed: DtmfMessageT,
+  ws: WSContext,
+  state: RelayState
+) {
+  const callSid = state.callSidRef();
+  const menu = getEnv().DTMF_MENU;
+  const action = menu[parsed.digit];
+  log.info('[relay] dtmf', {
+    connectionId: state.connectionId,
+    callSid,
+    digit: parsed.digit,
+    action: action ?? null,
+  });
+
+  if (callSid && getStreamCoordinator().isStreamActive(callSid)) {
+    ws.send(JSON.stringify({ type: 'stop' }));
+    state.call.send({ type: 'reply_stopped' });
+  }
+
+  if (!action) {
+    const language = state.call.context.language;
+    const { keypad } = getLocale(language);
+    const helpKey = Object.keys(menu).find((key) => menu[key] === 'help');
+    const sorry = keypad.notAnOption(keyName(parsed.digit, language));
+    speak(
+      ws,
+      helpKey ? `${sorry} ${keypad.helpKey(keyName(helpKey, language))}` : sorry
+    );
+    return;
+  }
+
+  try {
+    const reply = await KEYPAD_ACTIONS[action](state, ws);
+    if (reply) speak(ws, reply);
+  } catch (err) {
+    log.error('[relay] dtmf action failed', {
+      action,
+      error: (err as any)?.message || String(err),
+    });
+  }
+}
+
+// Switches transcription and TTS (ConversationRelay "language" message), the
+// model's reply language and the caller's stored preference. Returns the
+// confirmation it spoke.
+function switchLanguage(
+  state: RelayState,
+  ws: WSContext,
+  language: LanguageCode
+): string {
+  const previous = state.call.context.language;
+  state.call.send({ type: 'language_changed', language });
+  ws.send(JSON.stringify(languageSwitchMessage(language)));
+
+  if (state.phoneNumber) {
+    getDatabase().saveCallerLanguage(state.phoneNumber, language);
+  }
+  const callSid = state.callSidRef();
+  if (callSid && language !== previous) {
+    recordTurn(
+      callSid,
+      { role: 'system', content: languageInstruction(language) },
+      { source: 'system' },
+      !!state.phoneNumber
+    );
+  }
+  log.info('[relay] language switched', {
+    connectionId: state.connectionId,
+    callSid,
+    from: previous,
+    to: language,
+  });
+
+  const reply = getLocale(language).switched;
+  speak(ws, reply);
+  return reply;
+}
+
+// Transfers the call to a human operator: speaks `reply` (or the locale's
+// handoff line), then ends the ConversationRelay session with handoffData
+// so Twilio requests /twilio/handoff, which dials or queues. Without a
+// HANDOFF_NUMBER or HANDOFF_QUEUE nothing is transferred. Returns what was
+// spoken, or null when the call cannot be handed off.
+function handOff(
+  state: RelayState,
+  ws: WSContext,
+  reason: HandoffReason,
+  reply?: string
+): string | null {
+  const callSid = state.callSidRef();
+  const locale = getLocale(state.call.context.language);
+  if (!handoffConfigured(getEnv())) {
+    log.warn('[relay] handoff requested but no operator is configured', {
+      connectionId: state.connectionId,
+      callSid,
+      reason,
+    });
+    return null;
+  }
+  if (!state.call.send({ type: 'handoff', reason })) return null;
+
+  const message = reply || locale.handoff;
+  speak(ws, message);
+  ws.send(
+    JSON.stringify({
+      type: 'end',
+      handoffData: JSON.stringify({
+        reason: 'handoff',
+        handoffReason: reason,
+        callerName: state.call.context.callerName,
+        language: state.call.context.language,
+      }),
+    })
+  );
+  if (callSid) getDatabase().saveHandoffReason(callSid, reason);
+  log.info('[relay] handing off to an operator', {
+    connectionId: state.connectionId,
+    callSid,
+    reason,
+  });
+  return message;
+}
+
+// Says goodbye (`message`, or the locale's goodbye) and ends the
+// ConversationRelay session, after which Twilio hangs up. The reason is
+// stored on the conversation when the socket closes. Returns false when the
+// call is already ending.
+function endCall(
+  state: RelayState,
+  ws: WSContext,
+  reason: 'caller_hangup' | 'assistant_end' | 'idle',
+  message?: string
+): boolean {
+  if (!state.call.send({ type: 'hangup', reason })) return false;
+  clearIdleTimer(state);
+  const locale = getLocale(state.call.context.language);
+  speak(
+    ws,
+    message || (reason === 'idle' ? locale.idleGoodbye : locale.goodbye)
+  );
+  ws.send(
+    JSON.stringify({ type: 'end', handoffData: JSON.stringify({ reason }) })
+  );
+  log.info('[relay] ending call', {
+    connectionId: state.connectionId,
+    callSid: state.callSidRef(),
+    reason,
+  });
+  return true;
+}
+
+// Hangs up after IDLE_TIMEOUT_SECONDS without a prompt, key press or
+// barge-in. Restarted after every caller message; while an answer is still
+// streaming or a photo is expected (which has its own timeout) it waits
+// another round.
+function armIdleTimer(state: RelayState, ws: WSContext) {
+  clearIdleTimer(state);
+  const seconds = getEnv().IDLE_TIMEOUT_SECONDS;
+  if (!seconds || state.call.phase === 'ending') return;
+  state.idleTimer = setTimeout(() => {
+    state.idleTimer = null;
+    const callSid = state.callSidRef();
+    const busy =
+      state.call.ignoresVoice ||
+      (!!callSid && getStreamCoordinator().isStreamActive(callSid));
+    if (busy) {
+      armIdleTimer(state, ws);
+      return;
+    }
+    try {
+      endCall(state, ws, 'idle');
+    } catch (error) {
+      log.warn('[relay] idle hang-up failed', {
+        callSid,
+        error: (error as Error)?.message || String(error),
+      });
+    }
+  }, seconds * 1000);
+}
+
+function clearIdleTimer(state: RelayState) {
+  if (state.idleTimer) clearTimeout(state.idleTimer);
+  state.idleTimer = null;
+}
+
+// After HANDOFF_AFTER_FAILURES failed answers in a row the caller is better
+// off with a person
+function handOffIfFailing(state: RelayState, ws: WSContext) {
+  const limit = getEnv().HANDOFF_AFTER_FAILURES;
+  if (limit > 0 && state.call.context.failedReplies >= limit) {
+    handOff(state, ws, 'repeated_failures');
+  }
+}
+
+// Append a turn to the in-memory session and queue it for persistence.
+// The turn index is the message's position in the session history.
+function recordTurn(
+  callSid: string,
+  message: SimpleMessage,
+  meta: Omit<NewConversationTurn, 'turnIndex' | 'role' | 'content'> = {},
+  persist = true
+): SimpleMessage[] {
+  const history = sessions.get(callSid) || [];
+  const updated: SimpleMessage[] = [...history, message];
+  sessions.set(callSid, updated);
+
+  if (persist) {
+    try {
+      getBatchWriter().appendTurn(callSid, {
+        turnIndex: history.length,
+        role: message.role,
+        content: message.content,
+        createdAt: Math.floor(Date.now() / 1000),
+        ...meta,
+      });
+    } catch (err) {
+      log.error('[relay] Failed to queue conversation turn', err);
+    }
+  }
+  return updated;
+}
+
+// What reasoner actions (services/reasoner-actions.ts) can do on this call.
+// Texted photos reach the call registered for the caller's number.
+function actionContext(
+  state: RelayState,
+  ws: WSContext,
+  ch: CallChannel | undefined
+): ActionContext {
+  return {
+    call: state.call,
+    phoneNumber: state.phoneNumber,
+    canReceiveImages: ch?.call === state.call,
+    speak: (message) => speak(ws, message),
+    lastAnswer: () => lastAnswer(state),
+    switchLanguage: (language) => switchLanguage(state, ws, language),
+    handOff: (reason, reply) => handOff(state, ws, reason, reply),
+    endCall: (reason, message) => endCall(state, ws, reason, message),
+  };
+}
+
+// A prompt answered by an action instead of a stream: the caller's words and
+// the spoken reply
+function recordActionTurns(
+  state: RelayState,
+  text: string,
+  reply: string,
+  promptAt: number
+) {
+  const callSid = state.callSidRef();
+  if (!callSid) return;
+  recordTurn(callSid, { role: 'user', content: text }, {}, !!state.phoneNumber);
+  recordTurn(
+    callSid,
+    { role: 'assistant', content: reply },
+    { latencyMs: Date.now() - promptAt }
+  );
+}
+
 function startAbort(abortRef: AbortRef) {
   if (abortRef.get()) abortRef.get().abort('superseded');
   abortRef.set(new (globalThis as any).AbortController());
@@ -1477,32 +1983,21 @@ async function getTextStream(
 ) {
   if (state.callSidRef()) {
     const history = sessions.get(state.callSidRef()!) || [];
-    const withUser: SimpleMessage[] = [
-      ...history,
-      { role: 'user', content: userText },
-    ];
-    const stream = await streamAnswerWithMessages(withUser, {
+    const userMessage: SimpleMessage = { role: 'user', content: userText };
+    const stream = await streamAnswerWithMessages([...history, userMessage], {
       abortSignal: abortRef.get().signal,
+      language: state.call.context.language,
+    });
+    recordTurn(state.callSidRef()!, userMessage, {}, !!state.phoneNumber);
+    log.debug('[relay] Queued user message to batch', {
+      callSid: state.callSidRef(),
     });
-    sessions.set(state.callSidRef()!, withUser);
-
-    // Use batch writer for user messages too
-    if (state.phoneNumber) {
-      try {
-        const batchWriter = getBatchWriter();
-        batchWriter.enqueue(state.callSidRef()!, withUser, false);
-        log.debug('[relay] Queued user message to batch', {
-          callSid: state.callSidRef(),
-        });
-      } catch (err) {
-        log.error('[relay] Failed to queue user message', err);
-      }
-    }
 
     return { stream, usedMessages: true } as const;
   }
   const stream = await streamAnswer(userText, {
     abortSignal: abortRef.get().signal,
+    language: state.call.context.language,
   });
   return { stream, usedMessages: false } as const;
 }
@@ -1518,7 +2013,7 @@ function logStreamStart(
     connectionId: state.connectionId,
     callSid: state.callSidRef(),
     turnId,
-    model: getEnv().AI_MODEL,
+    model: resolveTextModel('chat').modelId,
     usedMessages,
   });
 }
@@ -1531,17 +2026,26 @@ async function sendStream(
   let chunks = 0;
   let chars = 0;
   let fullResponse = '';
+  let firstTokenAt: number | null = null;
+  // Cleaning trims each chunk; put back the space between words that were
+  // split across chunks ("Hey" + " there")
+  let spaceBefore = false;
   for await (const chunk of stream) {
     // Clean special characters from each chunk
-    const cleanedChunk = cleanSpecialCharacters(chunk);
+    const cleaned = cleanSpecialCharacters(chunk);
+    spaceBefore ||= /^\s/.test(chunk);
+    const cleanedChunk =
+      cleaned && spaceBefore && fullResponse ? ` ${cleaned}` : cleaned;
+    if (cleaned) spaceBefore = /\s$/.test(chunk);
     if (cleanedChunk) {
       // Only send non-empty chunks
+      if (firstTokenAt === null) firstTokenAt = Date.now();
       chunks++;
       chars += cleanedChunk.length;
       fullResponse += cleanedChunk;
 
       // Check if TTS has been stopped by user
-      if (state && state.ttsStoppedByUser) {
+      if (state?.call.context.muted) {
         // Continue consuming the stream for context, but don't send to client
         continue;
       }
@@ -1553,16 +2057,12 @@ async function sendStream(
   }
 
   // Only send the final message if TTS wasn't stopped
-  if (!state || !state.ttsStoppedByUser) {
+  if (!state?.call.context.muted) {
     ws.send(JSON.stringify({ type: 'text', token: '', last: true }));
   }
+  state?.call.send({ type: 'reply_finished', empty: !fullResponse });
 
-  // Clear the TTS stopped flag for next response
-  if (state && state.ttsStoppedByUser) {
-    state.ttsStoppedByUser = false;
-  }
-
-  return { chunks, chars, fullResponse };
+  return { chunks, chars, fullResponse, firstTokenAt };
 }
 
 function logStreamFinish(
@@ -1,47 +1,16 @@
-import {
-  streamText,
-  experimental_createMCPClient as createMCPClient,
-  generateText,
-} from 'ai';
-import { openai, createOpenAI } from '@ai-sdk/openai';
+import { streamText, generateText } from 'ai';
+import { openai } from '@ai-sdk/openai';
 import { getEnv } from '../config/env';
 import { log } from '../utils/log';
+import { languageInstruction, type LanguageCode } from '../utils/locales';
+import { getMcpClientManager } from './mcp-client';
+import { getMockLlm } from './mock-llm';
+import { logToolCalls, pokedexTools } from './pokedex-tools';
+import { getFailover } from './failover';
+import { selectTextModel, type ProviderName } from './providers';
 
 const env = getEnv();
-const DEFAULT_MODEL = env.AI_MODEL; // configured text model id (may be OpenAI-like)
 const VISION_MODEL = env.AI_VISION_MODEL; // image recognition (OpenAI only)
-// Note: provider setting is ignored for text; we always route to Groq via baseURL above.
-
-// Groq via OpenAI-compatible endpoint (text only)
-const groqViaOpenAI = createOpenAI({
-  baseURL: 'https://api.groq.com/openai/v1',
-  apiKey: process.env.GROQ_API_KEY,
-});
-
-// Route TEXT to Groq. Allow pass‑through for Groq models that support Structured Outputs.
-const GROQ_FALLBACK_TEXT_MODEL = 'llama-3.1-8b-instant';
-const GROQ_STRUCTURED_SUPPORTED = new Set(
-  [
-    'openai/gpt-oss-20b',
-    'openai/gpt-oss-120b',
-    'moonshotai/kimi-k2-instruct',
-    'moonshotai/kimi-k2-instruct-0905',
-    'meta-llama/llama-4-maverick-17b-128e-instruct',
-    'meta-llama/llama-4-scout-17b-16e-instruct',
-  ].map((s) => s.toLowerCase())
-);
-function mapToGroqModelId(modelId: string): string {
-  const id = (modelId || '').trim();
-  if (!id) return GROQ_FALLBACK_TEXT_MODEL;
-  if (GROQ_STRUCTURED_SUPPORTED.has(id.toLowerCase())) return id; // pass through
-  // For all others, use a fast fallback
-  return GROQ_FALLBACK_TEXT_MODEL;
-}
-
-export function selectTextModel(modelId: string) {
-  const groqId = mapToGroqModelId(modelId);
-  return groqViaOpenAI(groqId);
-}
 
 // Always use OpenAI models directly. Groq is not supported for vision.
 function selectOpenAIModel(modelId: string) {
@@ -84,10 +53,66 @@ EXAMPLES OF BAD RESPONSES:
 Always respond as if you're having a friendly phone chat. Keep it simple, direct, and conversational. Spell out numbers in words (e.g., twenty, not 20). Do not mention that you are an AI.`;
 const SYSTEM_PROMPT = env.SYSTEM_PROMPT || DEFAULT_SYSTEM_PROMPT;
 
+// The prompt is written in English; other languages get an instruction on top
+function systemPromptFor(language: LanguageCode = 'en') {
+  return language === 'en'
+    ? SYSTEM_PROMPT
+    : `${SYSTEM_PROMPT}\n\n${languageInstruction(language)}`;
+}
+
+// Pokédex tools (services/pokedex-tools.ts); a lookup plus the spoken answer
+// fits in a few steps
+const TOOLS_ENABLED = env.AI_TOOLS_ENABLED;
+const MAX_TOOL_STEPS = 4;
+const TOOL_GUIDANCE =
+  'Use the Pokédex tools for types, matchups, evolutions, stats and comparisons instead of answering from memory. ' +
+  'Never read tool output verbatim; turn it into one to three spoken sentences.';
+
+type StreamPart = { type: string; textDelta?: string; error?: unknown };
+
+type StreamOptions = {
+  abortSignal?: AbortSignal;
+  provider?: ProviderName;
+  system?: string; // default SYSTEM_PROMPT
+};
+
+// language: of the answer, for single questions; conversations carry their
+// own system prompt
+type AnswerOptions = { abortSignal?: AbortSignal; language?: LanguageCode };
+
+// Spoken text only: tool calls and tool results never reach the caller.
+// Text from consecutive steps is joined with a space ("Let me check." + answer).
+// Error parts are rethrown so failover (services/failover.ts) sees them.
+async function* spokenText(
+  parts: AsyncIterable<StreamPart>
+): AsyncIterable<string> {
+  let stepHadText = false;
+  let needsSeparator = false;
+  for await (const part of parts) {
+    if (part.type === 'text-delta' && part.textDelta) {
+      if (needsSeparator) {
+        yield ' ';
+        needsSeparator = false;
+      }
+      stepHadText = true;
+      yield part.textDelta;
+    } else if (part.type === 'step-finish') {
+      needsSeparator = needsSeparator || stepHadText;
+      stepHadText = false;
+    } else if (part.type === 'error') {
+      log.warn(
+        '[ai] stream error:',
+        (part.error as any)?.message || part.error
+      );
+      throw part.error;
+    }
+  }
+}
+
 // Streaming variant to reduce latency for spoken responses
 export async function streamAnswer(
   question: string,
-  opts?: { abortSignal?: AbortSignal }
+  opts?: AnswerOptions
 ): Promise<AsyncIterable<string>> {
   return createStream(undefined, question, opts);
 }
@@ -106,7 +131,7 @@ function toAiSdkMessages(msgs: SimpleMessage[]) {
 
 export async function streamAnswerWithMessages(
   messages: SimpleMessage[],
-  opts?: { abortSignal?: AbortSignal }
+  opts?: AnswerOptions
 ): Promise<AsyncIterable<string>> {
   const stream = await createStream(messages, undefined, opts);
   return stream;
@@ -115,29 +140,42 @@ export async function streamAnswerWithMessages(
 async function createStream(
   messages: SimpleMessage[] | undefined,
   prompt: string | undefined,
-  opts?: { abortSignal?: AbortSignal }
+  opts?: AnswerOptions
 ): Promise<AsyncIterable<string>> {
-  const baseMessages = buildBaseMessages(messages, prompt);
+  const system = systemPromptFor(opts?.language);
+  const baseMessages = buildBaseMessages(messages, system, prompt);
   const usePrompt = wantsPrompt(baseMessages, prompt);
-  // const mcpUrl = env.POKE_MCP_SSE_URL;
-  // if (mcpUrl) {
-  //   const stream = await streamWithMcp(baseMessages, usePrompt, opts);
-  //   if (stream) return stream;
-  // }
-  return streamWithoutMcp(baseMessages, usePrompt, opts);
+  // PROVIDER, then FALLBACK_PROVIDER, then a spoken apology
+  return getFailover().stream(async (provider, abortSignal) => {
+    if (env.POKE_MCP_SSE_URL) {
+      // null while the MCP server is unreachable or backing off
+      const stream = await streamWithMcp(baseMessages, usePrompt, {
+        abortSignal,
+        provider,
+        system,
+      });
+      if (stream) return stream;
+    }
+    return streamWithoutMcp(baseMessages, usePrompt, {
+      abortSignal,
+      provider,
+      system,
+    });
+  }, opts);
 }
 
 function buildBaseMessages(
   messages: SimpleMessage[] | undefined,
+  system: string,
   prompt?: string
 ): SimpleMessage[] {
   if (messages && messages.length) return messages;
   if (prompt)
     return [
-      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'system', content: system },
       { role: 'user', content: prompt },
     ];
-  return [{ role: 'system', content: SYSTEM_PROMPT }];
+  return [{ role: 'system', content: system }];
 }
 
 function wantsPrompt(msgs: SimpleMessage[], prompt?: string) {
@@ -148,51 +186,61 @@ function wantsPrompt(msgs: SimpleMessage[], prompt?: string) {
 export async function streamWithMcp(
   msgs: SimpleMessage[],
   usePrompt: { prompt: string } | undefined,
-  opts?: { abortSignal?: AbortSignal }
+  opts?: StreamOptions
+) {
+  // Pooled client and cached tool list (services/mcp-client.ts)
+  const mcpTools = await getMcpClientManager().getTools();
+  if (!mcpTools) return null;
+  const result = streamText({
+    model: selectTextModel('chat', opts?.provider),
+    system: systemFor(usePrompt, opts?.system),
+    messages: usePrompt ? undefined : (toAiSdkMessages(msgs) as any),
+    prompt: usePrompt?.prompt,
+    tools: TOOLS_ENABLED ? { ...pokedexTools, ...mcpTools } : mcpTools,
+    maxSteps: MAX_TOOL_STEPS,
+    onStepFinish: ({ toolCalls }) => logToolCalls(toolCalls),
+    abortSignal: opts?.abortSignal,
+  });
+  return spokenText(result.fullStream);
+}
+
+function streamWithoutMcp(
+  msgs: SimpleMessage[],
+  usePrompt: { prompt: string } | undefined,
+  opts?: StreamOptions
 ) {
-  const url = env.POKE_MCP_SSE_URL;
-  if (!url) return null;
-  const client = await createMCPClient({ transport: { type: 'sse', url } });
-  try {
-    const tools = await client.tools();
+  if (!TOOLS_ENABLED) {
     const result = streamText({
-      model: selectTextModel(DEFAULT_MODEL),
-      system: usePrompt ? SYSTEM_PROMPT : undefined,
+      model: selectTextModel('chat', opts?.provider),
+      system: usePrompt ? (opts?.system ?? SYSTEM_PROMPT) : undefined,
       messages: usePrompt ? undefined : (toAiSdkMessages(msgs) as any),
       prompt: usePrompt?.prompt,
-      tools,
       abortSignal: opts?.abortSignal,
-      onFinish: async () => {
-        await client.close();
-      },
-      onError: async (e) => {
-        log.warn('[ai] stream error with MCP:', (e as any)?.message || e);
-        await client.close();
-      },
     });
-    return result.textStream;
-  } catch (e) {
-    log.warn('[ai] MCP unavailable, falling back:', (e as any)?.message || e);
-    try {
-      await client.close();
-    } catch {}
-    return null;
+    return spokenText(result.fullStream);
   }
-}
 
-function streamWithoutMcp(
-  msgs: SimpleMessage[],
-  usePrompt: { prompt: string } | undefined,
-  opts?: { abortSignal?: AbortSignal }
-) {
   const result = streamText({
-    model: selectTextModel(DEFAULT_MODEL),
-    system: usePrompt ? SYSTEM_PROMPT : undefined,
+    model: selectTextModel('chat', opts?.provider),
+    system: systemFor(usePrompt, opts?.system),
     messages: usePrompt ? undefined : (toAiSdkMessages(msgs) as any),
     prompt: usePrompt?.prompt,
+    tools: pokedexTools,
+    maxSteps: MAX_TOOL_STEPS,
+    onStepFinish: ({ toolCalls }) => logToolCalls(toolCalls),
     abortSignal: opts?.abortSignal,
   });
-  return result.textStream;
+  return spokenText(result.fullStream);
+}
+
+// Single prompts carry the full system prompt; conversations already start
+// with it, so only the tool guidance is added on top
+function systemFor(
+  usePrompt: { prompt: string } | undefined,
+  system = SYSTEM_PROMPT
+) {
+  if (!TOOLS_ENABLED) return usePrompt ? system : undefined;
+  return usePrompt ? `${system}\n\n${TOOL_GUIDANCE}` : TOOL_GUIDANCE;
 }
 
 // ----------------------------------------------------------------------------
@@ -202,6 +250,9 @@ function streamWithoutMcp(
 export async function identifyPokemonFromImageUrl(
   imageUrl: string
 ): Promise<string> {
+  // Offline development: scripted result, no image download
+  if (env.PROVIDER === 'mock') return getMockLlm().visionReply(imageUrl);
+
   const model = selectOpenAIModel(VISION_MODEL);
 
   // Try to fetch the image locally and pass raw bytes to the model to avoid
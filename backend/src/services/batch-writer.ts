@@ -1,11 +1,11 @@
-import { getDatabase } from '../db/database';
+import { getDatabase, type NewConversationTurn } from '../db/database';
 import { log } from '../utils/log';
-import type { SimpleMessage } from './ai';
 
 interface BatchItem {
   callSid: string;
-  messages: SimpleMessage[];
+  turns: NewConversationTurn[];
   ended: boolean;
+  endReason?: string;
   timestamp: number;
 }
 
@@ -15,15 +15,39 @@ class BatchWriter {
   private readonly batchInterval = 2000; // 2 seconds
   private readonly maxBatchSize = 10;
 
-  // Add or update a conversation in the batch queue
-  enqueue(callSid: string, messages: SimpleMessage[], ended: boolean = false) {
-    this.queue.set(callSid, {
-      callSid,
-      messages,
-      ended,
-      timestamp: Date.now(),
-    });
+  // Queue a new turn for a conversation; PII is redacted when it is stored
+  appendTurn(callSid: string, turn: NewConversationTurn) {
+    this.getItem(callSid).turns.push(turn);
+    this.afterEnqueue(false);
+  }
+
+  // Queue the end of a conversation (flushes immediately)
+  markEnded(callSid: string, reason?: string) {
+    const item = this.getItem(callSid);
+    item.ended = true;
+    item.endReason = reason;
+    this.afterEnqueue(true);
+  }
+
+  // Drop queued writes for conversations that were erased
+  discard(callSids: string[]): number {
+    let dropped = 0;
+    for (const callSid of callSids) {
+      if (this.queue.delete(callSid)) dropped++;
+    }
+    return dropped;
+  }
+
+  private getItem(callSid: string): BatchItem {
+    let item = this.queue.get(callSid);
+    if (!item) {
+      item = { callSid, turns: [], ended: false, timestamp: Date.now() };
+      this.queue.set(callSid, item);
+    }
+    return item;
+  }
 
+  private afterEnqueue(ended: boolean) {
     // Start timer if not already running
     if (!this.timer) {
       this.scheduleFlush();
@@ -60,7 +84,12 @@ class BatchWriter {
       try {
         const db = getDatabase();
         for (const item of items) {
-          db.updateConversationMessages(item.callSid, item.messages, item.ended);
+          if (item.turns.length > 0) {
+            db.appendConversationTurns(item.callSid, item.turns);
+          }
+          if (item.ended) {
+            db.endConversation(item.callSid, item.endReason);
+          }
         }
         log.debug('[batch-writer] Flushed batch to database', {
           count: items.length,
@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import { CallStateMachine } from './call-state';
+
+function started(callerName: string | null, canCaptureName = true) {
+  const call = new CallStateMachine();
+  call.send({ type: 'setup', callerName, canCaptureName, language: 'en' });
+  return call;
+}
+
+describe('CallStateMachine', () => {
+  test('a new caller is asked for their name, then chats', () => {
+    const call = started(null);
+    expect(call.phase).toBe('name_capture');
+    expect(call.context.newCaller).toBe(true);
+
+    expect(call.send({ type: 'name_captured', name: '  Misty ' })).toBe(true);
+    expect(call.phase).toBe('chatting');
+    expect(call.context.callerName).toBe('Misty');
+  });
+
+  test('a known caller, or one without a number, goes straight to chatting', () => {
+    expect(started('Brock').phase).toBe('chatting');
+    expect(started(null, false).phase).toBe('chatting');
+  });
+
+  test('refuses a blank name', () => {
+    const call = started(null);
+    expect(call.send({ type: 'name_captured', name: ' ' })).toBe(false);
+    expect(call.phase).toBe('name_capture');
+    expect(call.context.callerName).toBeNull();
+  });
+
+  test('refuses events before setup', () => {
+    const call = new CallStateMachine();
+    expect(call.can('image_requested')).toBe(false);
+    expect(call.send({ type: 'image_requested' })).toBe(false);
+    expect(call.phase).toBe('greeting');
+  });
+
+  test('ignores voice input while waiting for a photo', () => {
+    const call = started('Brock');
+    expect(call.ignoresVoice).toBe(false);
+    expect(call.send({ type: 'image_requested' })).toBe(true);
+    expect(call.phase).toBe('awaiting_image');
+    expect(call.ignoresVoice).toBe(true);
+    expect(call.send({ type: 'reply_started' })).toBe(false);
+    expect(call.send({ type: 'image_requested' })).toBe(false);
+  });
+
+  test('returns from a photo wait to where the call was', () => {
+    const newCaller = started(null);
+    newCaller.send({ type: 'image_requested' });
+    newCaller.send({ type: 'image_wait_timed_out' });
+    expect(newCaller.phase).toBe('name_capture');
+
+    const known = started('Brock');
+    known.send({ type: 'image_requested' });
+    known.send({ type: 'image_received' });
+    expect(known.phase).toBe('analyzing');
+    expect(known.ignoresVoice).toBe(true);
+    known.send({ type: 'image_handled' });
+    expect(known.phase).toBe('chatting');
+  });
+
+  test('counts failed and empty replies until one succeeds', () => {
+    const call = started('Brock');
+    call.send({ type: 'reply_failed' });
+    call.send({ type: 'reply_finished', empty: true });
+    expect(call.context.failedReplies).toBe(2);
+    call.send({ type: 'reply_finished' });
+    expect(call.context.failedReplies).toBe(0);
+  });
+
+  test('"stop" mutes the reply until the next one starts', () => {
+    const call = started('Brock');
+    call.send({ type: 'reply_started' });
+    call.send({ type: 'reply_stopped' });
+    expect(call.context).toMatchObject({ interrupted: true, muted: true });
+    call.send({ type: 'reply_started' });
+    expect(call.context).toMatchObject({ interrupted: false, muted: false });
+  });
+
+  test('refuses a hangup after the call has ended', () => {
+    const call = started('Brock');
+    expect(call.send({ type: 'hangup', reason: 'caller_hangup' })).toBe(true);
+    expect(call.phase).toBe('ending');
+    expect(call.context.endReason).toBe('caller_hangup');
+
+    expect(call.send({ type: 'hangup', reason: 'idle' })).toBe(false);
+    expect(call.send({ type: 'handoff', reason: 'caller_request' })).toBe(
+      false
+    );
+    expect(call.context.endReason).toBe('caller_hangup');
+    expect(call.context.handoffReason).toBeNull();
+  });
+
+  test('a handoff ends the call with its reason', () => {
+    const call = started('Brock');
+    call.send({ type: 'handoff', reason: 'repeated_failures' });
+    expect(call.phase).toBe('ending');
+    expect(call.context).toMatchObject({
+      endReason: 'handoff',
+      handoffReason: 'repeated_failures',
+    });
+  });
+
+  test('runs exit and enter hooks, and survives a failing one', () => {
+    const seen: string[] = [];
+    const call = started('Brock')
+      .onExit('chatting', (e) => seen.push(`exit:${e.type}`))
+      .onEnter('awaiting_image', () => {
+        throw new Error('timer failed');
+      })
+      .onEnter('awaiting_image', (e) => seen.push(`enter:${e.type}`));
+
+    expect(call.send({ type: 'image_requested' })).toBe(true);
+    expect(call.phase).toBe('awaiting_image');
+    expect(seen).toEqual(['exit:image_requested', 'enter:image_requested']);
+
+    // Staying in the same phase runs no hooks
+    call.send({ type: 'language_changed', language: 'es' });
+    expect(call.context.language).toBe('es');
+    expect(seen).toHaveLength(2);
+  });
+});
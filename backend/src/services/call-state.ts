@@ -0,0 +1,297 @@
+import { log } from '../utils/log';
+import type { LanguageCode } from '../utils/locales';
+
+// Conversation state of one voice call. The phase only moves along the
+// transitions declared below; any other event is refused instead of quietly
+// flipping a flag. Side effects that need the socket or timers (image wait
+// timeout, speech) are attached by the owner with onEnter/onExit, so the
+// machine itself runs without a call.
+//
+//   greeting ─setup─▶ name_capture ─name_captured─▶ chatting
+//                 └──────────────────────────────────▶ chatting
+//   name_capture | chatting ─image_requested─▶ awaiting_image
+//   awaiting_image ─image_wait_cancelled | image_wait_timed_out─▶ (back)
+//   name_capture | chatting | awaiting_image ─image_received─▶ analyzing
+//   analyzing ─image_handled─▶ (back)
+//   any ─hangup | handoff─▶ ending
+//
+// "(back)" is name_capture while a new caller has not given a name, else
+// chatting. Reply events (reply_*) and language changes do not change the
+// phase.
+
+// Why a call is transferred to a human operator
+export type HandoffReason = 'caller_request' | 'repeated_failures';
+
+// How a call ended, stored as conversations.end_reason
+export type EndReason =
+  | 'caller_hangup' // the caller hung up or pressed the hang-up key
+  | 'assistant_end' // the caller was done and the assistant said goodbye
+  | 'idle' // nothing was said for IDLE_TIMEOUT_SECONDS
+  | 'handoff'
+  | 'error'; // the relay socket failed
+
+export type CallPhase =
+  | 'greeting' // connected, caller lookup running
+  | 'name_capture' // new caller, asked for their name
+  | 'chatting'
+  | 'awaiting_image' // caller was asked to text a photo
+  | 'analyzing' // a texted photo is being identified
+  | 'ending';
+
+export type CallEvent =
+  | {
+      type: 'setup';
+      callerName: string | null;
+      canCaptureName: boolean;
+      language: LanguageCode;
+    }
+  | { type: 'name_captured'; name: string }
+  | { type: 'image_requested' }
+  | { type: 'image_wait_cancelled' }
+  | { type: 'image_wait_timed_out' }
+  | { type: 'image_received' }
+  | { type: 'image_handled' } // result or apology spoken
+  | { type: 'reply_started' }
+  | { type: 'reply_interrupted' } // caller talked over the reply
+  | { type: 'reply_stopped' } // caller said "stop"; mute the rest
+  | { type: 'reply_finished'; empty?: boolean } // empty: nothing was said
+  | { type: 'reply_failed' } // the answer errored or timed out
+  | { type: 'language_changed'; language: LanguageCode }
+  | { type: 'handoff'; reason: HandoffReason }
+  | { type: 'hangup'; reason: Exclude<EndReason, 'handoff'> };
+
+export type CallEventType = CallEvent['type'];
+
+export interface CallContext {
+  callerName: string | null;
+  newCaller: boolean; // no stored name at setup
+  canCaptureName: boolean; // a phone number to save the name under
+  language: LanguageCode;
+  interrupted: boolean; // the current reply was talked over or stopped
+  muted: boolean; // remaining tokens of the current reply are not sent
+  failedReplies: number; // consecutive replies that failed or were empty
+  handoffReason: HandoffReason | null;
+  endReason: EndReason | null; // set on entering ending
+}
+
+type EventOf<T extends CallEventType> = Extract<CallEvent, { type: T }>;
+
+interface Transition<T extends CallEventType> {
+  from: readonly CallPhase[];
+  // Omitted: the phase stays as it is
+  to?: CallPhase | ((ctx: CallContext, event: EventOf<T>) => CallPhase);
+  guard?: (ctx: CallContext, event: EventOf<T>) => boolean;
+  update?: (ctx: CallContext, event: EventOf<T>) => void;
+}
+
+const CONVERSING = ['name_capture', 'chatting'] as const;
+const SPEAKING = ['greeting', 'name_capture', 'chatting'] as const;
+const LIVE = [
+  'greeting',
+  'name_capture',
+  'chatting',
+  'awaiting_image',
+  'analyzing',
+] as const;
+
+// Where a detour (photo wait, photo analysis) returns to
+function conversing(ctx: CallContext): CallPhase {
+  return ctx.canCaptureName && !ctx.callerName ? 'name_capture' : 'chatting';
+}
+
+const TRANSITIONS: { [T in CallEventType]: Transition<T> } = {
+  setup: {
+    from: ['greeting'],
+    update: (ctx, e) => {
+      ctx.callerName = e.callerName;
+      ctx.newCaller = !e.callerName;
+      ctx.canCaptureName = e.canCaptureName;
+      ctx.language = e.language;
+    },
+    to: conversing,
+  },
+  name_captured: {
+    // From chatting as well: a later, better guess replaces the first one
+    from: CONVERSING,
+    guard: (_, e) => e.name.trim().length > 0,
+    update: (ctx, e) => {
+      ctx.callerName = e.name.trim();
+    },
+    to: 'chatting',
+  },
+  image_requested: { from: CONVERSING, to: 'awaiting_image' },
+  image_wait_cancelled: { from: ['awaiting_image'], to: conversing },
+  image_wait_timed_out: { from: ['awaiting_image'], to: conversing },
+  image_received: {
+    from: [...CONVERSING, 'awaiting_image'],
+    to: 'analyzing',
+  },
+  image_handled: { from: ['analyzing'], to: conversing },
+  reply_started: {
+    from: SPEAKING,
+    update: (ctx) => {
+      ctx.interrupted = false;
+      ctx.muted = false;
+    },
+  },
+  reply_interrupted: {
+    from: SPEAKING,
+    update: (ctx) => {
+      ctx.interrupted = true;
+    },
+  },
+  reply_stopped: {
+    from: SPEAKING,
+    update: (ctx) => {
+      ctx.interrupted = true;
+      ctx.muted = true;
+    },
+  },
+  reply_finished: {
+    from: LIVE,
+    update: (ctx, e) => {
+      ctx.muted = false;
+      ctx.failedReplies = e.empty ? ctx.failedReplies + 1 : 0;
+    },
+  },
+  reply_failed: {
+    from: LIVE,
+    update: (ctx) => {
+      ctx.muted = false;
+      ctx.failedReplies++;
+    },
+  },
+  language_changed: {
+    from: LIVE,
+    update: (ctx, e) => {
+      ctx.language = e.language;
+    },
+  },
+  handoff: {
+    from: LIVE,
+    update: (ctx, e) => {
+      ctx.handoffReason = e.reason;
+      ctx.endReason = 'handoff';
+    },
+    to: 'ending',
+  },
+  hangup: {
+    from: LIVE,
+    update: (ctx, e) => {
+      ctx.endReason = e.reason;
+    },
+    to: 'ending',
+  },
+};
+
+type Hook = (event: CallEvent) => void;
+
+export class CallStateMachine {
+  private current: CallPhase = 'greeting';
+  private hooks = {
+    enter: new Map<CallPhase, Hook[]>(),
+    exit: new Map<CallPhase, Hook[]>(),
+  };
+  readonly context: CallContext;
+
+  // logContext identifies the call in transition logs; language is the one
+  // spoken until setup looks the caller up
+  constructor(
+    private readonly logContext: () => Record<string, unknown> = () => ({}),
+    language: LanguageCode = 'en'
+  ) {
+    this.context = {
+      callerName: null,
+      newCaller: false,
+      canCaptureName: false,
+      language,
+      interrupted: false,
+      muted: false,
+      failedReplies: 0,
+      handoffReason: null,
+      endReason: null,
+    };
+  }
+
+  get phase(): CallPhase {
+    return this.current;
+  }
+
+  // Voice prompts are not answered while a photo is expected or analyzed
+  get ignoresVoice(): boolean {
+    return this.current === 'awaiting_image' || this.current === 'analyzing';
+  }
+
+  // Whether the event is accepted in the current phase (guards not applied)
+  can(type: CallEventType): boolean {
+    return TRANSITIONS[type].from.includes(this.current);
+  }
+
+  /**
+   * Applies the event if the current phase allows it and its guard passes.
+   * Returns false, changing nothing, otherwise.
+   */
+  send(event: CallEvent): boolean {
+    const transition = TRANSITIONS[event.type] as Transition<CallEventType>;
+    const from = this.current;
+    if (
+      !transition.from.includes(from) ||
+      (transition.guard && !transition.guard(this.context, event as never))
+    ) {
+      log.debug('[call-state] Event refused', {
+        ...this.logContext(),
+        event: event.type,
+        phase: from,
+      });
+      return false;
+    }
+
+    transition.update?.(this.context, event as never);
+    const to =
+      typeof transition.to === 'function'
+        ? transition.to(this.context, event as never)
+        : (transition.to ?? from);
+    if (to === from) return true;
+
+    this.current = to;
+    log.info('[call-state] Transition', {
+      ...this.logContext(),
+      event: event.type,
+      from,
+      to,
+    });
+    this.run('exit', from, event);
+    this.run('enter', to, event);
+    return true;
+  }
+
+  onEnter(phase: CallPhase, hook: Hook): this {
+    return this.addHook('enter', phase, hook);
+  }
+
+  onExit(phase: CallPhase, hook: Hook): this {
+    return this.addHook('exit', phase, hook);
+  }
+
+  private addHook(kind: 'enter' | 'exit', phase: CallPhase, hook: Hook) {
+    const hooks = this.hooks[kind].get(phase) ?? [];
+    hooks.push(hook);
+    this.hooks[kind].set(phase, hooks);
+    return this;
+  }
+
+  // A failing side effect must not leave the machine half-transitioned
+  private run(kind: 'enter' | 'exit', phase: CallPhase, event: CallEvent) {
+    for (const hook of this.hooks[kind].get(phase) ?? []) {
+      try {
+        hook(event);
+      } catch (error) {
+        log.error('[call-state] Hook failed', {
+          ...this.logContext(),
+          hook: `${kind}:${phase}`,
+          error: (error as Error)?.message || String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { CircuitBreaker } from './circuit-breaker';
+
+const COOLDOWN_MS = 1_000;
+
+function breaker() {
+  return new CircuitBreaker('test', {
+    failureThreshold: 3,
+    cooldownMs: COOLDOWN_MS,
+  });
+}
+
+// A breaker that opened at t=0
+function opened() {
+  const b = breaker();
+  for (let i = 0; i < 3; i++) b.recordFailure(new Error('boom'), 0);
+  return b;
+}
+
+describe('CircuitBreaker', () => {
+  test('opens after consecutive failures and refuses until the cooldown', () => {
+    const b = breaker();
+    b.recordFailure(new Error('one'), 0);
+    b.recordFailure(new Error('two'), 0);
+    expect(b.tryAcquire(0)).toBe(true);
+    b.recordFailure(new Error('three'), 0);
+    expect(b.snapshot()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      openedAt: 0,
+      lastError: 'three',
+    });
+    expect(b.tryAcquire(COOLDOWN_MS - 1)).toBe(false);
+  });
+
+  test('a success resets the failure count', () => {
+    const b = breaker();
+    b.recordFailure(new Error('one'), 0);
+    b.recordFailure(new Error('two'), 0);
+    b.recordSuccess();
+    b.recordFailure(new Error('three'), 0);
+    expect(b.snapshot()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 1,
+    });
+  });
+
+  test('lets a single probe through once half-open', () => {
+    const b = opened();
+    expect(b.tryAcquire(COOLDOWN_MS)).toBe(true);
+    expect(b.snapshot().state).toBe('half_open');
+    expect(b.tryAcquire(COOLDOWN_MS)).toBe(false);
+    expect(b.tryAcquire(COOLDOWN_MS * 10)).toBe(false);
+  });
+
+  test('a successful probe closes the circuit', () => {
+    const b = opened();
+    b.tryAcquire(COOLDOWN_MS);
+    b.recordSuccess();
+    expect(b.snapshot()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+    });
+    expect(b.tryAcquire(COOLDOWN_MS)).toBe(true);
+    expect(b.tryAcquire(COOLDOWN_MS)).toBe(true);
+  });
+
+  test('a failed probe reopens the circuit for another cooldown', () => {
+    const b = opened();
+    b.tryAcquire(COOLDOWN_MS);
+    b.recordFailure(new Error('still down'), COOLDOWN_MS);
+    expect(b.snapshot()).toMatchObject({
+      state: 'open',
+      openedAt: COOLDOWN_MS,
+    });
+    expect(b.tryAcquire(COOLDOWN_MS * 2 - 1)).toBe(false);
+    expect(b.tryAcquire(COOLDOWN_MS * 2)).toBe(true);
+  });
+
+  test('release() after an aborted probe lets the next probe through', () => {
+    const b = opened();
+    expect(b.tryAcquire(COOLDOWN_MS)).toBe(true);
+    b.release();
+    expect(b.snapshot().state).toBe('half_open');
+    expect(b.tryAcquire(COOLDOWN_MS)).toBe(true);
+    expect(b.tryAcquire(COOLDOWN_MS)).toBe(false);
+  });
+});
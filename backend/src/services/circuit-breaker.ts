@@ -0,0 +1,103 @@
+import { log } from '../utils/log';
+
+// Classic three-state breaker. Closed: requests flow and consecutive failures
+// are counted. Open: requests are refused until the cooldown passes.
+// Half-open: one probe request is let through; its outcome closes or reopens
+// the circuit.
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null; // epoch ms
+  lastError: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  // Whether a request may go out now; in half-open only the first caller gets
+  // through until that probe reports back
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'closed') return true;
+    if (
+      this.state === 'open' &&
+      now - (this.openedAt ?? 0) >= this.options.cooldownMs
+    ) {
+      this.transition('half_open');
+    }
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+    if (this.state !== 'closed') {
+      this.openedAt = null;
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(error?: unknown, now: number = Date.now()) {
+    this.consecutiveFailures++;
+    this.lastError = error ? (error as any)?.message || String(error) : null;
+    const probeFailed = this.state === 'half_open';
+    this.probeInFlight = false;
+    if (
+      probeFailed ||
+      (this.state === 'closed' &&
+        this.consecutiveFailures >= this.options.failureThreshold)
+    ) {
+      this.openedAt = now;
+      this.transition('open');
+    }
+  }
+
+  // An attempt that ended without a verdict (e.g. the caller hung up)
+  release() {
+    this.probeInFlight = false;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private transition(next: CircuitState) {
+    if (next === this.state) return;
+    const level = next === 'open' ? 'warn' : 'info';
+    log[level]('[circuit] State change', {
+      circuit: this.name,
+      from: this.state,
+      to: next,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+    });
+    this.state = next;
+  }
+}
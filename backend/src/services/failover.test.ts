@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { resetEnv } from '../config/env';
+import { getLocale } from '../utils/locales';
+import { getFailover } from './failover';
+import type { ProviderName } from './providers';
+
+const savedEnv = { ...process.env };
+const failover = getFailover();
+
+type Script = (signal: AbortSignal) => AsyncIterable<string>;
+
+async function* tokens(...values: string[]) {
+  for (const value of values) yield value;
+}
+
+// A stream that fails before its first token
+function rejecting(first: () => Promise<never>): AsyncIterable<string> {
+  return { [Symbol.asyncIterator]: () => ({ next: first }) };
+}
+
+function failing() {
+  return rejecting(() => Promise.reject(new Error('rate limited')));
+}
+
+// Never answers until the attempt is aborted
+function silent(signal: AbortSignal) {
+  return rejecting(
+    () =>
+      new Promise((_, reject) =>
+        signal.addEventListener('abort', () => reject(new Error('aborted')))
+      )
+  );
+}
+
+async function* partial() {
+  yield 'Pikachu is';
+  throw new Error('connection reset');
+}
+
+// Collects the stream and which providers were started
+async function run(
+  primary: Script,
+  secondary: Script,
+  opts: Parameters<typeof failover.stream>[1] = {}
+) {
+  const started: ProviderName[] = [];
+  const scripts: Partial<Record<ProviderName, Script>> = {
+    openai: primary,
+    groq: secondary,
+  };
+  const output: string[] = [];
+  const stream = failover.stream(async (provider, signal) => {
+    started.push(provider);
+    return scripts[provider]!(signal);
+  }, opts);
+  for await (const token of stream) output.push(token);
+  return { output, started };
+}
+
+beforeAll(() => {
+  // Breakers are per provider and live for the process; keep them closed here
+  Object.assign(process.env, {
+    PROVIDER: 'openai',
+    FALLBACK_PROVIDER: 'groq',
+    AI_FIRST_TOKEN_TIMEOUT_MS: '50',
+    CIRCUIT_FAILURE_THRESHOLD: '100',
+  });
+  resetEnv();
+});
+
+afterAll(() => {
+  process.env = { ...savedEnv };
+  resetEnv();
+});
+
+describe('FailoverService.stream', () => {
+  test('streams the primary provider when it answers', async () => {
+    const result = await run(() => tokens('Pikachu ', 'is Electric.'), failing);
+    expect(result).toEqual({
+      output: ['Pikachu ', 'is Electric.'],
+      started: ['openai'],
+    });
+  });
+
+  test.each<[string, Script]>([
+    ['fails', () => failing()],
+    ['is silent past the first-token timeout', silent],
+    ['ends without text', () => tokens()],
+  ])('switches to the secondary when the primary %s', async (_, primary) => {
+    const result = await run(primary, () => tokens('From groq.'));
+    expect(result).toEqual({
+      output: ['From groq.'],
+      started: ['openai', 'groq'],
+    });
+  });
+
+  test('apologizes in the call language when every provider fails', async () => {
+    const before = failover.metrics().paths.stream.fallback;
+    const result = await run(failing, silent, { language: 'es' });
+    expect(result.output).toEqual([getLocale('es').apology]);
+    expect(failover.metrics().paths.stream.fallback).toBe(before + 1);
+  });
+
+  test('does not switch providers after the first token', async () => {
+    const result = await run(partial, () => tokens('From groq.'));
+    expect(result).toEqual({ output: ['Pikachu is'], started: ['openai'] });
+  });
+
+  test('stops without an apology when the caller aborts', async () => {
+    const controller = new AbortController();
+    const result = await run(
+      (signal) => {
+        controller.abort();
+        return silent(signal);
+      },
+      () => tokens('From groq.'),
+      { abortSignal: controller.signal }
+    );
+    expect(result).toEqual({ output: [], started: ['openai'] });
+  });
+});
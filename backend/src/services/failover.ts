@@ -0,0 +1,220 @@
+import { getEnv } from '../config/env';
+import { getLocale, type LanguageCode } from '../utils/locales';
+import { log } from '../utils/log';
+import { CircuitBreaker, type CircuitSnapshot } from './circuit-breaker';
+import { textProviderChain, type ProviderName } from './providers';
+
+// Failover across text providers: PROVIDER first, then FALLBACK_PROVIDER, then
+// a canned apology (Locale.apology) so the caller always hears something.
+// Each provider has a circuit breaker so a provider that keeps failing is
+// skipped instead of costing every caller a timeout.
+
+export type FailoverOperation = 'stream' | 'decision';
+// fallback = apology for streams, default decision for the reasoner
+export type FailoverPath = 'primary' | 'secondary' | 'fallback';
+
+export interface FailoverMetrics {
+  paths: Record<FailoverOperation, Record<FailoverPath, number>>;
+  providers: Array<
+    CircuitSnapshot & {
+      failures: number; // total, including ones that did not open the circuit
+      skipped: number; // requests refused while the circuit was open
+    }
+  >;
+}
+
+type StartStream = (
+  provider: ProviderName,
+  abortSignal: AbortSignal
+) => Promise<AsyncIterable<string>>;
+
+function emptyPaths(): Record<FailoverPath, number> {
+  return { primary: 0, secondary: 0, fallback: 0 };
+}
+
+class FirstTokenTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`No text within ${ms}ms`);
+    this.name = 'FirstTokenTimeoutError';
+  }
+}
+
+class FailoverService {
+  private breakers = new Map<ProviderName, CircuitBreaker>();
+  private paths: FailoverMetrics['paths'] = {
+    stream: emptyPaths(),
+    decision: emptyPaths(),
+  };
+  private failures = new Map<ProviderName, number>();
+  private skipped = new Map<ProviderName, number>();
+
+  /**
+   * Spoken text from the first provider that starts answering in time.
+   * Providers are switched only before the first token; an error after that
+   * ends the answer where it is (the caller has already heard part of it).
+   * The apology is in `language` (default English).
+   */
+  async *stream(
+    start: StartStream,
+    opts?: { abortSignal?: AbortSignal; language?: LanguageCode }
+  ): AsyncIterable<string> {
+    const callerSignal = opts?.abortSignal;
+    for (const [index, provider] of textProviderChain().entries()) {
+      if (callerSignal?.aborted) return;
+      const breaker = this.acquire(provider);
+      if (!breaker) continue;
+
+      const attempt = new AbortController();
+      const signal = callerSignal
+        ? AbortSignal.any([callerSignal, attempt.signal])
+        : attempt.signal;
+      let iterator: AsyncIterator<string> | null = null;
+      try {
+        try {
+          iterator = (await start(provider, signal))[Symbol.asyncIterator]();
+          const first = await this.firstToken(iterator, attempt);
+          if (first.done) throw new Error('Empty response');
+          breaker.recordSuccess();
+          this.count('stream', index === 0 ? 'primary' : 'secondary');
+          yield first.value;
+        } catch (error) {
+          if (callerSignal?.aborted) {
+            breaker.release();
+            return;
+          }
+          this.fail(provider, breaker, 'stream', error);
+          continue;
+        }
+
+        try {
+          while (true) {
+            const next = await iterator.next();
+            if (next.done) return;
+            yield next.value;
+          }
+        } catch (error) {
+          if (callerSignal?.aborted) return;
+          this.fail(provider, breaker, 'stream', error);
+          return;
+        }
+      } finally {
+        // Also runs when the consumer stops early (barge-in, hang-up)
+        attempt.abort();
+      }
+    }
+
+    this.count('stream', 'fallback');
+    yield getLocale(opts?.language ?? 'en').apology;
+  }
+
+  // Result of the first provider that succeeds, else fallback()
+  async run<T>(
+    operation: FailoverOperation,
+    attempt: (provider: ProviderName) => Promise<T>,
+    fallback: () => T
+  ): Promise<T> {
+    for (const [index, provider] of textProviderChain().entries()) {
+      const breaker = this.acquire(provider);
+      if (!breaker) continue;
+      try {
+        const result = await attempt(provider);
+        breaker.recordSuccess();
+        this.count(operation, index === 0 ? 'primary' : 'secondary');
+        return result;
+      } catch (error) {
+        this.fail(provider, breaker, operation, error);
+      }
+    }
+    this.count(operation, 'fallback');
+    return fallback();
+  }
+
+  metrics(): FailoverMetrics {
+    return {
+      paths: {
+        stream: { ...this.paths.stream },
+        decision: { ...this.paths.decision },
+      },
+      providers: textProviderChain().map((provider) => ({
+        ...this.breaker(provider).snapshot(),
+        failures: this.failures.get(provider) ?? 0,
+        skipped: this.skipped.get(provider) ?? 0,
+      })),
+    };
+  }
+
+  private breaker(provider: ProviderName): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      const env = getEnv();
+      breaker = new CircuitBreaker(provider, {
+        failureThreshold: env.CIRCUIT_FAILURE_THRESHOLD,
+        cooldownMs: env.CIRCUIT_COOLDOWN_SECONDS * 1000,
+      });
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  private acquire(provider: ProviderName): CircuitBreaker | null {
+    const breaker = this.breaker(provider);
+    if (breaker.tryAcquire()) return breaker;
+    this.skipped.set(provider, (this.skipped.get(provider) ?? 0) + 1);
+    log.debug('[failover] Circuit open, skipping provider', { provider });
+    return null;
+  }
+
+  private async firstToken(
+    iterator: AsyncIterator<string>,
+    attempt: AbortController
+  ): Promise<IteratorResult<string>> {
+    const ms = getEnv().AI_FIRST_TOKEN_TIMEOUT_MS;
+    let timer: Timer | undefined;
+    const next = iterator.next();
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        attempt.abort();
+        reject(new FirstTokenTimeoutError(ms));
+      }, ms);
+    });
+    // The losing promise may still settle after the race is decided
+    next.catch(() => {});
+    try {
+      return await Promise.race([next, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private fail(
+    provider: ProviderName,
+    breaker: CircuitBreaker,
+    operation: FailoverOperation,
+    error: unknown
+  ) {
+    breaker.recordFailure(error);
+    this.failures.set(provider, (this.failures.get(provider) ?? 0) + 1);
+    log.warn('[failover] Provider failed', {
+      provider,
+      operation,
+      error: (error as any)?.message || String(error),
+    });
+  }
+
+  private count(operation: FailoverOperation, path: FailoverPath) {
+    this.paths[operation][path]++;
+    if (path !== 'primary') {
+      log.info('[failover] Answered via fallback path', { operation, path });
+    }
+  }
+}
+
+// Singleton instance
+let failoverService: FailoverService | null = null;
+
+export function getFailover(): FailoverService {
+  if (!failoverService) {
+    failoverService = new FailoverService();
+  }
+  return failoverService;
+}
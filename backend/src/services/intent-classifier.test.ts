@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { getIntentClassifier } from './intent-classifier';
+
+const classifier = getIntentClassifier();
+
+function classify(
+  text: string,
+  options: { waitingForImage?: boolean; isNewCaller?: boolean } = {}
+) {
+  return classifier.classify({
+    text,
+    waitingForImage: options.waitingForImage ?? false,
+    isNewCaller: options.isNewCaller,
+    language: 'en',
+  });
+}
+
+describe('IntentClassifier', () => {
+  test.each([
+    ['stop', 'stop'],
+    ['Stop talking!', 'stop'],
+    ['Can you say that again?', 'repeat'],
+    ['please repeat the last answer', 'repeat'],
+    ['Sorry, what did you say?', 'repeat'],
+    ["I'll send you a photo", 'photo'],
+    ['can you identify this picture', 'photo'],
+    ['Check my Pokémon photo', 'photo'],
+    ['Tell me about Pikachu', 'pokemon_question'],
+    ['Is Charizard weak to water?', 'pokemon_question'],
+  ])('"%s" -> %s', (text, rule) => {
+    expect(classify(text)?.rule).toBe(rule);
+  });
+
+  test('a photo request while waiting for one goes to the reasoner', () => {
+    expect(classify('I sent the photo', { waitingForImage: true })).toBeNull();
+  });
+
+  test.each([
+    'Can I talk to a person about Pikachu?',
+    'Text me what you said about Eevee',
+    'Bye, thanks for the Snorlax info',
+    'what is the weather like',
+  ])('"%s" goes to the reasoner', (text) => {
+    expect(classify(text)).toBeNull();
+  });
+
+  test.each([
+    ['What did you say about Charizard evolving?', 'repeat'],
+    [
+      'Can you identify which Pokemon is on the Pokemon Red box image?',
+      'photo',
+    ],
+    ['Show me a picture of Pikachu', 'photo'],
+  ])('"%s" is a question, not %s', (text, rule) => {
+    expect(classify(text)?.rule).not.toBe(rule);
+  });
+
+  test('calls in other languages always go to the reasoner', () => {
+    const decision = classifier.classify({
+      text: 'stop',
+      waitingForImage: false,
+      language: 'es',
+    });
+    expect(decision).toBeNull();
+  });
+
+  describe('names', () => {
+    test.each([
+      ['My name is Brock', 'Brock'],
+      ['hi, my name is misty.', 'Misty'],
+      ["my name's Ash", 'Ash'],
+      ['Call me Gary!', 'Gary'],
+    ])('"%s" -> %s', (text, name) => {
+      const decision = classify(text, { isNewCaller: true });
+      expect(decision?.rule).toBe('name');
+      expect(decision?.decision).toMatchObject({
+        action: 'ack_name_only',
+        extractedName: name,
+        reply: `Nice to meet you, ${name}!`,
+      });
+    });
+
+    test.each([
+      "it's me",
+      'I am hungry',
+      "I'm Misty",
+      'this is Brock',
+      'Pardon?',
+      'Brock',
+      'call me back',
+      'my name is Pikachu',
+    ])('"%s" is not a name', (text) => {
+      expect(classify(text, { isNewCaller: true })?.rule).not.toBe('name');
+    });
+
+    test('only new callers are asked for a name', () => {
+      expect(classify('my name is Brock')).toBeNull();
+    });
+  });
+
+  test('records latency per path and decisions per rule', () => {
+    classifier.record('fast', 2, 'repeat');
+    classifier.record('reasoner', 300);
+    const metrics = classifier.metrics();
+    expect(metrics.paths.fast.count).toBeGreaterThanOrEqual(1);
+    expect(metrics.paths.reasoner.maxMs).toBeGreaterThanOrEqual(300);
+    expect(metrics.rules.repeat).toBeGreaterThanOrEqual(1);
+  });
+});
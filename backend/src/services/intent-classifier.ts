@@ -0,0 +1,232 @@
+import { getLocale } from '../utils/locales';
+import { getPokemonExtractor } from './pokemon-extractor';
+import type { Decision } from './reasoner';
+
+// Local, deterministic fast path in front of the LLM reasoner. Keyword rules
+// and the Pokédex extractor recognize the obvious intents; anything they are
+// not sure about returns null and goes to the reasoner. Rules are English,
+// so calls in other languages always use the reasoner.
+
+export type DecisionPath = 'fast' | 'reasoner';
+
+export interface LatencyStats {
+  count: number;
+  avgMs: number;
+  p95Ms: number; // over the most recent LATENCY_SAMPLES decisions
+  maxMs: number;
+}
+
+export interface IntentMetrics {
+  paths: Record<DecisionPath, LatencyStats>;
+  rules: Record<string, number>; // fast-path decisions per rule
+}
+
+export interface FastDecision {
+  rule: string;
+  decision: Decision;
+}
+
+type ClassifyInput = {
+  text: string;
+  waitingForImage: boolean;
+  isNewCaller?: boolean; // asked for their name
+  language?: string;
+};
+
+const LATENCY_SAMPLES = 500;
+
+const STOP_PHRASES = /\b(stop talking|stop speaking)\b/;
+// REPEAT and PHOTO match the whole utterance (punctuation removed): "what
+// did you say about Charizard" is a question, not a request to repeat
+const REPEAT =
+  /^(?:(?:sorry|pardon|what) )?(?:(?:can|could|would) you )?(?:please )?(?:say that again|repeat that|repeat (?:the|your) (?:last )?answer|come again|what did you say)(?: please)?$/;
+const PHOTO =
+  /^(?:(?:can|could|will) you |i'll |i will |i want to |i'd like to |let me |i'm going to )?(?:please )?(?:send|text|show|check|identify|look at)(?: you| me)? (?:a|an|my|this|the)(?: pokemon)? (?:photo|picture|pic|image)(?: of (?:a|my) pokemon)?(?: please)?$/;
+// Words that belong to an intent the reasoner decides (operator, goodbye,
+// language, name, texting, photos); a Pokémon question containing one of
+// them is not plain
+const OTHER_INTENT =
+  /\b(photo|picture|pic|image|person|human|operator|agent|representative|bye|goodbye|that's all|hang up|speak|talk|language|english|spanish|french|german|my name|call me|text me|again|repeat|stop|never ?mind|forget it)\b/;
+// Only an explicit introduction: "I'm hungry", "it's me" or a lone "Pardon?"
+// are not names, so those replies go to the reasoner
+const NAME_INTRO =
+  /^(?:(?:hi|hello|hey)[,!.]?\s+)?(?:my name is|my name's|call me)\s+([a-z]+)[.!]?$/;
+// Words after "my name is" or "call me" that are not names
+const NOT_NAMES = new Set([
+  'yes',
+  'yeah',
+  'no',
+  'nope',
+  'ok',
+  'okay',
+  'sure',
+  'hi',
+  'hello',
+  'hey',
+  'thanks',
+  'good',
+  'fine',
+  'great',
+  'here',
+  'back',
+  'ready',
+  'sorry',
+  'not',
+  'new',
+  'just',
+  'calling',
+  'looking',
+  'curious',
+  'wondering',
+  'what',
+  'why',
+  'who',
+  'later',
+  'tomorrow',
+  'maybe',
+  'anytime',
+]);
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[’]/g, "'")
+    .replace(/[^a-z'\s.,!?]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function decision(
+  action: string,
+  reply: string,
+  extractedName: string | null = null
+): Decision {
+  return { action, reply, extractedName, payload: null };
+}
+
+class Latency {
+  private count = 0;
+  private totalMs = 0;
+  private maxMs = 0;
+  private samples: number[] = [];
+
+  record(ms: number) {
+    this.count++;
+    this.totalMs += ms;
+    this.maxMs = Math.max(this.maxMs, ms);
+    this.samples.push(ms);
+    if (this.samples.length > LATENCY_SAMPLES) this.samples.shift();
+  }
+
+  stats(): LatencyStats {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const p95 = sorted[Math.ceil(sorted.length * 0.95) - 1] ?? 0;
+    const round = (ms: number) => Math.round(ms * 10) / 10;
+    return {
+      count: this.count,
+      avgMs: this.count ? round(this.totalMs / this.count) : 0,
+      p95Ms: round(p95),
+      maxMs: round(this.maxMs),
+    };
+  }
+}
+
+class IntentClassifier {
+  private latency: Record<DecisionPath, Latency> = {
+    fast: new Latency(),
+    reasoner: new Latency(),
+  };
+  private rules = new Map<string, number>();
+
+  // "stop", "stop talking": mutes the answer being spoken
+  isStop(text: string): boolean {
+    const words = normalize(text).replace(/[.,!?]/g, '');
+    return words === 'stop' || STOP_PHRASES.test(words);
+  }
+
+  /**
+   * Decision for an utterance whose intent is clear from the words alone,
+   * or null when the reasoner has to decide.
+   */
+  classify(input: ClassifyInput): FastDecision | null {
+    if (input.language && input.language !== 'en') return null;
+    const text = normalize(input.text);
+    if (!text) return null;
+
+    // Nothing is playing when a prompt gets here (see handlePrompt)
+    if (this.isStop(text)) {
+      return { rule: 'stop', decision: decision('ack_name_only', 'Okay.') };
+    }
+    const words = text
+      .replace(/[.,!?]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (REPEAT.test(words)) {
+      return { rule: 'repeat', decision: decision('repeat', '') };
+    }
+    if (PHOTO.test(words) && !input.waitingForImage) {
+      return {
+        rule: 'photo',
+        decision: decision('wait_for_image', getLocale('en').photoRequested),
+      };
+    }
+
+    if (input.isNewCaller) {
+      const name = this.nameIn(text);
+      if (name) {
+        return {
+          rule: 'name',
+          decision: decision(
+            'ack_name_only',
+            `Nice to meet you, ${name}!`,
+            name
+          ),
+        };
+      }
+    }
+
+    const mentions = getPokemonExtractor().extract(input.text);
+    if (mentions.length > 0 && !OTHER_INTENT.test(text)) {
+      return { rule: 'pokemon_question', decision: decision('chat', '') };
+    }
+    return null;
+  }
+
+  record(path: DecisionPath, ms: number, rule?: string) {
+    this.latency[path].record(ms);
+    if (rule) this.rules.set(rule, (this.rules.get(rule) ?? 0) + 1);
+  }
+
+  metrics(): IntentMetrics {
+    return {
+      paths: {
+        fast: this.latency.fast.stats(),
+        reasoner: this.latency.reasoner.stats(),
+      },
+      rules: Object.fromEntries(this.rules),
+    };
+  }
+
+  // "my name is Brock", "call me Misty"
+  private nameIn(text: string): string | null {
+    const words = text.replace(/[,!?]/g, '').replace(/\.$/, '');
+    const word = words.match(NAME_INTRO)?.[1];
+    if (!word || word.length < 2 || word.length > 20) return null;
+    if (NOT_NAMES.has(word) || getPokemonExtractor().extract(word).length) {
+      return null;
+    }
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+}
+
+// Singleton instance
+let classifier: IntentClassifier | null = null;
+
+export function getIntentClassifier(): IntentClassifier {
+  if (!classifier) {
+    classifier = new IntentClassifier();
+  }
+  return classifier;
+}
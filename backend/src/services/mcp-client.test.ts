@@ -0,0 +1,69 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import {
+  startMcpStubServer,
+  type McpStubServer,
+} from '../../scripts/mcp-stub-server';
+import { getMcpClientManager, type McpTools } from './mcp-client';
+
+const manager = getMcpClientManager();
+let stub: McpStubServer = startMcpStubServer({ port: 0 });
+const url = stub.url;
+const port = Number(new URL(url).port);
+
+// Polls getTools() until it matches, past the backoff's first retry (~1s)
+async function waitForTools(
+  ready: (tools: McpTools | null) => boolean,
+  timeoutMs = 5_000
+): Promise<McpTools | null> {
+  const deadline = Date.now() + timeoutMs;
+  let tools = await manager.getTools(url);
+  while (!ready(tools) && Date.now() < deadline) {
+    await Bun.sleep(50);
+    tools = await manager.getTools(url);
+  }
+  return tools;
+}
+
+afterAll(async () => {
+  stub.stop();
+  await manager.closeAll();
+});
+
+describe('McpClientManager', () => {
+  test('connects once and reuses the tool list', async () => {
+    const tools = await manager.getTools(url);
+    expect(Object.keys(tools ?? {}).sort()).toEqual([
+      'get_pokemon',
+      'list_types',
+    ]);
+    expect(await manager.getTools(url)).toBe(tools);
+    expect(manager.connection(url).status()).toMatchObject({
+      state: 'ready',
+      failures: 0,
+    });
+  });
+
+  test('resolves to null while the server is down', async () => {
+    stub.stop();
+    expect(await waitForTools((tools) => tools === null)).toBeNull();
+    const status = manager.connection(url).status();
+    expect(status.state).toBe('backoff');
+    expect(status.failures).toBeGreaterThan(0);
+    expect(status.retryInMs).not.toBeNull();
+  });
+
+  test('reconnects when the server comes back', async () => {
+    stub = startMcpStubServer({ port });
+    const tools = await waitForTools((tools) => tools !== null);
+    expect(Object.keys(tools ?? {})).toContain('get_pokemon');
+    expect(manager.connection(url).status()).toMatchObject({
+      state: 'ready',
+      failures: 0,
+      lastError: null,
+    });
+  }, 10_000);
+
+  test('without a server URL there are no tools', async () => {
+    expect(await manager.getTools('')).toBeNull();
+  });
+});
@@ -0,0 +1,312 @@
+import { experimental_createMCPClient as createMCPClient, tool } from 'ai';
+import { getEnv } from '../config/env';
+import { log } from '../utils/log';
+import { SseTransport } from './mcp-transport';
+
+// Long-lived MCP clients, one per server URL (POKE_MCP_SSE_URL).
+// Connections and tool lists are reused across answers, checked in the
+// background and reconnected with exponential backoff. While a server is down
+// getTools() resolves to null immediately so callers can answer without MCP.
+
+type McpClient = Awaited<ReturnType<typeof createMCPClient>>;
+export type McpTools = Awaited<ReturnType<McpClient['tools']>>;
+
+export type McpConnectionState = 'idle' | 'connecting' | 'ready' | 'backoff';
+
+export interface McpConnectionStatus {
+  url: string;
+  state: McpConnectionState;
+  tools: string[];
+  failures: number;
+  lastError: string | null;
+  retryInMs: number | null;
+}
+
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 60_000;
+
+// Spoken around by the model instead of failing the whole answer
+const TOOL_UNAVAILABLE = {
+  error: 'The Pokédex service is unavailable right now; answer without it.',
+};
+
+function errorMessage(error: unknown): string {
+  return (error as any)?.message || String(error);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string) {
+  let timer: Timer | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out after ${ms}ms`)),
+      ms
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+class McpConnection {
+  private client: McpClient | null = null;
+  private connecting: Promise<McpClient> | null = null;
+  private tools: McpTools | null = null;
+  private toolsFetchedAt = 0;
+  private failures = 0;
+  private lastError: string | null = null;
+  private retryAt = 0;
+  private reconnectTimer: Timer | null = null;
+  private healthTimer: Timer | null = null;
+  private closed = false;
+
+  constructor(readonly url: string) {}
+
+  get state(): McpConnectionState {
+    if (this.connecting) return 'connecting';
+    if (this.client) return 'ready';
+    return this.failures > 0 ? 'backoff' : 'idle';
+  }
+
+  // Cached tools, fetched on a live client when stale; null while unavailable
+  async getTools(): Promise<McpTools | null> {
+    if (this.closed || Date.now() < this.retryAt) return null;
+    const ttlMs = getEnv().MCP_TOOLS_CACHE_TTL_SECONDS * 1000;
+    if (this.client && this.tools && Date.now() - this.toolsFetchedAt < ttlMs) {
+      return this.tools;
+    }
+    try {
+      return await this.refreshTools();
+    } catch (error) {
+      this.fail(error);
+      return null;
+    }
+  }
+
+  status(): McpConnectionStatus {
+    return {
+      url: this.url,
+      state: this.state,
+      tools: this.tools ? Object.keys(this.tools) : [],
+      failures: this.failures,
+      lastError: this.lastError,
+      retryInMs:
+        this.state === 'backoff'
+          ? Math.max(0, this.retryAt - Date.now())
+          : null,
+    };
+  }
+
+  async close() {
+    this.closed = true;
+    this.stopTimers();
+    await this.dropClient();
+  }
+
+  private async refreshTools(): Promise<McpTools> {
+    const client = await this.connect();
+    const tools = await withTimeout(
+      client.tools(),
+      getEnv().MCP_CONNECT_TIMEOUT_MS,
+      'MCP tools/list'
+    );
+    // A reconnect while listing would leave these bound to a closed client
+    if (client !== this.client) throw new Error('MCP connection was replaced');
+    this.tools = this.guard(tools);
+    this.toolsFetchedAt = Date.now();
+    return this.tools;
+  }
+
+  private connect(): Promise<McpClient> {
+    if (this.client) return Promise.resolve(this.client);
+    if (this.connecting) return this.connecting;
+
+    const pending = createMCPClient({
+      transport: new SseTransport(new URL(this.url)),
+      name: 'pokedex-call-center',
+      // Dropped SSE streams and failed POSTs surface here, not as rejections
+      onUncaughtError: (error) => {
+        // Server-initiated requests (e.g. ping) are not supported by the
+        // client but leave the connection usable
+        if (errorMessage(error) === 'Unsupported message type') {
+          log.debug('[mcp] Ignored server request', { url: this.url });
+          return;
+        }
+        if (this.client === client) this.fail(error);
+      },
+    });
+    let client: McpClient | null = null;
+    let abandoned = false;
+
+    this.connecting = withTimeout(
+      pending,
+      getEnv().MCP_CONNECT_TIMEOUT_MS,
+      'MCP connect'
+    )
+      .then(
+        (connected) => {
+          client = connected;
+          this.client = connected;
+          this.failures = 0;
+          this.lastError = null;
+          this.retryAt = 0;
+          this.startHealthChecks();
+          log.info('[mcp] Connected', { url: this.url });
+          return connected;
+        },
+        (error) => {
+          abandoned = true;
+          throw error;
+        }
+      )
+      .finally(() => {
+        this.connecting = null;
+      });
+
+    // A connection that completes after its timeout is nobody's; close it
+    pending
+      .then((late) => {
+        if (abandoned) late.close().catch(() => {});
+      })
+      .catch(() => {});
+
+    return this.connecting;
+  }
+
+  // A failed tool call triggers a health check; the model gets a short error
+  // result and answers from its own knowledge instead
+  private guard(tools: McpTools): McpTools {
+    return Object.fromEntries(
+      Object.entries(tools).map(([name, t]) => [
+        name,
+        tool({
+          ...t,
+          execute: async (args: unknown, options: any) => {
+            try {
+              return await t.execute!(args, options);
+            } catch (error) {
+              if (options?.abortSignal?.aborted) throw error;
+              log.warn('[mcp] Tool call failed', {
+                tool: name,
+                error: errorMessage(error),
+              });
+              this.checkHealth();
+              return TOOL_UNAVAILABLE;
+            }
+          },
+        }),
+      ])
+    ) as McpTools;
+  }
+
+  private fail(error: unknown) {
+    if (this.closed) return;
+    this.failures++;
+    this.lastError = errorMessage(error);
+    // Exponential backoff with jitter: ~1s, 2s, 4s ... capped at a minute
+    const delay = Math.min(
+      BACKOFF_MAX_MS,
+      BACKOFF_BASE_MS * 2 ** (this.failures - 1)
+    );
+    const jittered = Math.round(delay * (0.8 + Math.random() * 0.4));
+    this.retryAt = Date.now() + jittered;
+    log.warn('[mcp] Server unavailable, retrying later', {
+      url: this.url,
+      failures: this.failures,
+      retryInMs: jittered,
+      error: this.lastError,
+    });
+
+    this.stopTimers();
+    void this.dropClient();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.retryAt = 0;
+      // Reconnect ahead of the next answer so it does not pay for the handshake
+      this.refreshTools().catch((e) => this.fail(e));
+    }, jittered);
+    this.reconnectTimer.unref?.();
+  }
+
+  private startHealthChecks() {
+    const intervalSeconds = getEnv().MCP_HEALTH_CHECK_INTERVAL_SECONDS;
+    if (intervalSeconds === 0 || this.healthTimer) return;
+    this.healthTimer = setInterval(
+      () => this.checkHealth(),
+      intervalSeconds * 1000
+    );
+    this.healthTimer.unref?.();
+  }
+
+  private checkHealth() {
+    if (!this.client || this.connecting) return;
+    // tools/list doubles as a ping and keeps the cache fresh
+    this.refreshTools().catch((error) => this.fail(error));
+  }
+
+  private stopTimers() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.reconnectTimer = null;
+    this.healthTimer = null;
+  }
+
+  private async dropClient() {
+    const client = this.client;
+    this.client = null;
+    this.tools = null;
+    if (client) {
+      try {
+        await client.close();
+      } catch (error) {
+        log.debug('[mcp] Close failed', { error: errorMessage(error) });
+      }
+    }
+  }
+}
+
+class McpClientManager {
+  private connections = new Map<string, McpConnection>();
+
+  connection(url: string): McpConnection {
+    let connection = this.connections.get(url);
+    if (!connection) {
+      connection = new McpConnection(url);
+      this.connections.set(url, connection);
+    }
+    return connection;
+  }
+
+  // Tools for one answer; null when no server is configured or it is down
+  async getTools(
+    url: string | undefined = getEnv().POKE_MCP_SSE_URL
+  ): Promise<McpTools | null> {
+    if (!url) return null;
+    return this.connection(url).getTools();
+  }
+
+  // Connect at startup so the first call does not wait for the handshake
+  warmUp(url: string | undefined = getEnv().POKE_MCP_SSE_URL) {
+    if (!url) return;
+    void this.getTools(url).then((tools) => {
+      if (!tools) log.warn('[mcp] Not available at startup', { url });
+    });
+  }
+
+  status(): McpConnectionStatus[] {
+    return [...this.connections.values()].map((c) => c.status());
+  }
+
+  async closeAll() {
+    const connections = [...this.connections.values()];
+    this.connections.clear();
+    await Promise.all(connections.map((c) => c.close()));
+  }
+}
+
+// Singleton instance
+let mcpClientManager: McpClientManager | null = null;
+
+export function getMcpClientManager(): McpClientManager {
+  if (!mcpClientManager) {
+    mcpClientManager = new McpClientManager();
+  }
+  return mcpClientManager;
+}
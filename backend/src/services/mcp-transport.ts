@@ -0,0 +1,152 @@
+import { MCPClientError, type JSONRPCMessage, type MCPTransport } from 'ai';
+
+// MCP over SSE: a long-lived event stream for server messages plus POSTs to
+// the endpoint the server announces. Same wire protocol as the AI SDK's
+// built-in transport, with two differences that matter for pooled clients:
+// closing after the stream has already failed leaves no rejected promise
+// behind, and a failed POST rejects the request instead of leaving it pending.
+
+type SseEvent = { event: string; data: string };
+
+export class SseTransport implements MCPTransport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private endpoint: URL | null = null;
+  private abortController: AbortController | null = null;
+  private connected = false;
+
+  constructor(
+    private readonly url: URL,
+    private readonly headers: Record<string, string> = {}
+  ) {}
+
+  // Resolves once the server has announced its message endpoint
+  async start(): Promise<void> {
+    if (this.connected) return;
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    const response = await fetch(this.url, {
+      headers: { ...this.headers, Accept: 'text/event-stream' },
+      signal: abortController.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new MCPClientError({
+        message: `MCP SSE Transport Error: ${response.status} ${response.statusText}`,
+      });
+    }
+
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    return new Promise<void>((resolve, reject) => {
+      void this.readEvents(reader, abortController.signal, resolve, reject);
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint || !this.connected) {
+      throw new MCPClientError({
+        message: 'MCP SSE Transport Error: Not connected',
+      });
+    }
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abortController?.signal,
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new MCPClientError({
+        message: `MCP SSE Transport Error: POSTing to endpoint (HTTP ${response.status}): ${text}`,
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    // Aborting ends the pending read quietly, even on a stream that failed
+    this.abortController?.abort();
+    this.abortController = null;
+    this.onclose?.();
+  }
+
+  private async readEvents(
+    reader: { read(): Promise<{ done: boolean; value?: string }> },
+    signal: AbortSignal,
+    onEndpoint: () => void,
+    onFailure: (error: Error) => void
+  ) {
+    let buffer = '';
+    let event: SseEvent = { event: 'message', data: '' };
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          const error = new MCPClientError({
+            message: 'MCP SSE Transport Error: Connection closed unexpectedly',
+          });
+          if (this.connected) {
+            this.connected = false;
+            this.onerror?.(error);
+          }
+          return onFailure(error);
+        }
+
+        buffer += value ?? '';
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line === '') {
+            // A blank line ends the event
+            if (event.data) this.dispatch(event, onEndpoint);
+            event = { event: 'message', data: '' };
+          } else if (line.startsWith('event:')) {
+            event.event = line.slice(6).trim();
+          } else if (line.startsWith('data:')) {
+            const data = line.slice(5).replace(/^ /, '');
+            event.data = event.data ? `${event.data}\n${data}` : data;
+          }
+          // Comments (":keep-alive") and unknown fields are ignored
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      this.connected = false;
+      const failure = error instanceof Error ? error : new Error(String(error));
+      this.onerror?.(failure);
+      onFailure(failure);
+    }
+  }
+
+  private dispatch({ event, data }: SseEvent, onEndpoint: () => void) {
+    if (event === 'endpoint') {
+      const endpoint = new URL(data, this.url);
+      if (endpoint.origin !== this.url.origin) {
+        throw new MCPClientError({
+          message: `MCP SSE Transport Error: Endpoint origin does not match connection origin: ${endpoint.origin}`,
+        });
+      }
+      this.endpoint = endpoint;
+      this.connected = true;
+      onEndpoint();
+    } else if (event === 'message') {
+      let message: JSONRPCMessage;
+      try {
+        message = JSON.parse(data);
+      } catch (cause) {
+        this.onerror?.(
+          new MCPClientError({
+            message: 'MCP SSE Transport Error: Failed to parse message',
+            cause,
+          })
+        );
+        return;
+      }
+      this.onmessage?.(message);
+    }
+  }
+}
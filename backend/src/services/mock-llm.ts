@@ -0,0 +1,241 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { LanguageModel } from 'ai';
+import { z } from 'zod';
+import { getEnv } from '../config/env';
+import { log } from '../utils/log';
+import { getPokedex } from './pokedex';
+import { getPokemonExtractor } from './pokemon-extractor';
+import type { TextUseCase } from './providers';
+import { getReasonerActions } from './reasoner-actions';
+
+// Scripted stand-in for Groq/OpenAI (PROVIDER=mock). Replies come from
+// fixture rules (first regex match wins), then from the bundled Pokédex, then
+// from fixture defaults, so the same input always produces the same output
+// and no request leaves the machine.
+
+const DEFAULT_FIXTURES = join(__dirname, '../../fixtures/mock-llm.json');
+
+const RuleSchema = z.object({
+  match: z.string(), // case-insensitive regex; "$1" in replies expands groups
+  reply: z.string(),
+});
+
+const FixturesSchema = z.object({
+  chat: z.array(RuleSchema).default([]),
+  decisions: z
+    .array(
+      RuleSchema.extend({
+        action: z.string().refine((name) => getReasonerActions().has(name), {
+          message: 'Unknown reasoner action',
+        }),
+        extractedName: z.string().optional(),
+        payload: z.record(z.string(), z.unknown()).optional(),
+      })
+    )
+    .default([]),
+  vision: z.array(RuleSchema).default([]),
+  defaults: z
+    .object({ chat: z.string().optional(), vision: z.string().optional() })
+    .default({}),
+  // Pause between streamed words, to exercise barge-in and timeouts
+  chunkDelayMs: z.number().int().min(0).default(0),
+});
+
+export type MockFixtures = z.infer<typeof FixturesSchema>;
+
+type Rule<T> = T & { pattern: RegExp };
+
+export interface MockDecision {
+  action: string;
+  reply: string;
+  extractedName: string | null;
+  payload: Record<string, unknown> | null;
+}
+
+type CallOptions = Parameters<LanguageModel['doGenerate']>[0];
+
+function compile<T extends { match: string }>(rules: T[]): Rule<T>[] {
+  return rules.map((rule) => ({
+    ...rule,
+    pattern: new RegExp(rule.match, 'i'),
+  }));
+}
+
+function expand(template: string, match: RegExpMatchArray): string {
+  return template.replace(/\$(\d)/g, (_, i) => match[Number(i)] ?? '');
+}
+
+function firstMatch<T extends { pattern: RegExp }>(rules: T[], text: string) {
+  for (const rule of rules) {
+    const match = text.match(rule.pattern);
+    if (match) return { rule, match };
+  }
+  return null;
+}
+
+// Text of the last user message in an AI SDK prompt
+function lastUserText(prompt: CallOptions['prompt']): string {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    const message = prompt[i];
+    if (message.role !== 'user') continue;
+    return message.content
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .join(' ')
+      .trim();
+  }
+  return '';
+}
+
+// "Pikachu is an Electric type Pokémon that evolves into Raichu."
+function pokedexAnswer(text: string): string | null {
+  const mention = getPokemonExtractor().extract(text)[0];
+  const entry = mention && getPokedex().getById(mention.id);
+  if (!entry) return null;
+  const types = entry.types.join(' and ');
+  const article = /^[aeiou]/i.test(types) ? 'an' : 'a';
+  const evolves = entry.evolution.to.length
+    ? ` that evolves into ${entry.evolution.to.join(' or ')}`
+    : '';
+  return `${entry.name} is ${article} ${types} type Pokémon${evolves}.`;
+}
+
+class MockLlm {
+  private chat: Rule<MockFixtures['chat'][number]>[];
+  private decisions: Rule<MockFixtures['decisions'][number]>[];
+  private vision: Rule<MockFixtures['vision'][number]>[];
+
+  constructor(private readonly fixtures: MockFixtures) {
+    this.chat = compile(fixtures.chat);
+    this.decisions = compile(fixtures.decisions);
+    this.vision = compile(fixtures.vision);
+  }
+
+  chatReply(text: string): string {
+    const hit = firstMatch(this.chat, text);
+    if (hit) return expand(hit.rule.reply, hit.match);
+    return (
+      pokedexAnswer(text) ??
+      this.fixtures.defaults.chat ??
+      "I'm not sure about that one."
+    );
+  }
+
+  decide(text: string): MockDecision {
+    const hit = firstMatch(this.decisions, text);
+    if (!hit) {
+      return {
+        action: 'chat',
+        reply: 'Alright.',
+        extractedName: null,
+        payload: null,
+      };
+    }
+    return {
+      action: hit.rule.action,
+      reply: expand(hit.rule.reply, hit.match),
+      extractedName: hit.rule.extractedName
+        ? expand(hit.rule.extractedName, hit.match)
+        : null,
+      payload: hit.rule.payload ?? null,
+    };
+  }
+
+  visionReply(imageUrl: string): string {
+    const hit = firstMatch(this.vision, imageUrl);
+    if (hit) return expand(hit.rule.reply, hit.match);
+    return this.fixtures.defaults.vision ?? "I'm not sure what that is.";
+  }
+
+  // AI SDK language model answering for one use case
+  model(useCase: TextUseCase, modelId: string): LanguageModel {
+    const respond = (options: CallOptions) => this.respond(useCase, options);
+    const chunkDelayMs = this.fixtures.chunkDelayMs;
+
+    return {
+      specificationVersion: 'v1',
+      provider: 'mock',
+      modelId,
+      defaultObjectGenerationMode: undefined,
+
+      async doGenerate(options) {
+        const text = respond(options);
+        return {
+          text,
+          finishReason: 'stop',
+          usage: { promptTokens: 0, completionTokens: text.length },
+          rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+        };
+      },
+
+      async doStream(options) {
+        const text = respond(options);
+        // Word by word, keeping the whitespace that follows each word
+        const words = text.match(/\S+\s*/g) ?? [];
+        const stream = new ReadableStream({
+          async start(controller) {
+            for (const word of words) {
+              if (chunkDelayMs) await Bun.sleep(chunkDelayMs);
+              if (options.abortSignal?.aborted) break;
+              controller.enqueue({ type: 'text-delta', textDelta: word });
+            }
+            controller.enqueue({
+              type: 'finish',
+              finishReason: 'stop',
+              usage: { promptTokens: 0, completionTokens: text.length },
+            });
+            controller.close();
+          },
+        });
+        return {
+          stream,
+          rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+        };
+      },
+    };
+  }
+
+  private respond(useCase: TextUseCase, options: CallOptions): string {
+    const text = lastUserText(options.prompt);
+    if (useCase === 'reasoner') {
+      // The reasoner sends its input as JSON (see decideWith in reasoner.ts)
+      let utterance = text;
+      try {
+        utterance = String(JSON.parse(text).text ?? '');
+      } catch {}
+      return JSON.stringify(this.decide(utterance));
+    }
+    // image_reply: the analysis is already one speakable sentence
+    return useCase === 'image_reply' ? text : this.chatReply(text);
+  }
+}
+
+function loadFixtures(path: string): MockFixtures {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read mock LLM fixtures at ${path}: ${(error as Error).message}`
+    );
+  }
+  const parsed = FixturesSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid mock LLM fixtures at ${path}: ${parsed.error.message}`
+    );
+  }
+  return parsed.data;
+}
+
+// Singleton instance
+let mockLlm: MockLlm | null = null;
+
+export function getMockLlm(): MockLlm {
+  if (!mockLlm) {
+    const path = getEnv().MOCK_LLM_FIXTURES || DEFAULT_FIXTURES;
+    mockLlm = new MockLlm(loadFixtures(path));
+    log.info('[mock-llm] Loaded fixtures', { path });
+  }
+  return mockLlm;
+}
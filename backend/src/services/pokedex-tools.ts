@@ -0,0 +1,351 @@
+import { jsonSchema, tool } from 'ai';
+import { z } from 'zod';
+import { log } from '../utils/log';
+import { getPokedex, type PokedexEntry, type StatName } from './pokedex';
+import { getPokemonExtractor } from './pokemon-extractor';
+
+// AI SDK tools answering Pokémon questions from the bundled Pokédex, so types,
+// matchups and evolutions come from data instead of model memory.
+
+const STAT_LABELS: Record<StatName, string> = {
+  hp: 'HP',
+  atk: 'Attack',
+  def: 'Defense',
+  spa: 'Special Attack',
+  spd: 'Special Defense',
+  spe: 'Speed',
+};
+
+type Resolved = {
+  entry: PokedexEntry;
+  name: string; // species or form name, e.g. "Vulpix-Alola"
+  types: string[];
+};
+
+// ai@4 converts zod v3 schemas only; describe parameters with zod 4's own
+// JSON Schema output and validate the model's arguments with the same schema
+function parameters<T extends z.ZodType>(schema: T) {
+  // Some providers reject the "$schema" keyword in tool parameters
+  const { $schema: _dialect, ...json } = z.toJSONSchema(schema, {
+    target: 'draft-7',
+  });
+  return jsonSchema<z.infer<T>>(json as any, {
+    validate: (value) => {
+      const parsed = schema.safeParse(value);
+      return parsed.success
+        ? { success: true, value: parsed.data }
+        : { success: false, error: parsed.error };
+    },
+  });
+}
+
+// Exact name/alias first, then free-text matching for forms ("Alolan Vulpix")
+function resolvePokemon(name: string): Resolved | null {
+  const entry = getPokedex().getByName(name);
+  if (entry) return { entry, name: entry.name, types: entry.types };
+
+  const mention = getPokemonExtractor().extract(name)[0];
+  if (!mention) return null;
+  const base = getPokedex().getById(mention.id);
+  if (!base) return null;
+  const form = base.forms.find((f) => f.name === mention.form);
+  return form
+    ? { entry: base, name: form.name, types: form.types }
+    : { entry: base, name: base.name, types: base.types };
+}
+
+function notFound(name: string) {
+  return {
+    found: false as const,
+    message: `No Pokémon named "${name}" in the Pokédex`,
+  };
+}
+
+function resolveType(name: string): string | null {
+  const key = name.trim().toLowerCase();
+  return getPokedex().types.find((t) => t.toLowerCase() === key) || null;
+}
+
+function statTotal(entry: PokedexEntry): number {
+  return Object.values(entry.baseStats).reduce((sum, v) => sum + v, 0);
+}
+
+// How every attacking type fares against a defending type combination
+function defensiveProfile(types: string[]) {
+  const pokedex = getPokedex();
+  const profile = {
+    weaknesses: [] as Array<{ type: string; multiplier: number }>,
+    resistances: [] as Array<{ type: string; multiplier: number }>,
+    immunities: [] as string[],
+  };
+  for (const attacker of pokedex.types) {
+    const multiplier = pokedex.effectiveness(attacker, types);
+    if (multiplier === 0) profile.immunities.push(attacker);
+    else if (multiplier > 1)
+      profile.weaknesses.push({ type: attacker, multiplier });
+    else if (multiplier < 1)
+      profile.resistances.push({ type: attacker, multiplier });
+  }
+  profile.weaknesses.sort((a, b) => b.multiplier - a.multiplier);
+  profile.resistances.sort((a, b) => a.multiplier - b.multiplier);
+  return profile;
+}
+
+function describeEvolution(entry: PokedexEntry) {
+  const { method, level, item, condition } = entry.evolution;
+  return { method, level, item, condition };
+}
+
+export const lookupPokemon = tool({
+  description:
+    'Look up a Pokémon in the Pokédex: National Dex number, generation, types, abilities, base stats, weight, what it evolves from and into, and alternate forms. Use this before stating any fact about a specific Pokémon.',
+  parameters: parameters(
+    z.object({
+      name: z
+        .string()
+        .describe(
+          'Pokémon name as the caller said it, e.g. "Pikachu" or "Alolan Vulpix"'
+        ),
+    })
+  ),
+  execute: async ({ name }) => {
+    const resolved = resolvePokemon(name);
+    if (!resolved) return notFound(name);
+    const { entry } = resolved;
+    return {
+      found: true as const,
+      name: resolved.name,
+      species: entry.name,
+      nationalDex: entry.id,
+      generation: entry.generation,
+      types: resolved.types,
+      abilities: entry.abilities,
+      baseStats: Object.fromEntries(
+        (Object.keys(STAT_LABELS) as StatName[]).map((k) => [
+          STAT_LABELS[k],
+          entry.baseStats[k],
+        ])
+      ),
+      baseStatTotal: statTotal(entry),
+      weightKg: entry.weightKg,
+      evolvesFrom: entry.evolution.from,
+      evolvesInto: entry.evolution.to,
+      forms: entry.forms.map((f) => f.name),
+      // The dataset only has types per form
+      ...(resolved.name !== entry.name && {
+        note: `Abilities and base stats are those of ${entry.name}`,
+      }),
+    };
+  },
+});
+
+export const typeMatchup = tool({
+  description:
+    'Type effectiveness from the type chart. Give a defender (a Pokémon name, a type, or two types like "Water Flying") and optionally an attacking type. Returns the damage multiplier for that attacking type, or the defender\'s weaknesses, resistances and immunities.',
+  parameters: parameters(
+    z.object({
+      defender: z
+        .string()
+        .describe('Defending Pokémon name, or one or two type names'),
+      attackingType: z
+        .string()
+        .optional()
+        .describe('Attacking move type, e.g. "Electric"'),
+    })
+  ),
+  execute: async ({ defender, attackingType }) => {
+    const pokemon = resolvePokemon(defender);
+    const types = pokemon
+      ? pokemon.types
+      : defender
+          .split(/[\s/,&]+|\band\b/i)
+          .filter(Boolean)
+          .map(resolveType);
+    if (types.length === 0 || types.some((t) => t === null)) {
+      return {
+        found: false as const,
+        message: `"${defender}" is not a Pokémon or a type`,
+      };
+    }
+    const defenderTypes = types as string[];
+
+    if (attackingType) {
+      const attacker = resolveType(attackingType);
+      if (!attacker) {
+        return {
+          found: false as const,
+          message: `"${attackingType}" is not a type`,
+        };
+      }
+      return {
+        found: true as const,
+        defender: pokemon?.name ?? defenderTypes.join('/'),
+        defenderTypes,
+        attackingType: attacker,
+        multiplier: getPokedex().effectiveness(attacker, defenderTypes),
+      };
+    }
+
+    return {
+      found: true as const,
+      defender: pokemon?.name ?? defenderTypes.join('/'),
+      defenderTypes,
+      ...defensiveProfile(defenderTypes),
+    };
+  },
+});
+
+export const evolutionChain = tool({
+  description:
+    'Full evolution family of a Pokémon, from its first stage to its final evolutions, with how each evolution happens (level, item, trade, friendship or other condition).',
+  parameters: parameters(
+    z.object({
+      name: z.string().describe('Any Pokémon in the family'),
+    })
+  ),
+  execute: async ({ name }) => {
+    const resolved = resolvePokemon(name);
+    if (!resolved) return notFound(name);
+    const pokedex = getPokedex();
+
+    // Walk back to the first stage, then breadth-first through every branch
+    let root = resolved.entry;
+    const seen = new Set<number>([root.id]);
+    while (root.evolution.from) {
+      const previous = pokedex.getByName(root.evolution.from);
+      if (!previous || seen.has(previous.id)) break;
+      seen.add(previous.id);
+      root = previous;
+    }
+
+    const stages: Array<{
+      stage: number;
+      name: string;
+      types: string[];
+      evolvesFrom: string | null;
+      how: ReturnType<typeof describeEvolution> | null;
+    }> = [];
+    const queue: Array<{ entry: PokedexEntry; stage: number }> = [
+      { entry: root, stage: 1 },
+    ];
+    const visited = new Set<number>();
+    while (queue.length > 0) {
+      const { entry, stage } = queue.shift()!;
+      if (visited.has(entry.id)) continue;
+      visited.add(entry.id);
+      stages.push({
+        stage,
+        name: entry.name,
+        types: entry.types,
+        evolvesFrom: stage === 1 ? null : entry.evolution.from,
+        how: stage === 1 ? null : describeEvolution(entry),
+      });
+      for (const next of entry.evolution.to) {
+        const child = pokedex.getByName(next);
+        if (child) queue.push({ entry: child, stage: stage + 1 });
+      }
+    }
+
+    return {
+      found: true as const,
+      asked: resolved.entry.name,
+      evolves: stages.length > 1,
+      stages,
+    };
+  },
+});
+
+export const comparePokemon = tool({
+  description:
+    'Compare two or three Pokémon side by side: types, base stats and totals, which one is higher in each stat, and how their types match up against each other.',
+  parameters: parameters(
+    z.object({
+      names: z
+        .array(z.string())
+        .min(2)
+        .max(3)
+        .describe('Pokémon names to compare'),
+    })
+  ),
+  execute: async ({ names }) => {
+    const resolved = names.map((n) => ({
+      asked: n,
+      pokemon: resolvePokemon(n),
+    }));
+    const missing = resolved.filter((r) => !r.pokemon).map((r) => r.asked);
+    if (missing.length > 0) {
+      return {
+        found: false as const,
+        message: `Not in the Pokédex: ${missing.join(', ')}`,
+      };
+    }
+    const pokemon = resolved.map((r) => r.pokemon!);
+    const pokedex = getPokedex();
+
+    const statLeaders = Object.fromEntries(
+      (Object.keys(STAT_LABELS) as StatName[]).map((stat) => {
+        const best = Math.max(...pokemon.map((p) => p.entry.baseStats[stat]));
+        const leaders = pokemon
+          .filter((p) => p.entry.baseStats[stat] === best)
+          .map((p) => p.name);
+        return [
+          STAT_LABELS[stat],
+          leaders.length === pokemon.length ? 'tie' : leaders.join(', '),
+        ];
+      })
+    );
+
+    // Best multiplier each one's own types deal to each other one
+    const matchups = pokemon.flatMap((attacker) =>
+      pokemon
+        .filter((defender) => defender !== attacker)
+        .map((defender) => ({
+          attacker: attacker.name,
+          defender: defender.name,
+          bestMultiplier: Math.max(
+            ...attacker.types.map((t) =>
+              pokedex.effectiveness(t, defender.types)
+            )
+          ),
+        }))
+    );
+
+    return {
+      found: true as const,
+      pokemon: pokemon.map((p) => ({
+        name: p.name,
+        types: p.types,
+        baseStats: Object.fromEntries(
+          (Object.keys(STAT_LABELS) as StatName[]).map((k) => [
+            STAT_LABELS[k],
+            p.entry.baseStats[k],
+          ])
+        ),
+        baseStatTotal: statTotal(p.entry),
+      })),
+      statLeaders,
+      matchups,
+    };
+  },
+});
+
+export const pokedexTools = {
+  lookup_pokemon: lookupPokemon,
+  type_matchup: typeMatchup,
+  evolution_chain: evolutionChain,
+  compare_pokemon: comparePokemon,
+};
+
+export type PokedexToolName = keyof typeof pokedexTools;
+
+// Logged from streamText's onStepFinish; the results themselves are never spoken
+export function logToolCalls(
+  toolCalls: Array<{ toolName: string; args: unknown }>
+) {
+  for (const call of toolCalls) {
+    log.debug('[ai] Pokédex tool call', {
+      tool: call.toolName,
+      args: call.args,
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { log } from '../utils/log';
+
+// Bundled offline Pokédex (regenerate with `bun run pokedex:build`)
+
+export type StatName = 'hp' | 'atk' | 'def' | 'spa' | 'spd' | 'spe';
+
+export interface PokemonForm {
+  name: string; // e.g. "Vulpix-Alola"
+  form: string; // e.g. "Alola"
+  types: string[];
+  aliases: string[];
+}
+
+export interface PokedexEntry {
+  id: number; // National Pokédex number
+  name: string;
+  generation: number;
+  types: string[];
+  abilities: string[];
+  baseStats: Record<StatName, number>;
+  weightKg: number;
+  evolution: {
+    from: string | null;
+    to: string[];
+    method: string | null;
+    level: number | null;
+    item: string | null;
+    condition: string | null;
+  };
+  aliases: string[];
+  ambiguous: boolean; // also a common English word ("Ditto", "Gloom")
+  forms: PokemonForm[];
+}
+
+export interface PokedexData {
+  version: string;
+  source: string;
+  types: string[];
+  // attacker -> defender -> multiplier (only non-neutral pairs are listed)
+  typeChart: Record<string, Record<string, number>>;
+  pokemon: PokedexEntry[];
+}
+
+/**
+ * Normalize a name or free text for matching: strips diacritics and
+ * punctuation, lowercases, and collapses whitespace.
+ * "Farfetch’d" -> "farfetchd", "Ho-Oh" -> "ho oh", "Flabébé" -> "flabebe"
+ */
+export function normalizeName(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/♀/g, ' f ')
+    .replace(/♂/g, ' m ')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+class Pokedex {
+  readonly version: string;
+  readonly types: string[];
+  private entries: PokedexEntry[];
+  private byId = new Map<number, PokedexEntry>();
+  private byName = new Map<string, PokedexEntry>();
+  private typeChart: PokedexData['typeChart'];
+
+  constructor(data: PokedexData) {
+    this.version = data.version;
+    this.types = data.types;
+    this.typeChart = data.typeChart;
+    this.entries = data.pokemon;
+    for (const entry of this.entries) {
+      this.byId.set(entry.id, entry);
+      for (const key of this.namesFor(entry)) {
+        // First (lowest dex number) entry wins on alias collisions
+        if (!this.byName.has(key)) this.byName.set(key, entry);
+      }
+    }
+  }
+
+  all(): PokedexEntry[] {
+    return this.entries;
+  }
+
+  getById(id: number): PokedexEntry | null {
+    return this.byId.get(id) || null;
+  }
+
+  // Case/diacritic/punctuation-insensitive lookup by name or alias
+  getByName(name: string): PokedexEntry | null {
+    const key = normalizeName(name);
+    return this.byName.get(key) || this.byName.get(key.replace(/ /g, '')) || null;
+  }
+
+  // Every normalized name and alias for an entry, excluding forms
+  namesFor(entry: PokedexEntry): string[] {
+    const keys = new Set<string>();
+    for (const raw of [entry.name, ...entry.aliases]) {
+      const key = normalizeName(raw);
+      if (!key) continue;
+      keys.add(key);
+      keys.add(key.replace(/ /g, '')); // "ho oh" also matches "hooh"
+    }
+    return Array.from(keys);
+  }
+
+  // Damage multiplier of an attacking type against one or two defending types
+  effectiveness(attackType: string, defenderTypes: string[]): number {
+    const row = this.typeChart[attackType] || {};
+    return defenderTypes.reduce((m, t) => m * (row[t] ?? 1), 1);
+  }
+}
+
+let pokedex: Pokedex | null = null;
+
+export function getPokedex(): Pokedex {
+  if (!pokedex) {
+    const dataPath = join(__dirname, '..', 'data', 'pokedex.json');
+    const data = JSON.parse(readFileSync(dataPath, 'utf-8')) as PokedexData;
+    pokedex = new Pokedex(data);
+    log.debug('[pokedex] Loaded dataset', {
+      version: data.version,
+      count: data.pokemon.length,
+    });
+  }
+  return pokedex;
+}
+
+export type { Pokedex };
@@ -0,0 +1,134 @@
+import { getPokedex, normalizeName, type PokedexEntry } from './pokedex';
+
+export interface PokemonMention {
+  name: string; // canonical species name, e.g. "Mr. Mime"
+  id: number; // National Pokédex number
+  form: string | null; // e.g. "Vulpix-Alola" when a form was named
+  surface: string; // text as it appeared in the input
+  index: number; // character offset of the mention in the input
+}
+
+type PhraseTarget = {
+  entry: PokedexEntry;
+  form: string | null;
+};
+
+type Token = {
+  norm: string;
+  start: number;
+  end: number;
+  capitalized: boolean;
+};
+
+// Words and word-internal apostrophes/gender symbols ("Farfetch'd", "Nidoran♀")
+const WORD_PATTERN = /[\p{L}\p{N}♀♂]+(?:['’][\p{L}]+)*/gu;
+
+/**
+ * Finds Pokémon names in free text using the bundled Pokédex. Matching is
+ * case/diacritic-insensitive and prefers the longest phrase, so multi-word
+ * names ("Mr. Mime", "Type: Null") and forms ("Alolan Vulpix") win over
+ * their single-word prefixes.
+ */
+class PokemonExtractor {
+  private phrases = new Map<string, PhraseTarget>();
+  private maxPhraseTokens = 1;
+
+  constructor() {
+    const pokedex = getPokedex();
+    for (const entry of pokedex.all()) {
+      for (const key of pokedex.namesFor(entry)) {
+        this.addPhrase(key, { entry, form: null });
+      }
+      for (const form of entry.forms) {
+        for (const alias of form.aliases) {
+          this.addPhrase(normalizeName(alias), { entry, form: form.name });
+        }
+      }
+    }
+  }
+
+  private addPhrase(key: string, target: PhraseTarget) {
+    if (!key || this.phrases.has(key)) return;
+    this.phrases.set(key, target);
+    this.maxPhraseTokens = Math.max(
+      this.maxPhraseTokens,
+      key.split(' ').length
+    );
+  }
+
+  // All mentions in order of appearance (duplicates included)
+  extract(text: string): PokemonMention[] {
+    if (!text) return [];
+    const tokens = tokenize(text);
+    const mentions: PokemonMention[] = [];
+
+    let i = 0;
+    while (i < tokens.length) {
+      const match = this.matchAt(tokens, i);
+      if (!match) {
+        i++;
+        continue;
+      }
+      const first = tokens[i];
+      const last = tokens[i + match.length - 1];
+      mentions.push({
+        name: match.target.entry.name,
+        id: match.target.entry.id,
+        form: match.target.form,
+        surface: text.slice(first.start, last.end),
+        index: first.start,
+      });
+      i += match.length;
+    }
+    return mentions;
+  }
+
+  // Unique canonical names in order of first appearance
+  extractNames(text: string): string[] {
+    return Array.from(new Set(this.extract(text).map((m) => m.name)));
+  }
+
+  private matchAt(
+    tokens: Token[],
+    start: number
+  ): { target: PhraseTarget; length: number } | null {
+    const maxLen = Math.min(this.maxPhraseTokens, tokens.length - start);
+    for (let len = maxLen; len >= 1; len--) {
+      const words = tokens.slice(start, start + len).map((t) => t.norm);
+      const target =
+        this.phrases.get(words.join(' ')) ||
+        (len > 1 ? this.phrases.get(words.join('')) : undefined);
+      if (!target) continue;
+      // "gloom" or "ditto" in lowercase is almost always the English word
+      if (target.entry.ambiguous && !tokens[start].capitalized) continue;
+      return { target, length: len };
+    }
+    return null;
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(WORD_PATTERN)) {
+    // Drop possessives so "Charizard's" matches "Charizard"
+    const word = m[0].replace(/['’]s$/i, '');
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+    const capitalized = /^\p{Lu}/u.test(word);
+    // A single surface word can normalize to several ("Nidoran♀" -> "nidoran f")
+    for (const norm of normalizeName(word).split(' ')) {
+      if (norm) tokens.push({ norm, start, end, capitalized });
+    }
+  }
+  return tokens;
+}
+
+// Singleton instance
+let extractor: PokemonExtractor | null = null;
+
+export function getPokemonExtractor(): PokemonExtractor {
+  if (!extractor) {
+    extractor = new PokemonExtractor();
+  }
+  return extractor;
+}
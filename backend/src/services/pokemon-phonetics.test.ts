@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { getPokemonNameCorrector } from './pokemon-phonetics';
+
+const corrector = getPokemonNameCorrector();
+
+describe('PokemonNameCorrector', () => {
+  test.each([
+    ['tell me about pick a chew', 'tell me about Pikachu'],
+    ['is bulba sore a grass type', 'is Bulbasaur a grass type'],
+    ['how strong is char is ard', 'how strong is Charizard'],
+    ['what is drag a night weak to', 'what is Dragonite weak to'],
+    ['what type is gar chomp', 'what type is Garchomp'],
+  ])('fixes "%s"', (heard, expected) => {
+    expect(corrector.correct(heard).text).toBe(expected);
+  });
+
+  test('reports what was heard', () => {
+    expect(corrector.correct('Pick a chew, please').corrections).toEqual([
+      { heard: 'Pick a chew', name: 'Pikachu' },
+    ]);
+  });
+
+  test.each([
+    'is it an electric type',
+    'what does a fire stone do',
+    'use a thunder stone',
+    'what about iron',
+    'it is so little',
+    'the little one',
+    'a storm is coming',
+    'my horse',
+    'it was a big one',
+    'I am on my way back on Monday',
+    'what version is this',
+    'set, an error is shown',
+  ])('leaves "%s" alone', (text) => {
+    expect(corrector.correct(text)).toEqual({ text, corrections: [] });
+  });
+
+  test('keeps names that are already spelled right', () => {
+    const text = 'Is Pikachu faster than Mr. Mime?';
+    expect(corrector.correct(text)).toEqual({ text, corrections: [] });
+  });
+
+  test('hints are a short list of species names', () => {
+    const hints = corrector.hints();
+    expect(hints).toContain('Pikachu');
+    expect(hints.length).toBeLessThan(100);
+    expect(hints.join(',').length).toBeLessThan(1000);
+  });
+});
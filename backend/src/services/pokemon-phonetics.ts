@@ -0,0 +1,407 @@
+import { getPokedex, normalizeName } from './pokedex';
+import { getPokemonExtractor } from './pokemon-extractor';
+
+export interface NameCorrection {
+  heard: string; // text as transcribed, e.g. "pick a chew"
+  name: string; // canonical species name, e.g. "Pikachu"
+}
+
+export interface CorrectedText {
+  text: string;
+  corrections: NameCorrection[];
+}
+
+type Candidate = {
+  name: string;
+  spelling: string; // normalized name without spaces
+};
+
+type Token = {
+  norm: string;
+  start: number;
+  end: number;
+  spaced: boolean; // only whitespace since the previous word
+};
+
+// Speech-to-text often splits a name into English words ("pick a chew",
+// "char is ard"). Runs of two to three words are joined and compared to
+// names. A single word that sounds like a name is nearly always an ordinary
+// one ("iron" -> Aron, "version" -> Virizion); names the transcriber spells
+// as one word are left to the extractor.
+const MIN_SPAN_WORDS = 2;
+const MAX_SPAN_WORDS = 3;
+// Shorter phonetic keys ("Mew" -> MF) match too many ordinary words
+const MIN_KEY_LENGTH = 3;
+// Allowed edit distance, as a share of the name's length, and allowed
+// difference in length ("pickachew" for "pikachu" is 2 letters longer)
+const MAX_DISTANCE_RATIO = 0.45;
+const MAX_LENGTH_DIFFERENCE = 2;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+// Words that open or close a phrase rather than a name: a run starting or
+// ending with one belongs to the sentence ("is bulba sore a", "a big one",
+// "back on")
+const SENTENCE_WORDS = new Set(
+  (
+    'a an the i me my you your he him his she her it its we us our they them ' +
+    'their this that these those there here one to of in on at by for from ' +
+    'with as into about and or but so if than then is are was were be been ' +
+    'am do does did has have had can could will would should not no now'
+  ).split(' ')
+);
+
+// Speech hints for ConversationRelay: often-asked names that transcribers
+// tend to split or misspell. All 1025 names would add ~9k characters to
+// every TwiML response and dilute the hints, so this is a short list.
+const HINT_NAMES = [
+  'Pikachu',
+  'Raichu',
+  'Bulbasaur',
+  'Ivysaur',
+  'Venusaur',
+  'Charmander',
+  'Charmeleon',
+  'Charizard',
+  'Squirtle',
+  'Wartortle',
+  'Blastoise',
+  'Butterfree',
+  'Jigglypuff',
+  'Meowth',
+  'Psyduck',
+  'Machamp',
+  'Geodude',
+  'Gengar',
+  'Onix',
+  'Cubone',
+  'Magikarp',
+  'Gyarados',
+  'Lapras',
+  'Eevee',
+  'Vaporeon',
+  'Jolteon',
+  'Flareon',
+  'Snorlax',
+  'Articuno',
+  'Zapdos',
+  'Moltres',
+  'Dragonite',
+  'Mewtwo',
+  'Togepi',
+  'Umbreon',
+  'Espeon',
+  'Tyranitar',
+  'Lugia',
+  'Ho-Oh',
+  'Celebi',
+  'Blaziken',
+  'Gardevoir',
+  'Rayquaza',
+  'Lucario',
+  'Garchomp',
+  'Darkrai',
+  'Arceus',
+  'Zoroark',
+  'Greninja',
+  'Sylveon',
+  'Mimikyu',
+  'Decidueye',
+  'Incineroar',
+  'Zacian',
+  'Corviknight',
+  'Sprigatito',
+  'Fuecoco',
+  'Quaxly',
+  'Koraidon',
+  'Miraidon',
+];
+
+/**
+ * Rewrites misheard Pokémon names in transcripts. Each run of two or three
+ * words is reduced to a Metaphone-style phonetic key; a run whose key
+ * equals a Pokémon name's key and whose spelling is within a small edit
+ * distance of it is replaced by the name. Names the extractor recognizes
+ * are kept, but joined when they were split ("gar chomp" -> "Garchomp").
+ */
+class PokemonNameCorrector {
+  private byKey = new Map<string, Candidate[]>();
+  private hintNames: string[];
+  // Type and evolution item words ("electric", "stone") are never part of
+  // a misheard name
+  private reserved = new Set<string>();
+
+  constructor() {
+    const pokedex = getPokedex();
+    this.hintNames = HINT_NAMES.filter((name) => pokedex.getByName(name));
+    for (const type of pokedex.types) this.reserved.add(normalizeName(type));
+    for (const entry of pokedex.all()) {
+      for (const word of normalizeName(entry.evolution.item ?? '').split(' ')) {
+        if (word) this.reserved.add(word);
+      }
+      // Words like "Gloom" or "Ditto" are real words; never rewrite to them
+      if (entry.ambiguous) continue;
+      const spelling = normalizeName(entry.name).replace(/ /g, '');
+      const key = phoneticKey(spelling);
+      if (key.length < MIN_KEY_LENGTH) continue;
+      const candidates = this.byKey.get(key) ?? [];
+      candidates.push({ name: entry.name, spelling });
+      this.byKey.set(key, candidates);
+    }
+  }
+
+  // Names for ConversationRelay speech hints
+  hints(): string[] {
+    return this.hintNames;
+  }
+
+  correct(text: string): CorrectedText {
+    if (!text) return { text, corrections: [] };
+    const tokens = tokenize(text);
+    const mentions = getPokemonExtractor().extract(text);
+    const known = mentions.map((m): [number, number] => [
+      m.index,
+      m.index + m.surface.length,
+    ]);
+    const replacements: Array<{ start: number; end: number; name: string }> =
+      [];
+
+    // Single-word names heard as several words
+    for (const m of mentions) {
+      if (m.form || !/\s/.test(m.surface) || /\s/.test(m.name)) continue;
+      const end = m.index + m.surface.length;
+      replacements.push({ start: m.index, end, name: m.name });
+    }
+
+    let i = 0;
+    while (i < tokens.length) {
+      const match = this.matchAt(tokens, i, known);
+      if (!match) {
+        i++;
+        continue;
+      }
+      const start = tokens[i].start;
+      const end = tokens[i + match.length - 1].end;
+      replacements.push({ start, end, name: match.name });
+      i += match.length;
+    }
+
+    replacements.sort((a, b) => a.start - b.start);
+    const corrections: NameCorrection[] = [];
+    let output = '';
+    let copied = 0;
+    for (const { start, end, name } of replacements) {
+      corrections.push({ heard: text.slice(start, end), name });
+      output += text.slice(copied, start) + name;
+      copied = end;
+    }
+    return { text: output + text.slice(copied), corrections };
+  }
+
+  // Longest run of words starting at `start` that sounds like a name
+  private matchAt(
+    tokens: Token[],
+    start: number,
+    known: Array<[number, number]>
+  ): { name: string; length: number } | null {
+    const maxLen = Math.min(MAX_SPAN_WORDS, tokens.length - start);
+    for (let len = maxLen; len >= MIN_SPAN_WORDS; len--) {
+      const span = tokens.slice(start, start + len);
+      const from = span[0].start;
+      const to = span[len - 1].end;
+      if (known.some(([s, e]) => from < e && s < to)) continue;
+      if (
+        span.slice(1).some((t) => !t.spaced) ||
+        span.some((t) => this.reserved.has(t.norm)) ||
+        SENTENCE_WORDS.has(span[0].norm) ||
+        SENTENCE_WORDS.has(span[len - 1].norm)
+      ) {
+        continue;
+      }
+
+      const heard = span.map((t) => t.norm).join('');
+      const candidates = this.byKey.get(phoneticKey(heard));
+      if (!candidates) continue;
+
+      let best: Candidate | null = null;
+      let bestDistance = Infinity;
+      let tied = false;
+      for (const candidate of candidates) {
+        const { spelling } = candidate;
+        const distance = editDistance(heard, spelling);
+        if (
+          distance > spelling.length * MAX_DISTANCE_RATIO ||
+          Math.abs(heard.length - spelling.length) > MAX_LENGTH_DIFFERENCE
+        ) {
+          continue;
+        }
+        if (distance < bestDistance) {
+          best = candidate;
+          bestDistance = distance;
+          tied = false;
+        } else if (distance === bestDistance) {
+          tied = true;
+        }
+      }
+      // An exact spelling is a name the extractor already accepted or
+      // rejected; a tie cannot be resolved
+      if (best && bestDistance > 0 && !tied) {
+        return { name: best.name, length: len };
+      }
+    }
+    return null;
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(WORD_PATTERN)) {
+    const norm = normalizeName(m[0]).replace(/ /g, '');
+    const start = m.index ?? 0;
+    if (!norm) continue;
+    const previous = tokens[tokens.length - 1];
+    const spaced = !!previous && /^\s+$/.test(text.slice(previous.end, start));
+    tokens.push({ norm, start, end: start + m[0].length, spaced });
+  }
+  return tokens;
+}
+
+const VOWELS = 'aeiou';
+
+/**
+ * Simplified Metaphone: consonant skeleton of how an English speaker would
+ * pronounce `word` (lowercase a-z). "pickachew" and "pikachu" -> PKX,
+ * "charisard" and "charizard" -> XRSRT.
+ */
+function phoneticKey(word: string): string {
+  let w = word.replace(/[^a-z]/g, '');
+  if (/^(kn|gn|pn|wr|ps)/.test(w)) w = w.slice(1);
+  if (w.startsWith('x')) w = `s${w.slice(1)}`;
+  if (w.startsWith('wh')) w = `w${w.slice(2)}`;
+
+  const isVowel = (i: number) => i < w.length && VOWELS.includes(w[i]);
+  let key = '';
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i];
+    const next = w[i + 1] ?? '';
+    // Doubled letters sound once
+    if (c === w[i - 1] && c !== 'c') continue;
+    let code = '';
+    switch (c) {
+      case 'a':
+      case 'e':
+      case 'i':
+      case 'o':
+      case 'u':
+        if (i === 0) code = 'A';
+        break;
+      case 'b':
+        if (!(w[i - 1] === 'm' && i === w.length - 1)) code = 'B';
+        break;
+      case 'c':
+        if (next === 'h') {
+          code = w[i - 1] === 's' ? 'K' : 'X';
+          i++;
+        } else if ('iey'.includes(next) && next) {
+          code = 'S';
+        } else {
+          code = 'K';
+          if (next === 'k' || next === 'q') i++;
+        }
+        break;
+      case 'd':
+        code = next === 'g' && 'iey'.includes(w[i + 2] ?? 'x') ? 'J' : 'T';
+        break;
+      case 'g':
+        if (next === 'h' && !isVowel(i + 2)) {
+          i++;
+        } else if (next === 'n' && i + 2 >= w.length) {
+          // silent, as in "sign"
+        } else if ('iey'.includes(next) && next) {
+          code = 'J';
+        } else {
+          code = 'K';
+        }
+        break;
+      case 'h':
+        if (isVowel(i + 1) && !'csptg'.includes(w[i - 1] || 'x')) code = 'H';
+        break;
+      case 'k':
+        if (w[i - 1] !== 'c') code = 'K';
+        break;
+      case 'p':
+        if (next === 'h') {
+          code = 'F';
+          i++;
+        } else {
+          code = 'P';
+        }
+        break;
+      case 'q':
+        code = 'K';
+        break;
+      case 's':
+        if (next === 'h') {
+          code = 'X';
+          i++;
+        } else {
+          code = 'S';
+        }
+        break;
+      case 't':
+        if (next === 'h') {
+          code = '0';
+          i++;
+        } else if (next === 'i' && 'ao'.includes(w[i + 2] ?? 'x')) {
+          code = 'X';
+        } else if (!(next === 'c' && w[i + 2] === 'h')) {
+          code = 'T';
+        }
+        break;
+      case 'v':
+        code = 'F';
+        break;
+      case 'w':
+      case 'y':
+        if (isVowel(i + 1)) code = c.toUpperCase();
+        break;
+      case 'x':
+        code = 'KS';
+        break;
+      case 'z':
+        code = 'S';
+        break;
+      default:
+        code = c.toUpperCase(); // f j l m n r
+    }
+    if (code && !key.endsWith(code)) key += code;
+  }
+  return key;
+}
+
+// Levenshtein distance
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Singleton instance
+let corrector: PokemonNameCorrector | null = null;
+
+export function getPokemonNameCorrector(): PokemonNameCorrector {
+  if (!corrector) {
+    corrector = new PokemonNameCorrector();
+  }
+  return corrector;
+}
@@ -0,0 +1,248 @@
+import { createOpenAI, type OpenAIProvider } from '@ai-sdk/openai';
+import { getEnv } from '../config/env';
+import { log } from '../utils/log';
+import { getMockLlm } from './mock-llm';
+
+// Text-model providers selected by PROVIDER. Every use case resolves to a
+// provider plus a model id that provider is known to serve; unknown ids are
+// rejected instead of being swapped for another model behind the caller's back.
+// Vision stays on OpenAI (see identifyPokemonFromImageUrl in ai.ts) except
+// with the offline mock provider (services/mock-llm.ts).
+
+export const PROVIDER_NAMES = [
+  'groq',
+  'openai',
+  'openai-compatible',
+  'mock',
+] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+// chat = streamed answers; reasoner = action decisions; image_reply = the
+// sentence spoken after an image is recognized
+export type TextUseCase = 'chat' | 'reasoner' | 'image_reply';
+
+export class UnsupportedModelError extends Error {
+  constructor(
+    readonly provider: ProviderName,
+    readonly modelId: string,
+    supported: string
+  ) {
+    super(
+      `Model "${modelId}" is not supported by provider "${provider}". ${supported}`
+    );
+    this.name = 'UnsupportedModelError';
+  }
+}
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+interface ProviderDefinition {
+  defaultModel?: string;
+  baseURL(): string | undefined;
+  apiKey(): string | undefined;
+  // Normalized model id, or an UnsupportedModelError
+  resolveModel(modelId: string): string;
+  // JSON Schema response_format (used by the reasoner's structured calls)
+  supportsStructuredOutputs(modelId: string): boolean;
+}
+
+// Groq models we have verified; the first group supports Structured Outputs
+const GROQ_STRUCTURED_MODELS = [
+  'openai/gpt-oss-20b',
+  'openai/gpt-oss-120b',
+  'moonshotai/kimi-k2-instruct',
+  'moonshotai/kimi-k2-instruct-0905',
+  'meta-llama/llama-4-maverick-17b-128e-instruct',
+  'meta-llama/llama-4-scout-17b-16e-instruct',
+];
+const GROQ_MODELS = [
+  ...GROQ_STRUCTURED_MODELS,
+  'llama-3.1-8b-instant',
+  'llama-3.3-70b-versatile',
+];
+
+// OpenAI chat model families; "openai/gpt-4o-mini" is accepted as well
+const OPENAI_MODEL_PATTERN = /^(?:gpt-|o\d|chatgpt-)/i;
+
+const PROVIDERS: Record<ProviderName, ProviderDefinition> = {
+  groq: {
+    defaultModel: 'openai/gpt-oss-20b',
+    baseURL: () => 'https://api.groq.com/openai/v1',
+    apiKey: () => getEnv().GROQ_API_KEY,
+    resolveModel(modelId) {
+      const match = GROQ_MODELS.find(
+        (m) => m.toLowerCase() === modelId.toLowerCase()
+      );
+      if (!match) {
+        throw new UnsupportedModelError(
+          'groq',
+          modelId,
+          `Supported: ${GROQ_MODELS.join(', ')}`
+        );
+      }
+      return match;
+    },
+    supportsStructuredOutputs: (modelId) =>
+      GROQ_STRUCTURED_MODELS.includes(modelId),
+  },
+  openai: {
+    defaultModel: 'gpt-4o-mini',
+    baseURL: () => undefined, // SDK default
+    apiKey: () => getEnv().OPENAI_API_KEY,
+    resolveModel(modelId) {
+      const id = modelId.replace(/^openai\//i, '');
+      // "openai/gpt-oss-20b" is an open-weight model served by Groq, not OpenAI
+      if (!OPENAI_MODEL_PATTERN.test(id) || /^gpt-oss/i.test(id)) {
+        throw new UnsupportedModelError(
+          'openai',
+          modelId,
+          'Use an OpenAI chat model such as gpt-4o-mini or gpt-4.1.'
+        );
+      }
+      return id;
+    },
+    supportsStructuredOutputs: () => true,
+  },
+  'openai-compatible': {
+    // Local servers (Ollama, llama.cpp, vLLM) serve whatever they have loaded
+    baseURL: () => getEnv().OPENAI_COMPATIBLE_BASE_URL,
+    apiKey: () => getEnv().OPENAI_COMPATIBLE_API_KEY,
+    resolveModel: (modelId) => modelId,
+    supportsStructuredOutputs: () =>
+      getEnv().OPENAI_COMPATIBLE_STRUCTURED_OUTPUTS,
+  },
+  mock: {
+    // Scripted replies; the model id is only reported back
+    defaultModel: 'mock',
+    baseURL: () => undefined,
+    apiKey: () => undefined,
+    resolveModel: (modelId) => modelId,
+    supportsStructuredOutputs: () => false,
+  },
+};
+
+export interface ResolvedTextModel {
+  provider: ProviderName;
+  modelId: string;
+  baseURL: string; // for raw chat/completions calls
+  apiKey: string | undefined;
+  structuredOutputs: boolean;
+}
+
+function configuredModelId(
+  useCase: TextUseCase,
+  provider: ProviderName
+): string | undefined {
+  const env = getEnv();
+  // The fallback provider serves every use case with one model
+  if (provider !== env.PROVIDER) {
+    return env.FALLBACK_AI_MODEL || PROVIDERS[provider].defaultModel;
+  }
+  const perUseCase =
+    useCase === 'reasoner'
+      ? env.AI_REASONER_MODEL
+      : useCase === 'image_reply'
+        ? env.AI_IMAGE_REPLY_MODEL
+        : undefined;
+  return perUseCase || env.AI_MODEL || PROVIDERS[provider].defaultModel;
+}
+
+// PROVIDER first, then FALLBACK_PROVIDER when set (services/failover.ts)
+export function textProviderChain(): ProviderName[] {
+  const { PROVIDER, FALLBACK_PROVIDER } = getEnv();
+  return FALLBACK_PROVIDER && FALLBACK_PROVIDER !== PROVIDER
+    ? [PROVIDER, FALLBACK_PROVIDER]
+    : [PROVIDER];
+}
+
+/**
+ * Provider and model for a use case: AI_REASONER_MODEL / AI_IMAGE_REPLY_MODEL
+ * when set, else AI_MODEL, else the provider's default. For the fallback
+ * provider: FALLBACK_AI_MODEL, else its default.
+ * Throws UnsupportedModelError or ProviderConfigError when misconfigured.
+ */
+export function resolveTextModel(
+  useCase: TextUseCase = 'chat',
+  provider: ProviderName = getEnv().PROVIDER
+): ResolvedTextModel {
+  const definition = PROVIDERS[provider];
+  const baseURL = definition.baseURL();
+  if (provider === 'openai-compatible' && !baseURL) {
+    throw new ProviderConfigError(
+      'The openai-compatible provider requires OPENAI_COMPATIBLE_BASE_URL (e.g. http://localhost:11434/v1)'
+    );
+  }
+  const configured = configuredModelId(useCase, provider);
+  if (!configured) {
+    const variable =
+      provider === getEnv().PROVIDER ? 'AI_MODEL' : 'FALLBACK_AI_MODEL';
+    throw new ProviderConfigError(
+      `No model configured for "${useCase}"; set ${variable} for provider "${provider}"`
+    );
+  }
+  const modelId = definition.resolveModel(configured.trim());
+  return {
+    provider,
+    modelId,
+    baseURL: (baseURL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    apiKey: definition.apiKey(),
+    structuredOutputs: definition.supportsStructuredOutputs(modelId),
+  };
+}
+
+const clients = new Map<ProviderName, OpenAIProvider>();
+
+function clientFor(provider: ProviderName): OpenAIProvider {
+  let client = clients.get(provider);
+  if (!client) {
+    const definition = PROVIDERS[provider];
+    client = createOpenAI({
+      name: provider,
+      baseURL: definition.baseURL(),
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey:
+        definition.apiKey() ||
+        (provider === 'openai-compatible' ? 'not-needed' : undefined),
+      compatibility: provider === 'openai' ? 'strict' : 'compatible',
+    });
+    clients.set(provider, client);
+  }
+  return client;
+}
+
+// AI SDK language model for a use case
+export function selectTextModel(
+  useCase: TextUseCase = 'chat',
+  provider?: ProviderName
+) {
+  const resolved = resolveTextModel(useCase, provider);
+  if (resolved.provider === 'mock') {
+    return getMockLlm().model(useCase, resolved.modelId);
+  }
+  return clientFor(resolved.provider)(resolved.modelId);
+}
+
+// Startup check so a typo in a model id fails at boot, not on the first call
+export function assertTextModelsConfigured() {
+  for (const provider of textProviderChain()) {
+    const resolved = (['chat', 'reasoner', 'image_reply'] as const).map(
+      (useCase) => ({ useCase, ...resolveTextModel(useCase, provider) })
+    );
+    if (provider === 'mock') {
+      getMockLlm(); // fixture errors surface at startup
+    } else if (!resolved[0].apiKey && provider !== 'openai-compatible') {
+      log.warn(
+        `[providers] No API key for "${provider}"; text requests will fail`
+      );
+    }
+    log.info('[providers] Text models', {
+      provider,
+      ...Object.fromEntries(resolved.map((r) => [r.useCase, r.modelId])),
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { getLocale, type LanguageCode } from '../utils/locales';
+import { CallStateMachine } from './call-state';
+import { getReasonerActions, type ActionContext } from './reasoner-actions';
+
+function context(
+  language: LanguageCode,
+  overrides: Partial<ActionContext> = {}
+): ActionContext & { spoken: string[] } {
+  const spoken: string[] = [];
+  return {
+    spoken,
+    call: new CallStateMachine(() => ({}), language),
+    phoneNumber: null,
+    canReceiveImages: false,
+    speak: (message) => spoken.push(message),
+    lastAnswer: () => null,
+    switchLanguage: () => '',
+    handOff: () => null,
+    endCall: () => true,
+    ...overrides,
+  };
+}
+
+async function run(name: string, ctx: ActionContext, reply = '') {
+  return getReasonerActions().get(name)!.handle(ctx, { reply, payload: null });
+}
+
+describe('reasoner actions', () => {
+  test('repeat speaks the last answer word for word', async () => {
+    const ctx = context('en', { lastAnswer: () => 'Pikachu is Electric.' });
+    expect(await run('repeat', ctx)).toBe('Pikachu is Electric.');
+    expect(ctx.spoken).toEqual(['Pikachu is Electric.']);
+  });
+
+  test('repeat without an answer replies in the call language', async () => {
+    const ctx = context('es');
+    expect(await run('repeat', ctx)).toBe(getLocale('es').nothingToRepeat);
+  });
+
+  test('send_sms explains what it could not text, in the call language', async () => {
+    expect(await run('send_sms', context('fr'))).toBe(
+      getLocale('fr').smsNothingToSend
+    );
+    const noNumber = context('de', { lastAnswer: () => 'Pikachu.' });
+    expect(await run('send_sms', noNumber)).toBe(getLocale('de').smsNoNumber);
+    expect(noNumber.spoken).toEqual([getLocale('de').smsNoNumber]);
+  });
+
+  test('wait_for_image asks for a photo once, then says it is waiting', async () => {
+    const ctx = context('es', { canReceiveImages: true });
+    ctx.call.send({
+      type: 'setup',
+      callerName: 'Misty',
+      canCaptureName: true,
+      language: 'es',
+    });
+    const reply = getLocale('es').photoRequested;
+    expect(await run('wait_for_image', ctx, reply)).toBe(reply);
+    expect(ctx.call.phase).toBe('awaiting_image');
+    expect(await run('wait_for_image', ctx, reply)).toBe(
+      getLocale('es').waitingForPhoto
+    );
+  });
+
+  test('wait_for_image does nothing when photos cannot reach the call', async () => {
+    const ctx = context('en');
+    expect(await run('wait_for_image', ctx, 'Send it!')).toBeNull();
+    expect(ctx.spoken).toEqual([]);
+  });
+
+  test('payloads are validated against the action schema', () => {
+    const actions = getReasonerActions();
+    expect(actions.parsePayload('switch_language', { language: 'fr' })).toEqual(
+      { payload: { language: 'fr' } }
+    );
+    expect(
+      actions.parsePayload('switch_language', { language: 'xx' })
+    ).toHaveProperty('error');
+    expect(actions.parsePayload('repeat', { any: 1 })).toEqual({
+      payload: null,
+    });
+    expect(actions.parsePayload('fly', null)).toEqual({
+      error: 'Unknown action "fly"',
+    });
+  });
+});
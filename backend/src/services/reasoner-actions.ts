@@ -0,0 +1,243 @@
+import { z } from 'zod';
+import { log } from '../utils/log';
+import { getLocale, LANGUAGE_CODES, type LanguageCode } from '../utils/locales';
+import type { CallStateMachine, HandoffReason } from './call-state';
+import { getSmsSender } from './sms';
+
+// What the reasoner can decide to do with a voice prompt. Each action names
+// itself, explains when to pick it (this goes into the model's instructions),
+// declares the payload fields the model fills in, and handles the decision
+// on the call. The relay only dispatches, so a new behavior is one
+// register() call away.
+
+// The call that sent the prompt, as the relay (routes/twilio.ts) exposes it
+export interface ActionContext {
+  call: CallStateMachine;
+  phoneNumber: string | null;
+  canReceiveImages: boolean; // texted photos can reach this call
+  speak(message: string): void;
+  lastAnswer(): string | null; // most recent assistant answer
+  // Speaks the confirmation and returns it
+  switchLanguage(language: LanguageCode): string;
+  // Returns what was spoken, or null when no operator is configured
+  handOff(reason: HandoffReason, reply?: string): string | null;
+  endCall(reason: 'assistant_end', message?: string): boolean;
+}
+
+type PayloadSchema = z.ZodObject | undefined;
+
+type PayloadOf<P extends PayloadSchema> = P extends z.ZodObject
+  ? z.infer<P>
+  : null;
+
+export interface ReasonerAction<P extends PayloadSchema = PayloadSchema> {
+  name: string;
+  description: string; // when to pick it, for the model
+  // Payload fields must be required; use .nullable() for optional ones
+  // (Structured Outputs strict mode)
+  payload?: P;
+  /**
+   * Acts on the decision. Returns what was said, recorded as the answer to
+   * the prompt, or null to answer with a normal streamed reply instead.
+   */
+  handle(
+    ctx: ActionContext,
+    decision: { reply: string; payload: PayloadOf<P> }
+  ): string | null | Promise<string | null>;
+}
+
+// Infers the payload type of an action's handler from its schema
+function defineAction<P extends PayloadSchema = undefined>(
+  action: ReasonerAction<P>
+): ReasonerAction {
+  return action as unknown as ReasonerAction;
+}
+
+const BUILT_IN: ReasonerAction[] = [
+  defineAction({
+    name: 'chat',
+    description: 'stream a normal assistant answer',
+    handle: () => null,
+  }),
+  defineAction({
+    name: 'wait_for_image',
+    description:
+      'the caller wants a photo identified; reply asks them to text it and the line stays open',
+    handle(ctx, { reply }) {
+      if (!ctx.canReceiveImages) return null;
+      let said = reply;
+      // Already waiting for, or looking at, a photo
+      if (!ctx.call.send({ type: 'image_requested' })) {
+        const locale = getLocale(ctx.call.context.language);
+        said =
+          ctx.call.phase === 'analyzing'
+            ? locale.analyzingPhoto
+            : locale.waitingForPhoto;
+      }
+      ctx.speak(said);
+      return said;
+    },
+  }),
+  defineAction({
+    name: 'cancel_wait',
+    description: 'stop waiting for a photo',
+    handle(ctx, { reply }) {
+      ctx.call.send({ type: 'image_wait_cancelled' });
+      ctx.speak(reply);
+      return reply;
+    },
+  }),
+  defineAction({
+    name: 'ack_name_only',
+    description:
+      'say a short acknowledgement (e.g., of their name) and do not stream a long answer',
+    handle(ctx, { reply }) {
+      ctx.speak(reply);
+      return reply;
+    },
+  }),
+  defineAction({
+    name: 'repeat',
+    description:
+      'the caller asks to hear the last answer again; it is repeated word for word',
+    handle(ctx) {
+      const answer =
+        ctx.lastAnswer() ??
+        getLocale(ctx.call.context.language).nothingToRepeat;
+      ctx.speak(answer);
+      return answer;
+    },
+  }),
+  defineAction({
+    name: 'send_sms',
+    description:
+      'the caller wants the last answer sent to them by text message',
+    async handle(ctx) {
+      const locale = getLocale(ctx.call.context.language);
+      const answer = ctx.lastAnswer();
+      let reply = locale.smsSent;
+      if (!answer) {
+        reply = locale.smsNothingToSend;
+      } else if (!ctx.phoneNumber) {
+        reply = locale.smsNoNumber;
+      } else if (!(await getSmsSender().send(ctx.phoneNumber, answer))) {
+        reply = locale.smsFailed;
+      }
+      ctx.speak(reply);
+      return reply;
+    },
+  }),
+  defineAction({
+    name: 'switch_language',
+    description: `the caller asks to talk in another language; payload.language is one of ${LANGUAGE_CODES.join(', ')}`,
+    payload: z.object({
+      language: z.enum(LANGUAGE_CODES).describe('Language to switch to'),
+    }),
+    handle: (ctx, { payload }) => ctx.switchLanguage(payload.language),
+  }),
+  defineAction({
+    name: 'handoff',
+    description:
+      'the caller asks for a human (person, agent, operator); reply says they are being transferred',
+    handle(ctx, { reply }) {
+      const said = ctx.handOff('caller_request', reply);
+      if (said) return said;
+      const unavailable = getLocale(
+        ctx.call.context.language
+      ).handoffUnavailable;
+      ctx.speak(unavailable);
+      return unavailable;
+    },
+  }),
+  defineAction({
+    name: 'end_call',
+    description:
+      'the caller is done or says goodbye; reply is a short goodbye and the call is hung up',
+    handle(ctx, { reply }) {
+      ctx.endCall('assistant_end', reply);
+      return reply;
+    },
+  }),
+];
+
+class ReasonerActionRegistry {
+  private actions = new Map<string, ReasonerAction>();
+
+  constructor() {
+    for (const action of BUILT_IN) this.register(action);
+  }
+
+  // A later registration under the same name replaces the earlier one
+  register<P extends PayloadSchema = undefined>(
+    action: ReasonerAction<P>
+  ): void {
+    if (this.actions.has(action.name)) {
+      log.info('[reasoner] Replacing action', { action: action.name });
+    }
+    this.actions.set(action.name, defineAction(action));
+  }
+
+  has(name: string): boolean {
+    return this.actions.has(name);
+  }
+
+  get(name: string): ReasonerAction | undefined {
+    return this.actions.get(name);
+  }
+
+  names(): string[] {
+    return [...this.actions.keys()];
+  }
+
+  // "chat = stream a normal assistant answer; wait_for_image = ..."
+  describe(): string {
+    return [...this.actions.values()]
+      .map((action) => `${action.name} = ${action.description}`)
+      .join('; ');
+  }
+
+  // JSON Schema of the decision's payload: null, or one of the declared
+  // payload objects
+  payloadJsonSchema(): Record<string, unknown> {
+    const objects = [...this.actions.values()].flatMap((action) => {
+      if (!action.payload) return [];
+      const { $schema: _, ...schema } = z.toJSONSchema(action.payload);
+      return [{ ...schema, description: `Payload of ${action.name}` }];
+    });
+    return {
+      anyOf: [{ type: 'null' }, ...objects],
+      description:
+        'Fields of the chosen action, for actions that declare any; otherwise null.',
+    };
+  }
+
+  /**
+   * Validates the payload the model gave for `name`. Returns the parsed
+   * payload (null for actions without one), or an error message.
+   */
+  parsePayload(
+    name: string,
+    payload: unknown
+  ): { payload: Record<string, unknown> | null } | { error: string } {
+    const action = this.actions.get(name);
+    if (!action) return { error: `Unknown action "${name}"` };
+    if (!action.payload) return { payload: null };
+    const parsed = action.payload.safeParse(payload ?? {});
+    if (!parsed.success) {
+      return {
+        error: `Invalid ${name} payload: ${z.prettifyError(parsed.error)}`,
+      };
+    }
+    return { payload: parsed.data };
+  }
+}
+
+// Singleton instance
+let registry: ReasonerActionRegistry | null = null;
+
+export function getReasonerActions(): ReasonerActionRegistry {
+  if (!registry) {
+    registry = new ReasonerActionRegistry();
+  }
+  return registry;
+}
@@ -2,47 +2,113 @@ import { z } from 'zod';
 import { generateText } from 'ai';
 import { getEnv } from '../config/env';
 import { log } from '../utils/log';
-import { selectTextModel } from './ai';
+import { getLocale, type LanguageCode } from '../utils/locales';
+import { getFailover } from './failover';
+import { getIntentClassifier } from './intent-classifier';
+import { getReasonerActions } from './reasoner-actions';
+import {
+  resolveTextModel,
+  selectTextModel,
+  type ProviderName,
+  type ResolvedTextModel,
+} from './providers';
 
 export type Channel = 'voice' | 'messaging';
 
-const DecisionSchema = z.object({
-  action: z
-    .enum(['chat', 'wait_for_image', 'cancel_wait', 'ack_name_only'])
-    .describe(
-      'chat = stream a normal assistant answer; wait_for_image = ask user to text an image and keep line open; cancel_wait = stop waiting for an image; ack_name_only = say a short acknowledgement (e.g., of their name) and do not stream a long answer.'
-    ),
-  reply: z
-    .string()
-    .describe('Plain text phrase to speak/send next (no Markdown).'),
-  extractedName: z
-    .string()
-    .nullable()
-    .optional()
-    .describe(
-      'If the user told their name, extract it (letters only). Otherwise null.'
-    ),
-});
+// The action must be registered (services/reasoner-actions.ts) and the
+// payload valid for it
+const DecisionSchema = z
+  .object({
+    action: z.string(),
+    reply: z
+      .string()
+      .describe('Plain text phrase to speak/send next (no Markdown).'),
+    extractedName: z
+      .string()
+      .nullable()
+      .optional()
+      .describe(
+        'If the user told their name, extract it (letters only). Otherwise null.'
+      ),
+    payload: z.unknown().optional(),
+  })
+  .transform((decision, ctx) => {
+    const result = getReasonerActions().parsePayload(
+      decision.action,
+      decision.payload
+    );
+    if ('error' in result) {
+      ctx.addIssue({ code: 'custom', message: result.error });
+      return z.NEVER;
+    }
+    return { ...decision, payload: result.payload };
+  });
 
-export type Decision = z.infer<typeof DecisionSchema>;
+export type Decision = z.output<typeof DecisionSchema>;
 
-export async function decideForPrompt(input: {
+type PromptInput = {
   channel: Channel;
   text: string;
   waitingForImage: boolean;
   callerName?: string | null;
   isNewCaller?: boolean;
-}): Promise<Decision> {
-  const env = getEnv();
-  // Prefer Groq Structured Outputs using JSON Schema to avoid tool-call fallback
-  const apiKey = process.env.GROQ_API_KEY;
-  if (apiKey) {
+  language?: LanguageCode; // of the reply; default English
+};
+
+type ImageInput = {
+  analysis: string; // raw result from vision model
+  waitingForImage: boolean;
+  callerName?: string | null;
+  language?: LanguageCode;
+};
+
+// Reply language as the models see it ("Spanish")
+function replyLanguage(language?: LanguageCode): string {
+  return getLocale(language ?? 'en').name;
+}
+
+export async function decideForPrompt(input: PromptInput): Promise<Decision> {
+  const classifier = getIntentClassifier();
+  const startedAt = performance.now();
+  // Obvious intents are decided locally (services/intent-classifier.ts)
+  const fast = getEnv().INTENT_FAST_PATH ? classifier.classify(input) : null;
+  if (fast) {
+    const ms = performance.now() - startedAt;
+    classifier.record('fast', ms, fast.rule);
+    log.debug('[reasoner] Fast-path decision', {
+      rule: fast.rule,
+      action: fast.decision.action,
+      ms: Math.round(ms),
+    });
+    return fast.decision;
+  }
+
+  // PROVIDER, then FALLBACK_PROVIDER (services/failover.ts), then a plain chat
+  // turn, whose stream has its own failover
+  const decision = await getFailover().run(
+    'decision',
+    (provider) => decideWith(provider, input),
+    () => ({
+      action: 'chat',
+      reply: 'Alright.',
+      extractedName: null,
+      payload: null,
+    })
+  );
+  classifier.record('reasoner', performance.now() - startedAt);
+  return decision;
+}
+
+// Throws when this provider cannot produce a valid decision
+async function decideWith(
+  provider: ProviderName,
+  input: PromptInput
+): Promise<Decision> {
+  // Prefer Structured Outputs using JSON Schema to avoid tool-call fallback
+  const model = resolveTextModel('reasoner', provider);
+  if (model.structuredOutputs) {
     try {
-      const decision = await groqStructuredDecision(
-        input,
-        env.AI_MODEL,
-        apiKey
-      );
+      const decision = await structuredDecision(input, model);
       return decision;
     } catch (err) {
       log.warn(
@@ -53,30 +119,27 @@ export async function decideForPrompt(input: {
   }
 
   // Fallback: ask the model for JSON and parse (no schema guarantee)
-  try {
-    const system =
-      'Return a compact JSON with keys action, reply, extractedName (string or null). No extra text.';
-    const prompt = JSON.stringify({
-      channel: input.channel,
-      waitingForImage: input.waitingForImage,
-      callerName: input.callerName ?? null,
-      isNewCaller: !!input.isNewCaller,
-      text: input.text,
-    });
-    const res = await generateText({
-      model: selectTextModel(env.AI_MODEL),
-      system,
-      prompt,
-      temperature: 0.2,
-      maxTokens: 220,
-    });
-    const raw = JSON.parse(res.text || '{}');
-    const parsed = DecisionSchema.safeParse(raw);
-    if (parsed.success) return parsed.data;
-  } catch (err) {
-    log.warn('[reasoner] decideForPrompt fallback parse failed', err);
-  }
-  return { action: 'chat', reply: 'Alright.', extractedName: null };
+  const system = [
+    'Return a compact JSON with keys action, reply, extractedName (string or null), payload (object or null).',
+    `Actions: ${getReasonerActions().describe()}.`,
+    'Write reply in replyLanguage. No extra text.',
+  ].join(' ');
+  const prompt = JSON.stringify({
+    channel: input.channel,
+    waitingForImage: input.waitingForImage,
+    callerName: input.callerName ?? null,
+    isNewCaller: !!input.isNewCaller,
+    replyLanguage: replyLanguage(input.language),
+    text: input.text,
+  });
+  const res = await generateText({
+    model: selectTextModel('reasoner', provider),
+    system,
+    prompt,
+    temperature: 0.2,
+    maxTokens: 220,
+  });
+  return DecisionSchema.parse(JSON.parse(res.text || '{}'));
 }
 
 const ImageDecisionSchema = z.object({
@@ -87,16 +150,13 @@ const ImageDecisionSchema = z.object({
     ),
 });
 
-export async function decideForImage(input: {
-  analysis: string; // raw result from vision model
-  waitingForImage: boolean;
-  callerName?: string | null;
-}): Promise<{ reply: string }> {
-  const env = getEnv();
-  const apiKey = process.env.GROQ_API_KEY;
-  if (apiKey) {
+export async function decideForImage(
+  input: ImageInput
+): Promise<{ reply: string }> {
+  const model = resolveTextModel('image_reply');
+  if (model.structuredOutputs) {
     try {
-      const reply = await groqStructuredImageReply(input, env.AI_MODEL, apiKey);
+      const reply = await structuredImageReply(input, model);
       return { reply };
     } catch (err) {
       log.warn(
@@ -107,12 +167,11 @@ export async function decideForImage(input: {
   }
   // Fallback: simple single-sentence rewrite
   try {
-    const system =
-      'Rewrite the following into one friendly plain sentence for voice. No Markdown.';
+    const system = `Rewrite the following into one friendly plain sentence for voice, in ${replyLanguage(input.language)}. No Markdown.`;
     const prompt =
       (input.callerName ? `${input.callerName}, ` : '') + input.analysis;
     const res = await generateText({
-      model: selectTextModel(env.AI_MODEL),
+      model: selectTextModel('image_reply'),
       system,
       prompt,
       temperature: 0.2,
@@ -124,23 +183,27 @@ export async function decideForImage(input: {
 }
 
 // ---------------------------
-// Groq Structured helpers
+// Structured Outputs helpers (OpenAI-style chat/completions)
 // ---------------------------
-async function groqStructuredDecision(
-  input: {
-    channel: Channel;
-    text: string;
-    waitingForImage: boolean;
-    callerName?: string | null;
-    isNewCaller?: boolean;
-  },
-  modelId: string,
-  apiKey: string
+function chatCompletions(model: ResolvedTextModel, body: unknown) {
+  return fetch(`${model.baseURL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(model.apiKey && { Authorization: `Bearer ${model.apiKey}` }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function structuredDecision(
+  input: PromptInput,
+  model: ResolvedTextModel
 ): Promise<Decision> {
   const sys = [
     'You route a voice conversation about Pokémon.',
     'Pick the best immediate action and produce a brief, natural reply for speech.',
-    'No Markdown. 1–2 short sentences. Output via JSON schema only.',
+    'No Markdown. 1–2 short sentences, written in replyLanguage. Output via JSON schema only.',
   ].join(' ');
 
   const user = {
@@ -148,9 +211,11 @@ async function groqStructuredDecision(
     waitingForImage: input.waitingForImage,
     callerName: input.callerName ?? null,
     isNewCaller: !!input.isNewCaller,
+    replyLanguage: replyLanguage(input.language),
     text: input.text,
   };
 
+  const actions = getReasonerActions();
   const schema = {
     name: 'decision',
     schema: {
@@ -159,9 +224,8 @@ async function groqStructuredDecision(
       properties: {
         action: {
           type: 'string',
-          enum: ['chat', 'wait_for_image', 'cancel_wait', 'ack_name_only'],
-          description:
-            'chat=stream a normal answer; wait_for_image=ask for photo and hold; cancel_wait=stop holding; ack_name_only=acknowledge their name only',
+          enum: actions.names(),
+          description: actions.describe(),
         },
         reply: {
           type: 'string',
@@ -171,13 +235,14 @@ async function groqStructuredDecision(
           anyOf: [{ type: 'string' }, { type: 'null' }],
           description: 'Caller first name if provided; otherwise null.',
         },
+        payload: actions.payloadJsonSchema(),
       },
-      required: ['action', 'reply', 'extractedName'],
+      required: ['action', 'reply', 'extractedName', 'payload'],
     },
-  } as const;
+  };
 
   const body = {
-    model: modelId,
+    model: model.modelId,
     messages: [
       { role: 'system', content: sys },
       { role: 'user', content: JSON.stringify(user) },
@@ -191,14 +256,7 @@ async function groqStructuredDecision(
     max_tokens: 384,
   } as const;
 
-  const res = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  });
+  const res = await chatCompletions(model, body);
   if (!res.ok) {
     const t = await res.text();
     // Retry with JSON Object mode when schema generation fails, invalid schema, or token limit hit
@@ -207,27 +265,17 @@ async function groqStructuredDecision(
         t
       )
     ) {
-      const retry = await fetch(
-        'https://api.groq.com/openai/v1/chat/completions',
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify({
-            model: modelId,
-            messages: [
-              { role: 'system', content: sys + ' Respond with JSON only.' },
-              { role: 'user', content: JSON.stringify(user) },
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.0,
-            top_p: 0.1,
-            max_tokens: 384,
-          }),
-        }
-      );
+      const retry = await chatCompletions(model, {
+        model: model.modelId,
+        messages: [
+          { role: 'system', content: sys + ' Respond with JSON only.' },
+          { role: 'user', content: JSON.stringify(user) },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.0,
+        top_p: 0.1,
+        max_tokens: 384,
+      });
       if (retry.ok) {
         const rj: any = await retry.json();
         const content = rj?.choices?.[0]?.message?.content || '{}';
@@ -235,7 +283,9 @@ async function groqStructuredDecision(
         if (parsed.success) return parsed.data;
       }
     }
-    throw new Error(`groq structured decision failed: ${res.status} ${t}`);
+    throw new Error(
+      `structured decision failed (${model.provider}): ${res.status} ${t}`
+    );
   }
   const json: any = await res.json();
   const content = json?.choices?.[0]?.message?.content || '{}';
@@ -243,20 +293,16 @@ async function groqStructuredDecision(
   return parsed;
 }
 
-async function groqStructuredImageReply(
-  input: {
-    analysis: string;
-    waitingForImage: boolean;
-    callerName?: string | null;
-  },
-  modelId: string,
-  apiKey: string
+async function structuredImageReply(
+  input: ImageInput,
+  model: ResolvedTextModel
 ): Promise<string> {
   const sys =
-    'Return a single friendly plain sentence suitable for voice. No Markdown.';
+    'Return a single friendly plain sentence suitable for voice, written in replyLanguage. No Markdown.';
   const user = {
     callerName: input.callerName ?? null,
     waitingForImage: input.waitingForImage,
+    replyLanguage: replyLanguage(input.language),
     analysis: input.analysis,
   };
   const schema = {
@@ -269,7 +315,7 @@ async function groqStructuredImageReply(
     },
   } as const;
   const body = {
-    model: modelId,
+    model: model.modelId,
     messages: [
       { role: 'system', content: sys },
       { role: 'user', content: JSON.stringify(user) },
@@ -282,14 +328,7 @@ async function groqStructuredImageReply(
     top_p: 0.1,
     max_tokens: 256,
   } as const;
-  const res = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  });
+  const res = await chatCompletions(model, body);
   if (!res.ok) {
     const t = await res.text();
     // Retry with JSON object mode when schema generation fails, invalid schema, or token limit hit
@@ -298,27 +337,17 @@ async function groqStructuredImageReply(
         t
       )
     ) {
-      const retry = await fetch(
-        'https://api.groq.com/openai/v1/chat/completions',
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify({
-            model: modelId,
-            messages: [
-              { role: 'system', content: sys + ' Respond with JSON only.' },
-              { role: 'user', content: JSON.stringify(user) },
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.0,
-            top_p: 0.1,
-            max_tokens: 256,
-          }),
-        }
-      );
+      const retry = await chatCompletions(model, {
+        model: model.modelId,
+        messages: [
+          { role: 'system', content: sys + ' Respond with JSON only.' },
+          { role: 'user', content: JSON.stringify(user) },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.0,
+        top_p: 0.1,
+        max_tokens: 256,
+      });
       if (retry.ok) {
         const rj: any = await retry.json();
         const content = rj?.choices?.[0]?.message?.content || '{}';
@@ -326,7 +355,9 @@ async function groqStructuredImageReply(
         if (parsed.success) return parsed.data.reply;
       }
     }
-    throw new Error(`groq structured image reply failed: ${res.status} ${t}`);
+    throw new Error(
+      `structured image reply failed (${model.provider}): ${res.status} ${t}`
+    );
   }
   const json: any = await res.json();
   const content = json?.choices?.[0]?.message?.content || '{}';
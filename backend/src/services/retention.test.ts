@@ -0,0 +1,238 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { resetEnv } from '../config/env';
+import { closeDatabase, initDatabase } from '../db/database';
+import { getRetentionService } from './retention';
+
+const db = initDatabase(':memory:');
+const sql = db.getDbConnection();
+const retention = getRetentionService();
+
+// Where retention.ts looks for uploads, relative to the working directory
+const UPLOADS = './uploads';
+const IMAGE_DIR = join(UPLOADS, 'img');
+const hadUploads = existsSync(UPLOADS);
+const savedEnv = { ...process.env };
+const DAY = 86_400;
+
+const ASH = '+15550000030';
+const MISTY = '+15550000031';
+const PHONE = '+15550000032';
+
+function photoName(phoneNumber: string) {
+  return `photo-${phoneNumber.slice(1)}.jpg`;
+}
+
+// Everything a caller can leave behind: caller record, calls with turns and
+// mentions, a session, OTP attempts and an uploaded photo on disk
+async function seedCaller(phoneNumber: string, callSids: string[]) {
+  await db.upsertCaller(phoneNumber, 'Trainer');
+  for (const callSid of callSids) {
+    await db.createConversation(callSid, phoneNumber);
+  }
+  await new Promise((resolve) => setImmediate(resolve));
+  for (const callSid of callSids) {
+    db.appendConversationTurns(callSid, [
+      { turnIndex: 0, role: 'user', content: 'Tell me about Pikachu' },
+      { turnIndex: 1, role: 'assistant', content: 'Pikachu is Electric.' },
+    ]);
+  }
+  await db.createSession({
+    id: `session-${phoneNumber}`,
+    phone_number: phoneNumber,
+    token: `token-${phoneNumber}`,
+    expires_at: Math.floor(Date.now() / 1000) + DAY,
+  });
+  await db.incrementVerificationAttempts(phoneNumber);
+  const image = photoName(phoneNumber);
+  writeFileSync(join(IMAGE_DIR, image), 'jpeg');
+  db.recordUploadedImage(image, phoneNumber);
+  return image;
+}
+
+// Rows left for a caller in every table the erasure must empty
+function rowsFor(phoneNumber: string) {
+  const count = (query: string) =>
+    (sql.prepare(query).get(phoneNumber) as { n: number }).n;
+  const calls = 'SELECT call_sid FROM conversations WHERE phone_number = ?';
+  return {
+    callers: count('SELECT COUNT(*) AS n FROM callers WHERE phone_number = ?'),
+    conversations: count(
+      'SELECT COUNT(*) AS n FROM conversations WHERE phone_number = ?'
+    ),
+    turns: count(
+      `SELECT COUNT(*) AS n FROM conversation_turns WHERE call_sid IN (${calls})`
+    ),
+    mentions: count(
+      `SELECT COUNT(*) AS n FROM pokemon_mentions WHERE call_sid IN (${calls})`
+    ),
+    sessions: count(
+      'SELECT COUNT(*) AS n FROM sessions WHERE phone_number = ?'
+    ),
+    verification: count(
+      'SELECT COUNT(*) AS n FROM verification_attempts WHERE phone_number = ?'
+    ),
+    images: count(
+      'SELECT COUNT(*) AS n FROM uploaded_images WHERE phone_number = ?'
+    ),
+  };
+}
+
+// Turns still reachable through the full-text index
+function indexedTurns(callSid: string): number {
+  return (
+    sql
+      .prepare(
+        `SELECT COUNT(*) AS n FROM conversation_turns_fts f
+         JOIN conversation_turns t ON t.id = f.rowid
+         WHERE conversation_turns_fts MATCH 'pikachu' AND t.call_sid = ?`
+      )
+      .get(callSid) as { n: number }
+  ).n;
+}
+
+beforeAll(() => {
+  mkdirSync(IMAGE_DIR, { recursive: true });
+});
+
+afterAll(() => {
+  process.env = { ...savedEnv };
+  resetEnv();
+  closeDatabase();
+  for (const name of ['stray-old.jpg', ...[ASH, MISTY, PHONE].map(photoName)]) {
+    rmSync(join(IMAGE_DIR, name), { force: true });
+  }
+  if (!hadUploads) rmSync(UPLOADS, { recursive: true, force: true });
+});
+
+describe('eraseCaller', () => {
+  test('removes every row and file for the caller, and only theirs', async () => {
+    const ashImage = await seedCaller(ASH, ['CA-erase-1', 'CA-erase-2']);
+    const mistyImage = await seedCaller(MISTY, ['CA-keep-1']);
+
+    const summary = await retention.eraseCaller(ASH);
+
+    expect(summary).toEqual({
+      conversations: 2,
+      turns: 4,
+      sessions: 1,
+      callers: 1,
+      images: 1,
+    });
+    expect(rowsFor(ASH)).toEqual({
+      callers: 0,
+      conversations: 0,
+      turns: 0,
+      mentions: 0,
+      sessions: 0,
+      verification: 0,
+      images: 0,
+    });
+    expect(indexedTurns('CA-erase-1')).toBe(0);
+    expect(existsSync(join(IMAGE_DIR, ashImage))).toBe(false);
+
+    expect(rowsFor(MISTY)).toEqual({
+      callers: 1,
+      conversations: 1,
+      turns: 2,
+      mentions: 2,
+      sessions: 1,
+      verification: 1,
+      images: 1,
+    });
+    expect(indexedTurns('CA-keep-1')).toBe(2);
+    expect(existsSync(join(IMAGE_DIR, mistyImage))).toBe(true);
+  });
+
+  test('a caller with nothing stored erases nothing', async () => {
+    expect(await retention.eraseCaller('+15550000039')).toEqual({
+      conversations: 0,
+      turns: 0,
+      sessions: 0,
+      callers: 0,
+      images: 0,
+    });
+  });
+});
+
+describe('purgeExpired', () => {
+  // A fixed clock far in the past, so real files in uploads/img are never
+  // older than the image cutoff
+  const NOW = Date.UTC(2001, 0, 31) / 1000;
+
+  function backdate(
+    callSid: string,
+    startedAt: number,
+    endedAt: number | null
+  ) {
+    sql
+      .prepare(
+        'UPDATE conversations SET started_at = ?, ended_at = ? WHERE call_sid = ?'
+      )
+      .run(startedAt, endedAt, callSid);
+  }
+
+  test('drops finished calls and photos older than the cutoff', async () => {
+    Object.assign(process.env, {
+      RETENTION_DAYS: '30',
+      RETENTION_IMAGE_DAYS: '7',
+    });
+    resetEnv();
+
+    const image = await seedCaller(PHONE, ['CA-old', 'CA-recent', 'CA-open']);
+    backdate('CA-old', NOW - 40 * DAY, NOW - 31 * DAY);
+    backdate('CA-recent', NOW - 29 * DAY, NOW - 29 * DAY + 60);
+    // Still in progress, however long ago it started
+    backdate('CA-open', NOW - 40 * DAY, null);
+    sql
+      .prepare('UPDATE uploaded_images SET created_at = ? WHERE file_name = ?')
+      .run(NOW - 8 * DAY, image);
+    const stray = join(IMAGE_DIR, 'stray-old.jpg');
+    writeFileSync(stray, 'jpeg');
+    utimesSync(stray, NOW - 8 * DAY, NOW - 8 * DAY);
+
+    const summary = retention.purgeExpired(NOW * 1000);
+
+    expect(summary).toMatchObject({ conversations: 1, turns: 2, images: 2 });
+    const left = sql
+      .prepare(
+        'SELECT call_sid FROM conversations WHERE phone_number = ? ORDER BY call_sid'
+      )
+      .all(PHONE) as Array<{ call_sid: string }>;
+    expect(left.map((c) => c.call_sid)).toEqual(['CA-open', 'CA-recent']);
+    expect(indexedTurns('CA-old')).toBe(0);
+    expect(rowsFor(PHONE).images).toBe(0);
+    expect(existsSync(join(IMAGE_DIR, image))).toBe(false);
+    expect(existsSync(stray)).toBe(false);
+  });
+
+  test('drops callers with nothing left who have not called since the cutoff', () => {
+    Object.assign(process.env, { RETENTION_DAYS: '30' });
+    resetEnv();
+    sql
+      .prepare(
+        'INSERT INTO callers (phone_number, name, updated_at) VALUES (?, ?, ?), (?, ?, ?)'
+      )
+      .run('+15550000033', 'Old', NOW - 31 * DAY, '+15550000034', 'New', NOW);
+
+    const summary = retention.purgeExpired(NOW * 1000);
+
+    expect(summary.callers).toBe(1);
+    expect(rowsFor('+15550000033').callers).toBe(0);
+    expect(rowsFor('+15550000034').callers).toBe(1);
+  });
+
+  test('keeps everything when retention is off', () => {
+    Object.assign(process.env, { RETENTION_DAYS: '0' });
+    delete process.env.RETENTION_IMAGE_DAYS;
+    resetEnv();
+    expect(retention.purgeExpired(NOW * 1000)).toEqual({
+      conversations: 0,
+      turns: 0,
+      sessions: 0,
+      callers: 0,
+      images: 0,
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { readdirSync, statSync, unlinkSync } from 'fs';
+import { basename, join } from 'path';
+import { getEnv } from '../config/env';
+import { getDatabase, type ErasureSummary } from '../db/database';
+import { log } from '../utils/log';
+import { getBatchWriter } from './batch-writer';
+import { sessions } from './session';
+
+// Written by the messaging webhook and served by GET /img/:file
+const IMAGE_DIR = './uploads/img';
+const DAY_SECONDS = 86_400;
+
+export type RetentionSummary = Omit<ErasureSummary, 'images'> & {
+  images: number; // files removed from disk
+};
+
+class RetentionService {
+  private timer: Timer | null = null;
+
+  // Erase every stored trace of a caller (privacy / account deletion request)
+  async eraseCaller(phoneNumber: string): Promise<RetentionSummary> {
+    const db = getDatabase();
+    const callSids = (await db.getConversationsForPhone(phoneNumber)).map(
+      (c) => c.call_sid
+    );
+
+    // Pending writes would otherwise recreate the turns after the delete
+    getBatchWriter().discard(callSids);
+    callSids.forEach((callSid) => sessions.clear(callSid));
+
+    const summary = db.deleteCallerData(phoneNumber);
+    const result = { ...summary, images: this.removeImages(summary.images) };
+    log.info('[retention] Erased caller data', { phoneNumber, ...result });
+    return result;
+  }
+
+  // Apply the configured retention policy once
+  purgeExpired(now: number = Date.now()): RetentionSummary {
+    const env = getEnv();
+    const transcriptDays = env.RETENTION_DAYS;
+    const imageDays = env.RETENTION_IMAGE_DAYS ?? transcriptDays;
+    const nowSeconds = Math.floor(now / 1000);
+    const cutoff = (days: number) =>
+      days > 0 ? nowSeconds - days * DAY_SECONDS : undefined;
+
+    const summary = getDatabase().purgeExpiredData({
+      transcriptsBefore: cutoff(transcriptDays),
+      imagesBefore: cutoff(imageDays),
+    });
+
+    let images = this.removeImages(summary.images);
+    if (imageDays > 0) {
+      // Also catches files saved before uploads were tracked in the database
+      images += this.removeImagesOlderThan(
+        now - imageDays * DAY_SECONDS * 1000
+      );
+    }
+
+    const result = { ...summary, images };
+    if (result.conversations || result.sessions || result.callers || images) {
+      log.info('[retention] Purged expired data', result);
+    } else {
+      log.debug('[retention] Nothing to purge');
+    }
+    return result;
+  }
+
+  // Run the sweep now and then periodically; no-op once started
+  start() {
+    if (this.timer) return;
+    const env = getEnv();
+    const intervalMs = env.RETENTION_SWEEP_INTERVAL_MINUTES * 60_000;
+
+    const sweep = () => {
+      try {
+        this.purgeExpired();
+      } catch (error) {
+        log.error('[retention] Sweep failed', { error });
+      }
+    };
+
+    sweep();
+    this.timer = setInterval(sweep, intervalMs);
+    // Do not keep the process alive just for the sweep
+    this.timer.unref?.();
+    log.info('[retention] Sweep scheduled', {
+      retentionDays: env.RETENTION_DAYS,
+      imageRetentionDays: env.RETENTION_IMAGE_DAYS ?? env.RETENTION_DAYS,
+      intervalMinutes: env.RETENTION_SWEEP_INTERVAL_MINUTES,
+    });
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private removeImages(fileNames: string[]): number {
+    let removed = 0;
+    for (const name of fileNames) {
+      // Names come from the database; never follow a path out of IMAGE_DIR
+      if (this.unlink(join(IMAGE_DIR, basename(name)))) removed++;
+    }
+    return removed;
+  }
+
+  private removeImagesOlderThan(cutoffMs: number): number {
+    let names: string[];
+    try {
+      names = readdirSync(IMAGE_DIR);
+    } catch {
+      return 0; // nothing uploaded yet
+    }
+    let removed = 0;
+    for (const name of names) {
+      const path = join(IMAGE_DIR, name);
+      try {
+        if (statSync(path).mtimeMs < cutoffMs && this.unlink(path)) removed++;
+      } catch (error) {
+        log.warn('[retention] Could not inspect image', { path, error });
+      }
+    }
+    return removed;
+  }
+
+  private unlink(path: string): boolean {
+    try {
+      unlinkSync(path);
+      return true;
+    } catch (error) {
+      // Already gone is fine; anything else is worth knowing about
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        log.warn('[retention] Could not remove image', { path, error });
+      }
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+let retentionService: RetentionService | null = null;
+
+export function getRetentionService(): RetentionService {
+  if (!retentionService) {
+    retentionService = new RetentionService();
+  }
+  return retentionService;
+}
@@ -0,0 +1,81 @@
+import twilio from 'twilio';
+import { getEnv } from '../config/env';
+import { log } from '../utils/log';
+
+// Outbound SMS (or WhatsApp with TWILIO_FORCE_WHATSAPP) through the Twilio
+// Messages API. Needs TWILIO_ACCOUNT_SID/TWILIO_AUTH_TOKEN and a sender
+// (TWILIO_MESSAGING_SERVICE_SID or TWILIO_FROM_NUMBER); without them messages
+// are only logged and send() reports false.
+
+const MAX_BODY_LENGTH = 1600; // Twilio rejects longer bodies
+
+function asWhatsApp(number: string): string {
+  return number.startsWith('whatsapp:') ? number : `whatsapp:${number}`;
+}
+
+class SmsSender {
+  private client: twilio.Twilio | null = null;
+
+  constructor() {
+    const env = getEnv();
+    const hasSender = !!(
+      env.TWILIO_MESSAGING_SERVICE_SID || env.TWILIO_FROM_NUMBER
+    );
+    if (env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && hasSender) {
+      this.client = twilio(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN);
+    } else {
+      log.warn('[sms] Twilio messaging not configured; texts are only logged');
+    }
+  }
+
+  async send(to: string, body: string): Promise<boolean> {
+    const env = getEnv();
+    const text =
+      body.length > MAX_BODY_LENGTH
+        ? `${body.slice(0, MAX_BODY_LENGTH - 1)}…`
+        : body;
+    if (!this.client) {
+      log.info('[sms] Not sent (messaging not configured)', {
+        to,
+        length: text.length,
+      });
+      return false;
+    }
+
+    // A whatsapp: sender can only reach WhatsApp numbers
+    const whatsapp =
+      env.TWILIO_FORCE_WHATSAPP ||
+      !!env.TWILIO_FROM_NUMBER?.startsWith('whatsapp:');
+    try {
+      const message = await this.client.messages.create({
+        to: whatsapp ? asWhatsApp(to) : to,
+        body: text,
+        ...(env.TWILIO_MESSAGING_SERVICE_SID
+          ? { messagingServiceSid: env.TWILIO_MESSAGING_SERVICE_SID }
+          : {
+              from: whatsapp
+                ? asWhatsApp(env.TWILIO_FROM_NUMBER!)
+                : env.TWILIO_FROM_NUMBER,
+            }),
+      });
+      log.info('[sms] Sent', { to, sid: message.sid });
+      return true;
+    } catch (error) {
+      log.error('[sms] Send failed', {
+        to,
+        error: (error as Error)?.message || String(error),
+      });
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+let smsSender: SmsSender | null = null;
+
+export function getSmsSender(): SmsSender {
+  if (!smsSender) {
+    smsSender = new SmsSender();
+  }
+  return smsSender;
+}
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { closeDatabase, initDatabase } from '../db/database';
+import { loadTranscript, renderTranscript } from './transcript-export';
+
+const db = initDatabase(':memory:');
+// Test files share one process; leave the singleton to the next file
+afterAll(closeDatabase);
+
+const CALL = 'CA-export';
+const STARTED = Date.UTC(2025, 0, 31, 12) / 1000;
+
+async function transcript() {
+  const conversation = await db.getConversationBySid(CALL);
+  return loadTranscript(conversation!);
+}
+
+beforeAll(async () => {
+  await db.createConversation(CALL, '+15550000020');
+  await new Promise((resolve) => setImmediate(resolve));
+  db.getDbConnection()
+    .prepare(
+      'UPDATE conversations SET started_at = ?, ended_at = ? WHERE call_sid = ?'
+    )
+    .run(STARTED, STARTED + 90, CALL);
+  db.appendConversationTurns(
+    CALL,
+    [
+      '=HYPERLINK("https://evil.example","Pikachu")',
+      '+Pikachu',
+      '-1 for Charizard',
+      '@SUM(1,2)',
+      'Pikachu says "pika",\nthen "chu"',
+    ].map((content, turnIndex) => ({
+      turnIndex,
+      role: 'user' as const,
+      content,
+      createdAt: STARTED + turnIndex,
+    }))
+  );
+});
+
+describe('transcript export', () => {
+  test('loads the stored turns with duration and mentions', async () => {
+    const t = await transcript();
+    expect(t).toMatchObject({
+      callSid: CALL,
+      channel: 'voice',
+      duration: 90,
+      pokemonMentioned: ['Pikachu', 'Charizard'],
+    });
+    expect(t.messages).toHaveLength(5);
+  });
+
+  test('CSV disarms cells that spreadsheets would run as formulas', async () => {
+    const csv = renderTranscript(await transcript(), 'csv').body;
+    const contents = csv
+      .trimEnd()
+      .split('\r\n')
+      .slice(1, 5)
+      // content is the last column
+      .map((row) => row.match(/,(?:true|false),(.*)$/)?.[1]);
+    expect(contents).toEqual([
+      `"'=HYPERLINK(""https://evil.example"",""Pikachu"")"`,
+      `'+Pikachu`,
+      `'-1 for Charizard`,
+      `"'@SUM(1,2)"`,
+    ]);
+    expect(csv).toContain(`"Pikachu says ""pika"",\nthen ""chu"""\r\n`);
+    expect(csv.startsWith('call_sid,turn_index,timestamp,role,')).toBe(true);
+  });
+
+  test.each([
+    ['json', 'application/json; charset=utf-8'],
+    ['txt', 'text/plain; charset=utf-8'],
+    ['md', 'text/markdown; charset=utf-8'],
+    ['csv', 'text/csv; charset=utf-8'],
+  ] as const)('names %s files by day and call', async (format, type) => {
+    const file = renderTranscript(await transcript(), format);
+    expect(file.fileName).toBe(`2025-01-31_${CALL}.${format}`);
+    expect(file.contentType).toBe(type);
+  });
+
+  test('text formats keep multi-line turns inside the turn', async () => {
+    const t = await transcript();
+    expect(renderTranscript(t, 'txt').body).toContain(
+      'Caller: Pikachu says "pika",\n    then "chu"\n'
+    );
+    expect(renderTranscript(t, 'md').body).toContain(
+      '> Pikachu says "pika",\n> then "chu"\n'
+    );
+    expect(JSON.parse(renderTranscript(t, 'json').body)).toEqual(t);
+  });
+
+  test('file names never carry path characters', () => {
+    const file = renderTranscript(
+      {
+        callSid: '../demo/call 1',
+        channel: 'messaging',
+        startedAt: null,
+        endedAt: null,
+        duration: null,
+        pokemonMentioned: [],
+        messages: [],
+      },
+      'txt'
+    );
+    expect(file.fileName).toBe('undated__demo_call_1.txt');
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  getDatabase,
+  type Conversation,
+  type TurnSource,
+} from '../db/database';
+import type { SimpleMessage } from './ai';
+import type { Channel } from './reasoner';
+
+// Renders a call's transcript as JSON, plain text, Markdown or CSV
+
+export const EXPORT_FORMATS = ['json', 'txt', 'md', 'csv'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface TranscriptExport {
+  callSid: string;
+  channel: Channel;
+  startedAt: number | null; // unix seconds
+  endedAt: number | null;
+  duration: number | null; // seconds
+  pokemonMentioned: string[];
+  messages: Array<{
+    turnIndex: number;
+    role: SimpleMessage['role'];
+    content: string;
+    timestamp: number;
+    channel: Channel;
+    source: TurnSource;
+    latencyMs: number | null;
+    interrupted: boolean;
+  }>;
+}
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  fileName: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+const SPEAKERS: Record<SimpleMessage['role'], string> = {
+  user: 'Caller',
+  assistant: 'Pokedex',
+  system: 'System',
+};
+
+// Transcript of a conversation as stored; ownership is checked by the caller
+export async function loadTranscript(
+  conversation: Conversation
+): Promise<TranscriptExport> {
+  const db = getDatabase();
+  const [turns, pokemonMentioned] = await Promise.all([
+    db.getConversationTurns(conversation.call_sid),
+    db.getPokemonMentionsForCall(conversation.call_sid),
+  ]);
+  const startedAt = conversation.started_at ?? null;
+  const endedAt = conversation.ended_at ?? null;
+
+  return {
+    callSid: conversation.call_sid,
+    channel: conversation.channel ?? 'voice',
+    startedAt,
+    endedAt,
+    duration: startedAt && endedAt ? endedAt - startedAt : null,
+    pokemonMentioned,
+    messages: turns.map((turn) => ({
+      turnIndex: turn.turn_index,
+      role: turn.role,
+      content: turn.content,
+      timestamp: turn.created_at,
+      channel: turn.channel,
+      source: turn.source,
+      latencyMs: turn.latency_ms,
+      interrupted: turn.interrupted === 1,
+    })),
+  };
+}
+
+function isoTime(seconds: number | null): string {
+  return seconds ? new Date(seconds * 1000).toISOString() : '';
+}
+
+function headerLines(t: TranscriptExport): Array<[string, string]> {
+  return [
+    ['Call', t.callSid],
+    ['Channel', t.channel],
+    ['Started', isoTime(t.startedAt) || 'unknown'],
+    ['Ended', isoTime(t.endedAt) || 'in progress'],
+    ['Duration', t.duration !== null ? `${t.duration}s` : 'unknown'],
+    ['Pokemon', t.pokemonMentioned.join(', ') || 'none'],
+  ];
+}
+
+function renderText(t: TranscriptExport): string {
+  const lines = headerLines(t).map(([label, value]) => `${label}: ${value}`);
+  lines.push('');
+  for (const m of t.messages) {
+    const flag = m.interrupted ? ' (interrupted)' : '';
+    // Continuation lines are indented so every turn starts with a timestamp
+    const content = m.content.replace(/\n/g, '\n    ');
+    lines.push(
+      `[${isoTime(m.timestamp)}] ${SPEAKERS[m.role]}${flag}: ${content}`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+function renderMarkdown(t: TranscriptExport): string {
+  const lines = [`# Call ${t.callSid}`, ''];
+  for (const [label, value] of headerLines(t).slice(1)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push('', '## Transcript', '');
+  for (const m of t.messages) {
+    const flag = m.interrupted ? ' _(interrupted)_' : '';
+    lines.push(`**${SPEAKERS[m.role]}** · ${isoTime(m.timestamp)}${flag}`, '');
+    // Blockquote each line so multi-line replies stay inside the turn
+    lines.push(...m.content.split('\n').map((line) => `> ${line}`), '');
+  }
+  return lines.join('\n');
+}
+
+function csvCell(value: string | number | boolean | null): string {
+  let text = value === null ? '' : String(value);
+  // Spreadsheet apps evaluate cells starting with these characters as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(t: TranscriptExport): string {
+  const header = [
+    'call_sid',
+    'turn_index',
+    'timestamp',
+    'role',
+    'channel',
+    'source',
+    'latency_ms',
+    'interrupted',
+    'content',
+  ];
+  const rows = t.messages.map((m) =>
+    [
+      t.callSid,
+      m.turnIndex,
+      isoTime(m.timestamp),
+      m.role,
+      m.channel,
+      m.source,
+      m.latencyMs,
+      m.interrupted,
+      m.content,
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function renderTranscript(
+  transcript: TranscriptExport,
+  format: ExportFormat
+): RenderedExport {
+  const body =
+    format === 'json'
+      ? JSON.stringify(transcript, null, 2)
+      : format === 'txt'
+        ? renderText(transcript)
+        : format === 'md'
+          ? renderMarkdown(transcript)
+          : renderCsv(transcript);
+
+  // "2025-01-31_CA1234.md"; call SIDs are alphanumeric but demo ones are not
+  const day = isoTime(transcript.startedAt).slice(0, 10) || 'undated';
+  const sid = transcript.callSid.replace(/[^\w-]+/g, '_');
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${day}_${sid}.${format}`,
+  };
+}
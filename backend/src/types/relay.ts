@@ -3,6 +3,8 @@ import { z } from 'zod';
 export const SetupMessage = z.object({
   type: z.literal('setup'),
   callSid: z.string().optional(),
+  // <Parameter> values from the TwiML (RELAY_CONFIG parameters)
+  customParameters: z.record(z.string(), z.string()).optional(),
 });
 
 export const PromptMessage = z.object({
@@ -22,17 +24,25 @@ export const PingMessage = z.object({
   type: z.literal('ping'),
 });
 
+// Keypad press; sent when the TwiML enables dtmfDetection
+export const DtmfMessage = z.object({
+  type: z.literal('dtmf'),
+  digit: z.string(),
+});
+
 export const KnownMessage = z.discriminatedUnion('type', [
   SetupMessage,
   PromptMessage,
   InterruptMessage,
   PingMessage,
+  DtmfMessage,
 ]);
 
 export type SetupMessageT = z.infer<typeof SetupMessage>;
 export type PromptMessageT = z.infer<typeof PromptMessage>;
 export type InterruptMessageT = z.infer<typeof InterruptMessage>;
 export type PingMessageT = z.infer<typeof PingMessage>;
+export type DtmfMessageT = z.infer<typeof DtmfMessage>;
 export type KnownMessageT = z.infer<typeof KnownMessage>;
 
 export type UnknownMessageT = { type: string } & Record<string, unknown>;
@@ -0,0 +1,392 @@
+import { getEnv, type KeypadAction } from '../config/env';
+import type { TwiMLLanguage } from './twiml';
+
+// Languages a call can be held in. `code` is what callers.language stores;
+// `tag` is the BCP-47 tag ConversationRelay uses for transcription and TTS.
+// Without a voice the TTS provider's default voice for the tag is used.
+
+export const LANGUAGE_CODES = ['en', 'es', 'fr', 'de'] as const;
+export type LanguageCode = (typeof LANGUAGE_CODES)[number];
+
+interface Locale {
+  code: LanguageCode;
+  tag: string;
+  name: string; // English name, used in model instructions
+  ttsProvider?: string;
+  voice?: string;
+  // Ways to name the language in a switch request, lowercase without accents
+  names: string[];
+  // Country calling codes whose callers default to this language
+  callingCodes: string[];
+  welcome?: string; // caller we know nothing about; English: RELAY_WELCOME_GREETING
+  askName: string; // new caller
+  returning: ((name: string) => string)[]; // returning caller, one at random
+  switched: string; // confirms a switch to this language
+  waitingForPhoto: string;
+  photoTimeout: string;
+  imageTooSlow: string; // analyzing a texted photo timed out
+  imageFailed: string; // analyzing a texted photo failed
+  noImage: string; // a text without a photo arrived during the call
+  apology: string; // no text provider could answer (services/failover.ts)
+  // Replies of the repeat and send_sms actions (services/reasoner-actions.ts)
+  nothingToRepeat: string;
+  smsSent: string;
+  smsNothingToSend: string;
+  smsNoNumber: string;
+  smsFailed: string;
+  photoRequested: string; // the caller will text a photo
+  photosUnavailable: string; // texted photos cannot reach this call
+  analyzingPhoto: string;
+  // Keypad menu (DTMF_MENU); `options` complete the `press` sentence
+  keypad: {
+    star: string;
+    pound: string;
+    options: Record<KeypadAction, string>;
+    press: (key: string, option: string) => string;
+    none: string; // DTMF_MENU is empty
+    notAnOption: (key: string) => string;
+    helpKey: (key: string) => string; // after notAnOption
+  };
+  goodbye: string; // the assistant or the keypad ends the call
+  idleGoodbye: string; // hanging up after a silence
+  handoff: string; // before transferring to an operator
+  handoffUnavailable: string; // no operator configured
+}
+
+const LOCALES: Record<LanguageCode, Locale> = {
+  en: {
+    code: 'en',
+    tag: 'en-US',
+    name: 'English',
+    names: ['english', 'ingles', 'anglais', 'englisch'],
+    callingCodes: [],
+    askName: 'Welcome to the Pokédex Call Center. May I have your name please?',
+    returning: [
+      (name) => `Sup ${name}! What Pokémon can I help you with today?`,
+      (name) =>
+        `Yo ${name}, good to hear from you! Which Pokémon are we looking up today?`,
+      (name) => `Hey ${name}, welcome back! What Pokémon info do you need?`,
+      (name) =>
+        `${name}! Great to hear from you again. What Pokémon should we explore?`,
+      (name) => `What's up ${name}? Ready to dive into some Pokémon facts?`,
+    ],
+    switched:
+      "Sure, let's talk in English. What Pokémon are you curious about?",
+    waitingForPhoto:
+      "I'm waiting for your Pokémon photo. Please send it via text message.",
+    photoTimeout:
+      "I didn't receive a photo in time. If you'd like, say 'check my Pokémon photo' again and send it now.",
+    imageTooSlow:
+      'Sorry, the image analysis took too long. Please try sending a smaller or clearer photo.',
+    imageFailed:
+      'Sorry, I had trouble analyzing that image. Please try again with a different photo.',
+    noImage:
+      "I didn't receive an image. Please text your Pokémon photo to this number and I'll analyze it.",
+    goodbye: 'Thanks for calling the Pokédex. Goodbye!',
+    idleGoodbye:
+      "I haven't heard from you in a while, so I'll hang up now. Thanks for calling the Pokédex!",
+    handoff: 'Let me connect you with a person. Please hold.',
+    handoffUnavailable:
+      "Sorry, there's nobody available to take your call right now. I'm happy to keep helping, though!",
+    apology:
+      "Sorry, I'm having trouble looking that up right now. Could you ask me again in a moment?",
+    nothingToRepeat:
+      "I haven't answered anything yet. Ask me about any Pokémon!",
+    smsSent: "I've texted you my last answer.",
+    smsNothingToSend: "There's no answer to text you yet.",
+    smsNoNumber: "Sorry, I don't have a number to text.",
+    smsFailed: "Sorry, I couldn't send a text right now.",
+    photoRequested: "Sure! Text me the photo and I'll take a look.",
+    photosUnavailable: "Sorry, I can't receive photos on this call.",
+    analyzingPhoto: "I'm looking at your photo right now.",
+    keypad: {
+      star: 'star',
+      pound: 'pound',
+      options: {
+        repeat: 'hear my last answer again',
+        sms: 'get my last answer by text message',
+        photo: 'identify a Pokémon from a photo',
+        help: 'hear these options',
+        hang_up: 'end the call',
+      },
+      press: (key, option) => `Press ${key} to ${option}.`,
+      none: 'There are no keypad options on this call.',
+      notAnOption: (key) => `Sorry, ${key} isn't an option.`,
+      helpKey: (key) => `Press ${key} to hear the options.`,
+    },
+  },
+  es: {
+    code: 'es',
+    tag: 'es-US',
+    name: 'Spanish',
+    ttsProvider: 'Google',
+    voice: 'es-US-Neural2-A',
+    names: ['spanish', 'espanol', 'castellano', 'espagnol', 'spanisch'],
+    callingCodes: ['+34', '+52', '+54', '+56', '+57', '+51', '+58'],
+    welcome:
+      '¡Hola! Bienvenido al centro de llamadas de la Pokédex. ¡Pregúntame por cualquier Pokémon!',
+    askName:
+      'Bienvenido al centro de llamadas de la Pokédex. ¿Me dices tu nombre, por favor?',
+    returning: [
+      (name) => `¡Hola ${name}! ¿Sobre qué Pokémon quieres saber hoy?`,
+      (name) => `¡${name}, qué gusto oírte de nuevo! ¿Qué Pokémon buscamos?`,
+      (name) => `¡Bienvenido de vuelta, ${name}! ¿Qué Pokémon te interesa?`,
+    ],
+    switched:
+      'Claro, hablemos en español. ¿Sobre qué Pokémon tienes curiosidad?',
+    waitingForPhoto:
+      'Estoy esperando la foto de tu Pokémon. Envíamela por mensaje de texto.',
+    photoTimeout:
+      'No recibí ninguna foto a tiempo. Si quieres, pídeme de nuevo que revise tu foto y envíala ahora.',
+    imageTooSlow:
+      'Lo siento, analizar la imagen tardó demasiado. Intenta enviar una foto más pequeña o más nítida.',
+    imageFailed:
+      'Lo siento, tuve problemas para analizar esa imagen. Inténtalo de nuevo con otra foto.',
+    noImage:
+      'No recibí ninguna imagen. Envía la foto de tu Pokémon por mensaje de texto a este número y la analizaré.',
+    goodbye: 'Gracias por llamar a la Pokédex. ¡Hasta luego!',
+    idleGoodbye:
+      'Hace rato que no te oigo, así que voy a colgar. ¡Gracias por llamar a la Pokédex!',
+    handoff: 'Te paso con una persona. Espera un momento, por favor.',
+    handoffUnavailable:
+      'Lo siento, ahora mismo no hay nadie disponible. ¡Pero puedo seguir ayudándote!',
+    apology:
+      'Lo siento, ahora mismo tengo problemas para buscar eso. ¿Me lo preguntas de nuevo en un momento?',
+    nothingToRepeat:
+      'Todavía no te he respondido nada. ¡Pregúntame por cualquier Pokémon!',
+    smsSent: 'Te he enviado mi última respuesta por mensaje de texto.',
+    smsNothingToSend: 'Todavía no hay ninguna respuesta que enviarte.',
+    smsNoNumber: 'Lo siento, no tengo un número al que escribirte.',
+    smsFailed: 'Lo siento, ahora mismo no puedo enviar el mensaje.',
+    photoRequested: '¡Claro! Envíame la foto por mensaje y le echo un vistazo.',
+    photosUnavailable: 'Lo siento, en esta llamada no puedo recibir fotos.',
+    analyzingPhoto: 'Estoy mirando tu foto ahora mismo.',
+    keypad: {
+      star: 'asterisco',
+      pound: 'almohadilla',
+      options: {
+        repeat: 'volver a oír mi última respuesta',
+        sms: 'recibir mi última respuesta por mensaje de texto',
+        photo: 'identificar un Pokémon a partir de una foto',
+        help: 'oír estas opciones',
+        hang_up: 'terminar la llamada',
+      },
+      press: (key, option) => `Pulsa ${key} para ${option}.`,
+      none: 'No hay opciones de teclado en esta llamada.',
+      notAnOption: (key) => `Lo siento, ${key} no es una opción.`,
+      helpKey: (key) => `Pulsa ${key} para oír las opciones.`,
+    },
+  },
+  fr: {
+    code: 'fr',
+    tag: 'fr-FR',
+    name: 'French',
+    ttsProvider: 'Google',
+    voice: 'fr-FR-Neural2-A',
+    names: ['french', 'frances', 'francais', 'franzosisch'],
+    callingCodes: ['+33'],
+    welcome:
+      'Bonjour ! Bienvenue au centre d’appels du Pokédex. Posez-moi une question sur n’importe quel Pokémon !',
+    askName:
+      'Bienvenue au centre d’appels du Pokédex. Puis-je avoir votre prénom, s’il vous plaît ?',
+    returning: [
+      (name) => `Salut ${name} ! Quel Pokémon t’intéresse aujourd’hui ?`,
+      (name) =>
+        `${name}, content de t’entendre à nouveau ! Quel Pokémon cherchons-nous ?`,
+      (name) => `Re-bonjour ${name} ! De quel Pokémon veux-tu parler ?`,
+    ],
+    switched: 'Bien sûr, parlons en français. Quel Pokémon t’intéresse ?',
+    waitingForPhoto:
+      'J’attends la photo de ton Pokémon. Envoie-la par SMS, s’il te plaît.',
+    photoTimeout:
+      'Je n’ai pas reçu de photo à temps. Si tu veux, redemande-moi de regarder ta photo et envoie-la maintenant.',
+    imageTooSlow:
+      'Désolé, l’analyse de l’image a pris trop de temps. Essaie d’envoyer une photo plus petite ou plus nette.',
+    imageFailed:
+      'Désolé, je n’ai pas réussi à analyser cette image. Réessaie avec une autre photo.',
+    noImage:
+      'Je n’ai pas reçu d’image. Envoie la photo de ton Pokémon par SMS à ce numéro et je l’analyserai.',
+    goodbye: 'Merci d’avoir appelé le Pokédex. Au revoir !',
+    idleGoodbye:
+      'Je ne t’entends plus depuis un moment, alors je raccroche. Merci d’avoir appelé le Pokédex !',
+    handoff: 'Je te mets en relation avec une personne. Ne quitte pas.',
+    handoffUnavailable:
+      'Désolé, personne n’est disponible pour le moment. Mais je peux continuer à t’aider !',
+    apology:
+      'Désolé, j’ai du mal à trouver ça pour le moment. Peux-tu me redemander dans un instant ?',
+    nothingToRepeat:
+      'Je n’ai encore rien répondu. Pose-moi une question sur n’importe quel Pokémon !',
+    smsSent: 'Je t’ai envoyé ma dernière réponse par SMS.',
+    smsNothingToSend: 'Il n’y a pas encore de réponse à t’envoyer.',
+    smsNoNumber: 'Désolé, je n’ai pas de numéro auquel écrire.',
+    smsFailed: 'Désolé, je n’ai pas pu envoyer le SMS pour le moment.',
+    photoRequested: 'Bien sûr ! Envoie-moi la photo par SMS et je regarde.',
+    photosUnavailable:
+      'Désolé, je ne peux pas recevoir de photos pendant cet appel.',
+    analyzingPhoto: 'Je regarde ta photo en ce moment.',
+    keypad: {
+      star: 'étoile',
+      pound: 'dièse',
+      options: {
+        repeat: 'réentendre ma dernière réponse',
+        sms: 'recevoir ma dernière réponse par SMS',
+        photo: 'identifier un Pokémon à partir d’une photo',
+        help: 'entendre ces options',
+        hang_up: 'terminer l’appel',
+      },
+      press: (key, option) => `Appuie sur ${key} pour ${option}.`,
+      none: 'Il n’y a pas d’options de clavier pour cet appel.',
+      notAnOption: (key) => `Désolé, ${key} n’est pas une option.`,
+      helpKey: (key) => `Appuie sur ${key} pour entendre les options.`,
+    },
+  },
+  de: {
+    code: 'de',
+    tag: 'de-DE',
+    name: 'German',
+    ttsProvider: 'Google',
+    voice: 'de-DE-Neural2-A',
+    names: ['german', 'aleman', 'allemand', 'deutsch'],
+    callingCodes: ['+49', '+43'],
+    welcome:
+      'Hallo! Willkommen beim Pokédex-Callcenter. Frag mich nach jedem Pokémon!',
+    askName: 'Willkommen beim Pokédex-Callcenter. Wie heißt du, bitte?',
+    returning: [
+      (name) => `Hey ${name}! Über welches Pokémon möchtest du heute reden?`,
+      (name) =>
+        `${name}, schön, wieder von dir zu hören! Welches Pokémon schauen wir nach?`,
+      (name) =>
+        `Willkommen zurück, ${name}! Welches Pokémon interessiert dich?`,
+    ],
+    switched: 'Klar, sprechen wir Deutsch. Welches Pokémon interessiert dich?',
+    waitingForPhoto:
+      'Ich warte auf das Foto deines Pokémon. Bitte schick es per SMS.',
+    photoTimeout:
+      'Ich habe kein Foto rechtzeitig bekommen. Wenn du willst, bitte mich noch einmal, dein Foto anzusehen, und schick es jetzt.',
+    imageTooSlow:
+      'Entschuldige, die Bildanalyse hat zu lange gedauert. Schick bitte ein kleineres oder schärferes Foto.',
+    imageFailed:
+      'Entschuldige, ich konnte das Bild nicht analysieren. Versuch es bitte mit einem anderen Foto.',
+    noImage:
+      'Ich habe kein Bild bekommen. Schick das Foto deines Pokémon per SMS an diese Nummer, dann analysiere ich es.',
+    goodbye: 'Danke für deinen Anruf beim Pokédex. Tschüss!',
+    idleGoodbye:
+      'Ich habe eine Weile nichts von dir gehört, deshalb lege ich jetzt auf. Danke für deinen Anruf beim Pokédex!',
+    handoff: 'Ich verbinde dich mit einer Person. Bitte bleib dran.',
+    handoffUnavailable:
+      'Leider ist gerade niemand erreichbar. Aber ich helfe dir gern weiter!',
+    apology:
+      'Entschuldige, ich kann das gerade nicht nachschlagen. Frag mich bitte gleich noch einmal.',
+    nothingToRepeat:
+      'Ich habe noch nichts beantwortet. Frag mich nach jedem Pokémon!',
+    smsSent: 'Ich habe dir meine letzte Antwort per SMS geschickt.',
+    smsNothingToSend: 'Es gibt noch keine Antwort, die ich dir schicken kann.',
+    smsNoNumber: 'Leider habe ich keine Nummer, an die ich schreiben kann.',
+    smsFailed: 'Leider konnte ich gerade keine SMS senden.',
+    photoRequested:
+      'Klar! Schick mir das Foto per SMS und ich schaue es mir an.',
+    photosUnavailable:
+      'Leider kann ich bei diesem Anruf keine Fotos empfangen.',
+    analyzingPhoto: 'Ich schaue mir dein Foto gerade an.',
+    keypad: {
+      star: 'Stern',
+      pound: 'Raute',
+      options: {
+        repeat: 'meine letzte Antwort noch einmal zu hören',
+        sms: 'meine letzte Antwort per SMS zu bekommen',
+        photo: 'ein Pokémon auf einem Foto zu erkennen',
+        help: 'diese Optionen zu hören',
+        hang_up: 'den Anruf zu beenden',
+      },
+      press: (key, option) => `Drücke ${key}, um ${option}.`,
+      none: 'Für diesen Anruf gibt es keine Tastenoptionen.',
+      notAnOption: (key) => `Entschuldige, ${key} ist keine Option.`,
+      helpKey: (key) => `Drücke ${key}, um die Optionen zu hören.`,
+    },
+  },
+};
+
+export function getLocale(code: LanguageCode): Locale {
+  return LOCALES[code];
+}
+
+export function welcomeGreetingFor(code: LanguageCode): string {
+  return LOCALES[code].welcome ?? getEnv().RELAY_WELCOME_GREETING;
+}
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGE_CODES.includes(value as LanguageCode);
+}
+
+/**
+ * Language for a call: the caller's stored preference, else the one their
+ * country calling code suggests, else DEFAULT_LANGUAGE.
+ */
+export function resolveLanguage(
+  stored?: string | null,
+  phoneNumber?: string | null
+): LanguageCode {
+  if (isLanguageCode(stored)) return stored;
+  const phone = phoneNumber?.replace(/^whatsapp:/i, '') ?? '';
+  const byPhone = LANGUAGE_CODES.find((code) =>
+    LOCALES[code].callingCodes.some((prefix) => phone.startsWith(prefix))
+  );
+  return byPhone ?? getEnv().DEFAULT_LANGUAGE;
+}
+
+// Appended to system prompts so the model answers in the call's language
+export function languageInstruction(code: LanguageCode): string {
+  const { name } = LOCALES[code];
+  return `Always reply in ${name}, whatever language earlier messages were in. Keep Pokémon names as they are.`;
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "speak", "hablar", "parlons", "sprechen", ...
+const SWITCH_VERB =
+  /\b(speak|talk|switch|change|habla\w*|cambi\w*|parl\w*|sprich|sprech\w*|wechs\w*)\b/;
+const POLITE = '(?: please| por favor| s il vous plait| bitte)?';
+
+/**
+ * Language the caller asks to switch to ("can you speak Spanish",
+ * "en français", "Deutsch bitte"), or null. A language merely mentioned
+ * ("what is Pikachu called in French") is not a request.
+ */
+export function detectLanguageSwitch(text: string): LanguageCode | null {
+  const words = normalize(text);
+  if (!words) return null;
+  for (const code of LANGUAGE_CODES) {
+    for (const name of LOCALES[code].names) {
+      if (!new RegExp(`\\b${name}\\b`).test(words)) continue;
+      const bare = new RegExp(`^(?:(?:in|en|auf) )?${name}${POLITE}$`);
+      if (bare.test(words) || SWITCH_VERB.test(words)) return code;
+    }
+  }
+  return null;
+}
+
+// generateTwiML options for a call starting in `code`, with a <Language>
+// element per locale so the call can switch mid-way
+export function twimlLanguageOptions(code: LanguageCode) {
+  const { tag, ttsProvider, voice } = LOCALES[code];
+  const languages: TwiMLLanguage[] = LANGUAGE_CODES.map((other) => ({
+    code: LOCALES[other].tag,
+    ttsProvider: LOCALES[other].ttsProvider,
+    voice: LOCALES[other].voice,
+  }));
+  return { language: tag, ttsProvider, voice, languages };
+}
+
+// ConversationRelay message switching speech to another language mid-call
+export function languageSwitchMessage(code: LanguageCode) {
+  const { tag } = LOCALES[code];
+  return { type: 'language', ttsLanguage: tag, transcriptionLanguage: tag };
+}
@@ -1,4 +1,5 @@
 import { getEnv } from '../config/env';
+import { redactLogArgs } from './redact';
 
 type Level = 'error' | 'warn' | 'info' | 'debug' | 'trace';
 
@@ -18,11 +19,16 @@ function enabled(level: Level) {
   return order[level] <= order[currentLevel()];
 }
 
+// Arguments are redacted (see utils/redact.ts) only when the level is enabled
 export const log = {
-  error: (...args: unknown[]) => enabled('error') && console.error(...args),
-  warn: (...args: unknown[]) => enabled('warn') && console.warn(...args),
-  info: (...args: unknown[]) => enabled('info') && console.log(...args),
-  debug: (...args: unknown[]) => enabled('debug') && console.log(...args),
-  trace: (...args: unknown[]) => enabled('trace') && console.log(...args),
+  error: (...args: unknown[]) =>
+    enabled('error') && console.error(...redactLogArgs(args)),
+  warn: (...args: unknown[]) =>
+    enabled('warn') && console.warn(...redactLogArgs(args)),
+  info: (...args: unknown[]) =>
+    enabled('info') && console.log(...redactLogArgs(args)),
+  debug: (...args: unknown[]) =>
+    enabled('debug') && console.log(...redactLogArgs(args)),
+  trace: (...args: unknown[]) =>
+    enabled('trace') && console.log(...redactLogArgs(args)),
 };
-
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { resetEnv } from '../config/env';
+import {
+  maskPhone,
+  redactLogArgs,
+  redactText,
+  redactTranscript,
+} from './redact';
+
+afterEach(() => {
+  delete process.env.REDACT_TRANSCRIPTS;
+  delete process.env.REDACT_LOGS;
+  resetEnv();
+});
+
+describe('redactText', () => {
+  test.each([
+    ['call me at +15551234567', 'call me at [phone]'],
+    ['my number is (555) 123-4567', 'my number is [phone]'],
+    ['try 555.123.4567 later', 'try [phone] later'],
+    ['or 1 555 123 4567', 'or [phone]'],
+  ])('replaces phone numbers: %s', (input, expected) => {
+    expect(redactText(input, 'transcript')).toBe(expected);
+  });
+
+  test('leaves call SIDs and short numbers alone', () => {
+    const text = 'CA1234567890abcdef1234567890abcdef asked about 151 Pokémon';
+    expect(redactText(text, 'transcript')).toBe(text);
+  });
+
+  test('replaces email addresses', () => {
+    expect(redactText('mail ash.ketchum+dex@pallet.co.jp', 'transcript')).toBe(
+      'mail [email]'
+    );
+  });
+
+  test('replaces card numbers before phone numbers', () => {
+    expect(redactText('card 4111 1111 1111 1111', 'transcript')).toBe(
+      'card [card]'
+    );
+  });
+
+  test.each([
+    ['I am at 1600 Pennsylvania Avenue now', 'I am at [address] now'],
+    ['Send it to 42 Wallaby Way.', 'Send it to [address]'],
+    ['we moved to 7 Elm St', 'we moved to [address]'],
+    ['I live at 42 wallaby way', 'I live at [address]'],
+    ['my address is 12 oak road', 'my address is [address]'],
+  ])('replaces addresses: %s', (input, expected) => {
+    expect(redactText(input, 'transcript')).toBe(expected);
+  });
+
+  test.each([
+    '2 Charizard drive me crazy',
+    'the 3 legendary birds lane',
+    'I caught 3 pikachu on my way home',
+    'Is Route 1 the best way to Viridian?',
+  ])('leaves Pokémon talk alone: %s', (text) => {
+    expect(redactText(text, 'transcript')).toBe(text);
+  });
+
+  test('masks phone numbers to their last four digits in logs', () => {
+    expect(redactText('from +15551234567', 'log')).toBe('from ***4567');
+  });
+});
+
+describe('maskPhone', () => {
+  test('keeps the last four digits', () => {
+    expect(maskPhone('+1 (555) 123-4567')).toBe('***4567');
+  });
+
+  test('hides very short numbers completely', () => {
+    expect(maskPhone('1234')).toBe('***');
+  });
+});
+
+describe('redactTranscript', () => {
+  test('redacts by default', () => {
+    expect(redactTranscript('text +15551234567')).toBe('text [phone]');
+  });
+
+  test('keeps the text when REDACT_TRANSCRIPTS=false', () => {
+    process.env.REDACT_TRANSCRIPTS = 'false';
+    resetEnv();
+    expect(redactTranscript('text +15551234567')).toBe('text +15551234567');
+  });
+});
+
+describe('redactLogArgs', () => {
+  test('redacts strings, nested values and name keys', () => {
+    const [message, meta] = redactLogArgs([
+      'caller +15551234567',
+      { phoneNumber: '+15551234567', callerName: 'Ash', turns: ['a@b.co'] },
+    ]);
+    expect(message).toBe('caller ***4567');
+    expect(meta).toEqual({
+      phoneNumber: '***4567',
+      callerName: '[name]',
+      turns: ['[email]'],
+    });
+  });
+
+  test('logs errors as redacted text and leaves the original intact', () => {
+    const error = new TypeError('no caller +15551234567');
+    const [logged] = redactLogArgs([error]);
+
+    expect(logged).toBeString();
+    expect(logged).toStartWith('TypeError: no caller ***4567');
+    expect(error.message).toBe('no caller +15551234567');
+    expect(error.stack).toContain('+15551234567');
+  });
+
+  test('keeps extra error fields', () => {
+    const error = Object.assign(new Error('lookup failed'), {
+      code: 'E_LOOKUP',
+      phoneNumber: '+15551234567',
+    });
+    expect(redactLogArgs([error])[0]).toMatchObject({
+      code: 'E_LOOKUP',
+      phoneNumber: '***4567',
+    });
+  });
+
+  test('passes arguments through when REDACT_LOGS=false', () => {
+    process.env.REDACT_LOGS = 'false';
+    resetEnv();
+    const meta = { phoneNumber: '+15551234567' };
+    expect(redactLogArgs([meta])[0]).toBe(meta);
+  });
+});
@@ -0,0 +1,142 @@
+import { getEnv } from '../config/env';
+
+// PII redaction for stored transcripts and log output.
+// Transcripts get typed placeholders ("[phone]"); logs keep the last four
+// digits of phone numbers so calls can still be told apart while debugging.
+
+export type RedactionKind = 'card' | 'email' | 'phone' | 'address' | 'custom';
+
+export type RedactionMode = 'transcript' | 'log';
+
+// 13-19 digits, optionally grouped by spaces or dashes (card-like runs)
+const CARD_PATTERN = /(?<![\w+])\d(?:[ -]?\d){12,18}(?![\w])/g;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+
+// E.164 ("+15551234567") and North American formats ("(555) 123-4567",
+// "555.123.4567", "1 555 123 4567"). Word boundaries keep call SIDs and other
+// alphanumeric ids intact.
+const PHONE_PATTERN =
+  /(?<![\w+])(?:\+\d{8,15}|(?:\+?1[ .-]?)?(?:\(\d{3}\)|\d{3})[ .-]?\d{3}[ .-]?\d{4})(?!\w)/g;
+
+// Street suffixes ("42 Wallaby Way", "7 Elm St.")
+const STREET_SUFFIX =
+  '(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|terrace|circle|cir|highway|hwy|parkway|pkwy)';
+
+// House number, one to three capitalized street-name words and a capitalized
+// suffix: "1600 Pennsylvania Avenue". Lowercase phrases such as "2 Charizard
+// drive me crazy" or "the 3 legendary birds lane" are ordinary talk.
+const ADDRESS_PATTERN = new RegExp(
+  `\\b\\d{1,6}(?:\\s+[A-Z][\\w'.-]*){1,3}\\s+(?:${capitalized(STREET_SUFFIX)})\\b\\.?`,
+  'g'
+);
+
+// Any capitalization after words that introduce an address ("I live at 42
+// wallaby way"); only the address itself is replaced
+const ADDRESS_IN_CONTEXT_PATTERN = new RegExp(
+  `(\\b(?:live|lives|living|located|staying|address is|ship it to|send it to|mail it to)(?:\\s+(?:at|on|in))?\\s+)\\d{1,6}(?:\\s+[a-z][\\w'.-]*){1,3}\\s+${STREET_SUFFIX}\\b\\.?`,
+  'gi'
+);
+
+// "(?:street|st)" -> "(?:Street|St)"
+function capitalized(alternation: string): string {
+  return alternation.replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+// Object keys whose string values are personal names (log arguments only)
+const NAME_KEYS = /^(?:name|callerName|firstName|lastName|fullName)$/i;
+
+const MAX_DEPTH = 6;
+
+const PLACEHOLDERS: Record<Exclude<RedactionKind, 'phone'>, string> = {
+  card: '[card]',
+  email: '[email]',
+  address: '[address]',
+  custom: '[redacted]',
+};
+
+// "+15551234567" -> "***4567"
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length <= 4 ? '***' : `***${digits.slice(-4)}`;
+}
+
+let customPatterns: RegExp[] | null = null;
+
+function getCustomPatterns(): RegExp[] {
+  if (!customPatterns) {
+    // Sources are validated when the environment is parsed
+    customPatterns = getEnv().REDACT_PATTERNS.map(
+      (source) => new RegExp(source, 'gi')
+    );
+  }
+  return customPatterns;
+}
+
+/**
+ * Replace PII in free text. Cards run before phones so long digit runs are
+ * not partially masked as phone numbers; custom patterns run last.
+ */
+export function redactText(text: string, mode: RedactionMode): string {
+  if (!text) return text;
+  let result = text
+    .replace(CARD_PATTERN, PLACEHOLDERS.card)
+    .replace(EMAIL_PATTERN, PLACEHOLDERS.email)
+    .replace(PHONE_PATTERN, (match) =>
+      mode === 'log' ? maskPhone(match) : '[phone]'
+    )
+    .replace(ADDRESS_IN_CONTEXT_PATTERN, `$1${PLACEHOLDERS.address}`)
+    .replace(ADDRESS_PATTERN, PLACEHOLDERS.address);
+  for (const pattern of getCustomPatterns()) {
+    result = result.replace(pattern, PLACEHOLDERS.custom);
+  }
+  return result;
+}
+
+// Text persisted to the database (conversation turns)
+export function redactTranscript(text: string): string {
+  return getEnv().REDACT_TRANSCRIPTS ? redactText(text, 'transcript') : text;
+}
+
+function redactValue(value: unknown, depth: number, key?: string): unknown {
+  if (typeof value === 'string') {
+    return key && NAME_KEYS.test(key) ? '[name]' : redactText(value, 'log');
+  }
+  if (value === null || typeof value !== 'object' || depth >= MAX_DEPTH) {
+    return value;
+  }
+  if (value instanceof Error) {
+    // Logged as its redacted stack text; the error itself is left alone, as
+    // the caller may still rethrow or inspect it. (An Error copy would print
+    // the code frame of this line instead of where it was thrown.)
+    const text = redactText(
+      value.stack || `${value.name}: ${value.message}`,
+      'log'
+    );
+    const fields = Object.entries(value);
+    if (fields.length === 0) return text;
+    return {
+      error: text,
+      ...Object.fromEntries(
+        fields.map(([k, v]) => [k, redactValue(v, depth + 1, k)])
+      ),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+  // Only plain objects are rewritten; class instances are printed as-is
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, redactValue(v, depth + 1, k)])
+  );
+}
+
+// Arguments of a log.* call
+export function redactLogArgs(args: unknown[]): unknown[] {
+  if (!getEnv().REDACT_LOGS) return args;
+  return args.map((arg) => redactValue(arg, 0));
+}
@@ -1,9 +1,11 @@
+import type { LanguageCode } from './locales';
+
 /**
  * Friendly thinking messages for Pokemon queries
  * These are sent immediately to provide user feedback while AI processes the response
  */
 
-const THINKING_MESSAGES = [
+const THINKING_MESSAGES_EN = [
   'Got it! Let me think about that Pokémon for you...',
   "Hmm, that's a great question! Gathering my thoughts...",
   'One moment while I recall everything about that Pokémon!',
@@ -36,19 +38,48 @@ const THINKING_MESSAGES = [
   "Perfect question! I'm compiling the answer...",
 ] as const;
 
+const THINKING_MESSAGES: Record<LanguageCode, readonly string[]> = {
+  en: THINKING_MESSAGES_EN,
+  es: [
+    '¡Entendido! Déjame pensar en ese Pokémon...',
+    '¡Buena pregunta! Un momento mientras lo reviso...',
+    'Consultando mi Pokédex, un segundo...',
+    '¡Me encanta hablar de Pokémon! Déjame pensar...',
+    '¡Ese es uno de mis favoritos! Un momento...',
+  ],
+  fr: [
+    'Compris ! Laisse-moi réfléchir à ce Pokémon...',
+    'Bonne question ! Un instant, je vérifie...',
+    'Je consulte mon Pokédex, une seconde...',
+    'J’adore parler de Pokémon ! Je réfléchis...',
+    'C’est un de mes préférés ! Un instant...',
+  ],
+  de: [
+    'Alles klar! Lass mich über dieses Pokémon nachdenken...',
+    'Gute Frage! Einen Moment, ich schaue nach...',
+    'Ich durchsuche meinen Pokédex, eine Sekunde...',
+    'Ich rede so gern über Pokémon! Moment...',
+    'Das ist einer meiner Lieblinge! Einen Augenblick...',
+  ],
+};
+
 /**
  * Get a random thinking message from the pool
+ * @param language Language of the call (default English)
  * @returns A random friendly thinking message
  */
-export function getRandomThinkingMessage(): string {
-  const randomIndex = Math.floor(Math.random() * THINKING_MESSAGES.length);
-  return THINKING_MESSAGES[randomIndex];
+export function getRandomThinkingMessage(
+  language: LanguageCode = 'en'
+): string {
+  const messages = THINKING_MESSAGES[language];
+  const randomIndex = Math.floor(Math.random() * messages.length);
+  return messages[randomIndex];
 }
 
 /**
  * Image processing messages - sent when analyzing Pokémon photos
  */
-const IMAGE_PROCESSING_MESSAGES = [
+const IMAGE_PROCESSING_MESSAGES_EN = [
   'I received your photo! Let me analyze this Pokémon for you...',
   'Got your Pokémon photo! Give me a moment to identify it...',
   'Photo received! My Pokédex scanner is working on it...',
@@ -66,29 +97,56 @@ const IMAGE_PROCESSING_MESSAGES = [
   'I got your Pokémon photo! Analyzing it now...',
 ] as const;
 
+const IMAGE_PROCESSING_MESSAGES: Record<LanguageCode, readonly string[]> = {
+  en: IMAGE_PROCESSING_MESSAGES_EN,
+  es: [
+    '¡Recibí tu foto! Déjame identificar a este Pokémon...',
+    '¡Foto recibida! Mi Pokédex la está analizando...',
+    '¡Gracias por la foto! La estoy revisando...',
+  ],
+  fr: [
+    'J’ai reçu ta photo ! Je vais identifier ce Pokémon...',
+    'Photo reçue ! Mon Pokédex l’analyse...',
+    'Merci pour la photo ! Je l’examine...',
+  ],
+  de: [
+    'Ich habe dein Foto! Ich bestimme gleich dieses Pokémon...',
+    'Foto erhalten! Mein Pokédex analysiert es...',
+    'Danke für das Foto! Ich schaue es mir an...',
+  ],
+};
+
 /**
  * Get a random image processing message
+ * @param language Language of the call (default English)
  * @returns A random friendly image processing message
  */
-export function getRandomImageProcessingMessage(): string {
-  const randomIndex = Math.floor(
-    Math.random() * IMAGE_PROCESSING_MESSAGES.length
-  );
-  return IMAGE_PROCESSING_MESSAGES[randomIndex];
+export function getRandomImageProcessingMessage(
+  language: LanguageCode = 'en'
+): string {
+  const messages = IMAGE_PROCESSING_MESSAGES[language];
+  const randomIndex = Math.floor(Math.random() * messages.length);
+  return messages[randomIndex];
 }
 
 /**
  * Get the total number of available image processing messages
+ * @param language Language of the call (default English)
  * @returns The count of image processing messages
  */
-export function getImageProcessingMessagesCount(): number {
-  return IMAGE_PROCESSING_MESSAGES.length;
+export function getImageProcessingMessagesCount(
+  language: LanguageCode = 'en'
+): number {
+  return IMAGE_PROCESSING_MESSAGES[language].length;
 }
 
 /**
  * Get the total number of available thinking messages
+ * @param language Language of the call (default English)
  * @returns The count of thinking messages
  */
-export function getThinkingMessagesCount(): number {
-  return THINKING_MESSAGES.length;
+export function getThinkingMessagesCount(
+  language: LanguageCode = 'en'
+): number {
+  return THINKING_MESSAGES[language].length;
 }
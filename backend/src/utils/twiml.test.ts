@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  generateHandoffTwiML,
+  generateTwiML,
+  type RelayAttributes,
+} from './twiml';
+
+const WS = 'wss://example.com/ws';
+
+// The <ConversationRelay ...> start tag
+function relayTag(attributes: RelayAttributes = {}): string {
+  const twiml = generateTwiML({ websocketUrl: WS, ...attributes });
+  return twiml.match(/<ConversationRelay[^>]*>/)?.[0] ?? '';
+}
+
+describe('generateTwiML', () => {
+  test('connects to the WebSocket with no other attributes by default', () => {
+    expect(generateTwiML({ websocketUrl: WS })).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Connect>' +
+        `<ConversationRelay url="${WS}"/>` +
+        '</Connect></Response>'
+    );
+  });
+
+  test.each<[keyof RelayAttributes, RelayAttributes, string]>([
+    ['welcomeGreeting', { welcomeGreeting: 'Hi!' }, 'welcomeGreeting="Hi!"'],
+    [
+      'welcomeGreetingInterruptible',
+      { welcomeGreetingInterruptible: 'none' },
+      'welcomeGreetingInterruptible="none"',
+    ],
+    ['language', { language: 'es-US' }, 'language="es-US"'],
+    ['ttsProvider', { ttsProvider: 'Google' }, 'ttsProvider="Google"'],
+    ['voice', { voice: 'es-US-Neural2-A' }, 'voice="es-US-Neural2-A"'],
+    [
+      'transcriptionProvider',
+      { transcriptionProvider: 'Deepgram' },
+      'transcriptionProvider="Deepgram"',
+    ],
+    ['speechModel', { speechModel: 'nova-2' }, 'speechModel="nova-2"'],
+    ['hints', { hints: ['Pikachu', 'Mr. Mime'] }, 'hints="Pikachu,Mr. Mime"'],
+    ['interruptible', { interruptible: 'speech' }, 'interruptible="speech"'],
+    [
+      'interruptSensitivity',
+      { interruptSensitivity: 'high' },
+      'interruptSensitivity="high"',
+    ],
+    ['dtmfDetection', { dtmfDetection: true }, 'dtmfDetection="true"'],
+  ])('renders %s', (_, attributes, expected) => {
+    expect(relayTag(attributes)).toContain(` ${expected}`);
+  });
+
+  test('renders dtmfDetection="false" but omits empty attributes', () => {
+    const tag = relayTag({ dtmfDetection: false, voice: '', hints: [] });
+    expect(tag).toContain(' dtmfDetection="false"');
+    expect(tag).not.toContain('voice=');
+    expect(tag).not.toContain('hints=');
+  });
+
+  test('renders statusCallback as the <Connect action>', () => {
+    const twiml = generateTwiML({
+      websocketUrl: WS,
+      statusCallback: 'https://example.com/twilio/handoff?a=1&b=2',
+    });
+    expect(twiml).toContain(
+      '<Connect action="https://example.com/twilio/handoff?a=1&amp;b=2">'
+    );
+    expect(relayTag()).not.toContain('statusCallback');
+  });
+
+  test('renders languages and parameters as children', () => {
+    const twiml = generateTwiML({
+      websocketUrl: WS,
+      languages: [
+        { code: 'en-US' },
+        { code: 'es-US', ttsProvider: 'Google', voice: 'es-US-Neural2-A' },
+      ],
+      parameters: { campaign: 'spring', tier: 'gold' },
+    });
+    expect(twiml).toContain(
+      `<ConversationRelay url="${WS}">` +
+        '<Language code="en-US"/>' +
+        '<Language code="es-US" ttsProvider="Google" voice="es-US-Neural2-A"/>' +
+        '<Parameter name="campaign" value="spring"/>' +
+        '<Parameter name="tier" value="gold"/>' +
+        '</ConversationRelay>'
+    );
+  });
+
+  test('escapes attribute values', () => {
+    const twiml = generateTwiML({
+      websocketUrl: `${WS}?phone=+1555&token="x"`,
+      welcomeGreeting: `Hi <caller> & "friends", it's me`,
+      hints: ["Farfetch'd", 'Nidoran<3'],
+      parameters: { 'a&b': `<"'>` },
+      languages: [{ code: 'en-US', voice: 'a"b' }],
+    });
+    expect(twiml).toContain(` url="${WS}?phone=+1555&amp;token=&quot;x&quot;"`);
+    expect(twiml).toContain(
+      ' welcomeGreeting="Hi &lt;caller&gt; &amp; &quot;friends&quot;, it&apos;s me"'
+    );
+    expect(twiml).toContain(' hints="Farfetch&apos;d,Nidoran&lt;3"');
+    expect(twiml).toContain(
+      '<Parameter name="a&amp;b" value="&lt;&quot;&apos;&gt;"/>'
+    );
+    expect(twiml).toContain('<Language code="en-US" voice="a&quot;b"/>');
+  });
+});
+
+describe('generateHandoffTwiML', () => {
+  test('dials the number, else joins the queue, else hangs up', () => {
+    expect(generateHandoffTwiML({ number: '+15550000000' })).toContain(
+      '<Dial>+15550000000</Dial>'
+    );
+    expect(generateHandoffTwiML({ queue: 'support & sales' })).toContain(
+      '<Enqueue>support &amp; sales</Enqueue>'
+    );
+    expect(generateHandoffTwiML()).toContain('<Hangup/>');
+  });
+});
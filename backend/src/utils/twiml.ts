@@ -1,26 +1,85 @@
-type TwiMLOpts = {
-  websocketUrl: string;
+// One <Language> element: speech settings used after a switch to `code`
+export type TwiMLLanguage = {
+  code: string; // BCP-47, e.g. es-US
+  ttsProvider?: string;
+  voice?: string;
+};
+
+export type Interruptible = 'none' | 'dtmf' | 'speech' | 'any';
+
+// ConversationRelay attributes and children that can vary per call; see
+// https://www.twilio.com/docs/voice/twiml/connect/conversationrelay
+export type RelayAttributes = {
   welcomeGreeting?: string;
+  welcomeGreetingInterruptible?: Interruptible;
+  language?: string; // language the call starts in
+  ttsProvider?: string; // e.g. Google, Amazon, ElevenLabs
+  voice?: string;
+  transcriptionProvider?: string; // e.g. Google, Deepgram
+  speechModel?: string;
+  hints?: string[]; // words and phrases the transcriber should expect
+  interruptible?: Interruptible; // what may cut a reply short
+  interruptSensitivity?: 'low' | 'medium' | 'high';
+  dtmfDetection?: boolean; // relay keypad presses as "dtmf" messages
+  parameters?: Record<string, string>; // sent back in setup.customParameters
+  statusCallback?: string; // <Connect action>, requested when the session ends
+  languages?: TwiMLLanguage[]; // languages the call may switch to
 };
 
+type TwiMLOpts = RelayAttributes & { websocketUrl: string };
+
 export function generateTwiML(opts: TwiMLOpts): string {
-  const { websocketUrl, welcomeGreeting } = opts;
+  const { websocketUrl, languages = [], parameters = {} } = opts;
   // Minimal TwiML that connects the call to ConversationRelay over WebSocket
   // https://www.twilio.com/docs/voice/conversationrelay
-  const greetingAttr = welcomeGreeting
-    ? ` welcomeGreeting="${escapeXml(welcomeGreeting)}"`
-    : '';
+  const attrs =
+    attr('url', websocketUrl) +
+    attr('welcomeGreeting', opts.welcomeGreeting) +
+    attr('welcomeGreetingInterruptible', opts.welcomeGreetingInterruptible) +
+    attr('language', opts.language) +
+    attr('ttsProvider', opts.ttsProvider) +
+    attr('voice', opts.voice) +
+    attr('transcriptionProvider', opts.transcriptionProvider) +
+    attr('speechModel', opts.speechModel) +
+    attr('hints', opts.hints?.join(',')) +
+    attr('interruptible', opts.interruptible) +
+    attr('interruptSensitivity', opts.interruptSensitivity) +
+    attr('dtmfDetection', flag(opts.dtmfDetection));
+  const children =
+    languages
+      .map(
+        (l) =>
+          `<Language${attr('code', l.code)}${attr('ttsProvider', l.ttsProvider)}${attr('voice', l.voice)}/>`
+      )
+      .join('') +
+    Object.entries(parameters)
+      .map(
+        ([name, value]) =>
+          `<Parameter${attr('name', name)}${attr('value', value)}/>`
+      )
+      .join('');
 
   return (
     `<?xml version="1.0" encoding="UTF-8"?>` +
     `<Response>` +
-    `<Connect>` +
-    `<ConversationRelay url="${escapeXml(websocketUrl)}"${greetingAttr}/>` +
+    `<Connect${attr('action', opts.statusCallback)}>` +
+    (children
+      ? `<ConversationRelay${attrs}>${children}</ConversationRelay>`
+      : `<ConversationRelay${attrs}/>`) +
     `</Connect>` +
     `</Response>`
   );
 }
 
+// ` name="value"`, or nothing when the value is unset
+function attr(name: string, value: string | undefined): string {
+  return value ? ` ${name}="${escapeXml(value)}"` : '';
+}
+
+function flag(value: boolean | undefined): string | undefined {
+  return value === undefined ? undefined : String(value);
+}
+
 function escapeXml(s: string): string {
   return s
     .replace(/&/g, '&amp;')
@@ -30,6 +89,19 @@ function escapeXml(s: string): string {
     .replace(/'/g, '&apos;');
 }
 
+// <Connect action> response once ConversationRelay has ended: dial the
+// operator number, else join the queue; with neither, hang up
+export function generateHandoffTwiML(
+  opts: { number?: string; queue?: string } = {}
+): string {
+  const next = opts.number
+    ? `<Dial>${escapeXml(opts.number)}</Dial>`
+    : opts.queue
+      ? `<Enqueue>${escapeXml(opts.queue)}</Enqueue>`
+      : `<Hangup/>`;
+  return `<?xml version="1.0" encoding="UTF-8"?><Response>${next}</Response>`;
+}
+
 // Simple Messaging TwiML helper
 export function generateMessagingTwiML(message: string): string {
   const body = message
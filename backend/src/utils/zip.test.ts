@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { crc32, inflateRawSync } from 'zlib';
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  data: string;
+}
+
+// Reads an archive back through its central directory, checking each entry
+// against its local header
+function readZip(archive: Buffer): ReadEntry[] {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  const directorySize = archive.readUInt32LE(end + 12);
+  let cursor = archive.readUInt32LE(end + 16);
+  expect(cursor + directorySize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(cursor)).toBe(0x02014b50);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const name = archive.toString(
+      'utf-8',
+      cursor + 46,
+      cursor + 46 + nameLength
+    );
+    const checksum = archive.readUInt32LE(cursor + 16);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const local = archive.readUInt32LE(cursor + 42);
+
+    expect(archive.readUInt32LE(local)).toBe(0x04034b50);
+    expect(archive.readUInt16LE(local + 26)).toBe(nameLength);
+    expect(archive.toString('utf-8', local + 30, local + 30 + nameLength)).toBe(
+      name
+    );
+    const start = local + 30 + nameLength;
+    const raw = inflateRawSync(archive.subarray(start, start + compressedSize));
+    expect(crc32(raw)).toBe(checksum);
+    expect(raw.length).toBe(archive.readUInt32LE(cursor + 24));
+
+    entries.push({
+      name,
+      flags: archive.readUInt16LE(cursor + 8),
+      method: archive.readUInt16LE(cursor + 10),
+      time: archive.readUInt16LE(cursor + 12),
+      date: archive.readUInt16LE(cursor + 14),
+      data: raw.toString('utf-8'),
+    });
+    cursor += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  test('writes deflated entries that read back intact', () => {
+    const archive = createZip([
+      { name: 'transcripts/2025-01-31_CA1.txt', data: 'Caller: Pikachu?\n' },
+      { name: 'transcripts/2025-02-01_CA2.csv', data: 'a,b\r\n'.repeat(500) },
+      { name: 'Pokédex.json', data: new TextEncoder().encode('{"é":1}') },
+    ]);
+    const entries = readZip(archive);
+    expect(entries.map((e) => [e.name, e.data])).toEqual([
+      ['transcripts/2025-01-31_CA1.txt', 'Caller: Pikachu?\n'],
+      ['transcripts/2025-02-01_CA2.csv', 'a,b\r\n'.repeat(500)],
+      ['Pokédex.json', '{"é":1}'],
+    ]);
+    // UTF-8 names, deflate
+    expect(entries.every((e) => e.flags === 0x0800 && e.method === 8)).toBe(
+      true
+    );
+    expect(archive.length).toBeLessThan(2500);
+  });
+
+  test('stamps entries with their DOS modification time', () => {
+    const [entry] = readZip(
+      createZip([
+        {
+          name: 'a.txt',
+          data: '',
+          modifiedAt: new Date(2025, 0, 31, 13, 45, 10),
+        },
+      ])
+    );
+    expect(entry.date).toBe(((2025 - 1980) << 9) | (1 << 5) | 31);
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 5);
+  });
+
+  test('an empty archive is just the end record', () => {
+    const archive = createZip([]);
+    expect(archive.length).toBe(22);
+    expect(readZip(archive)).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/auth-context';
+
+const CONFIRMATION = 'ERASE';
+
+export function EraseDataDialog() {
+  const { eraseAccount } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const [isErasing, setIsErasing] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isErasing) return;
+    setOpen(next);
+    if (!next) setConfirmation('');
+  };
+
+  const handleErase = async () => {
+    setIsErasing(true);
+    try {
+      const { deleted } = await eraseAccount();
+      toast.success('Your data has been erased', {
+        description: `Removed ${deleted.conversations} ${deleted.conversations === 1 ? 'call' : 'calls'} and ${deleted.images} ${deleted.images === 1 ? 'image' : 'images'}.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      toast.error('Failed to erase your data', {
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsErasing(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+          <Trash2 className="mr-2 h-4 w-4" />
+          Erase my data
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Erase all of your data?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This permanently deletes your call transcripts, Pokemon history, uploaded images
+            and the name we remember you by, and signs you out on every device. It cannot be
+            undone. Download your transcripts first if you want to keep them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="erase-confirmation">
+            Type <span className="font-mono font-semibold">{CONFIRMATION}</span> to confirm
+          </Label>
+          <Input
+            id="erase-confirmation"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="off"
+            disabled={isErasing}
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isErasing}>Cancel</AlertDialogCancel>
+          {/* A plain button so the dialog stays open until the request settles */}
+          <Button
+            variant="destructive"
+            onClick={handleErase}
+            disabled={confirmation.trim().toUpperCase() !== CONFIRMATION || isErasing}
+          >
+            {isErasing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="mr-2 h-4 w-4" />
+            )}
+            Erase everything
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -3,10 +3,12 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { formatDistanceToNow } from 'date-fns';
 import { Calendar, MessageSquare, Clock, Zap, Shield, Droplets, Leaf, Flame, Bug, Target } from 'lucide-react';
-import type { PokemonQuery } from '@/lib/types';
+import { TranscriptSnippet } from './transcript-snippet';
+import type { PokemonQuery, TranscriptMatch } from '@/lib/types';
 
 interface PokemonCardProps {
   query: PokemonQuery;
+  matches?: TranscriptMatch[];
   onViewDetails?: (callSid: string) => void;
 }
 
@@ -43,7 +45,7 @@ const pokemonTypeData = {
   }
 };
 
-export function PokemonCard({ query, onViewDetails }: PokemonCardProps) {
+export function PokemonCard({ query, matches, onViewDetails }: PokemonCardProps) {
   const formatPokemonName = (name: string) => {
     return name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
   };
@@ -181,6 +183,14 @@ export function PokemonCard({ query, onViewDetails }: PokemonCardProps) {
             </div>
           )}
           
+          {matches && matches.length > 0 && (
+            <div className="space-y-1.5 rounded-md border border-border bg-muted/40 p-3">
+              {matches.map((match) => (
+                <TranscriptSnippet key={match.turnIndex} match={match} />
+              ))}
+            </div>
+          )}
+
           <Button
             variant="outline"
             size="sm"
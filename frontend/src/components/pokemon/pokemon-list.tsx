@@ -3,7 +3,8 @@ import { Button } from '@/components/ui/button';
 import { PokemonCard } from './pokemon-card';
 import { SearchFilter } from './search-filter';
 import { Loader2, RefreshCw } from 'lucide-react';
-import { usePokemonQueriesInfinite } from '@/hooks/use-pokemon-queries';
+import { usePokemonQueriesInfinite, usePokemonSearch } from '@/hooks/use-pokemon-queries';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
 
 interface PokemonListProps {
   onViewDetails?: (callSid: string) => void;
@@ -24,15 +25,18 @@ export function PokemonList({ onViewDetails }: PokemonListProps) {
     isRefetching,
   } = usePokemonQueriesInfinite({ limit: 12 });
 
+  const debouncedTerm = useDebouncedValue(searchTerm.trim(), 300);
+  const search = usePokemonSearch(debouncedTerm, { limit: 12 });
+  const isSearchActive = debouncedTerm.length > 0;
+
   const allQueries = data?.pages.flatMap(page => page.queries) ?? [];
-  
-  const filteredQueries = searchTerm
-    ? allQueries.filter(query =>
-        query?.pokemon_names?.some(name => 
-          name.toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      )
-    : allQueries;
+  const totalQueries = data?.pages[0]?.pagination.total ?? allQueries.length;
+  const searchResults = search.data?.pages.flatMap(page => page.results) ?? [];
+  const searchTotal = search.data?.pages[0]?.pagination.total;
+  // Still typing, or waiting on the first page for the current term
+  const isSearching = searchTerm.trim() !== debouncedTerm || (isSearchActive && search.isLoading);
+
+  const activeList = isSearchActive ? search : { fetchNextPage, hasNextPage, isFetchingNextPage };
 
   if (isLoading) {
     return (
@@ -62,7 +66,7 @@ export function PokemonList({ onViewDetails }: PokemonListProps) {
     );
   }
 
-  if (filteredQueries.length === 0 && !searchTerm) {
+  if (allQueries.length === 0 && !searchTerm) {
     return (
       <div className="text-center py-12 space-y-4">
         <div className="text-muted-foreground">
@@ -81,18 +85,19 @@ export function PokemonList({ onViewDetails }: PokemonListProps) {
         <div>
           <h2 className="text-2xl font-bold text-foreground">Your Pokemon Queries</h2>
           <p className="text-muted-foreground">
-            {filteredQueries.length} {filteredQueries.length === 1 ? 'query' : 'queries'}
-            {searchTerm && ` matching "${searchTerm}"`}
+            {isSearchActive && searchTotal !== undefined
+              ? `${searchTotal} ${searchTotal === 1 ? 'call' : 'calls'} matching "${debouncedTerm}"`
+              : `${totalQueries} ${totalQueries === 1 ? 'query' : 'queries'}`}
           </p>
         </div>
         
         <Button
           variant="outline"
           size="sm"
-          onClick={() => refetch()}
-          disabled={isRefetching}
+          onClick={() => (isSearchActive ? search.refetch() : refetch())}
+          disabled={isRefetching || search.isRefetching}
         >
-          {isRefetching ? (
+          {isRefetching || search.isRefetching ? (
             <Loader2 className="h-4 w-4 animate-spin" />
           ) : (
             <RefreshCw className="h-4 w-4" />
@@ -103,36 +108,53 @@ export function PokemonList({ onViewDetails }: PokemonListProps) {
       <SearchFilter
         searchTerm={searchTerm}
         onSearchChange={setSearchTerm}
-        totalQueries={allQueries.length}
-        filteredCount={filteredQueries.length}
+        totalQueries={totalQueries}
+        matchCount={searchTotal}
+        isSearching={isSearching}
       />
 
-      {filteredQueries.length === 0 && searchTerm ? (
+      {isSearchActive && search.isError ? (
+        <div className="text-center py-8 space-y-2">
+          <p className="text-destructive">Search failed</p>
+          <p className="text-sm text-muted-foreground">
+            {search.error instanceof Error ? search.error.message : 'Something went wrong'}
+          </p>
+        </div>
+      ) : isSearchActive && !isSearching && searchResults.length === 0 ? (
         <div className="text-center py-8">
           <p className="text-muted-foreground">
-            No Pokemon queries found matching "{searchTerm}"
+            No conversations found matching "{debouncedTerm}"
           </p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredQueries.map((query) => (
-            <PokemonCard
-              key={query.call_sid}
-              query={query}
-              onViewDetails={onViewDetails}
-            />
-          ))}
+          {isSearchActive
+            ? searchResults.map((result) => (
+                <PokemonCard
+                  key={result.call_sid}
+                  query={result}
+                  matches={result.matches}
+                  onViewDetails={onViewDetails}
+                />
+              ))
+            : allQueries.map((query) => (
+                <PokemonCard
+                  key={query.call_sid}
+                  query={query}
+                  onViewDetails={onViewDetails}
+                />
+              ))}
         </div>
       )}
 
-      {hasNextPage && !searchTerm && (
+      {activeList.hasNextPage && (
         <div className="flex justify-center pt-6">
           <Button
             variant="outline"
-            onClick={() => fetchNextPage()}
-            disabled={isFetchingNextPage}
+            onClick={() => activeList.fetchNextPage()}
+            disabled={activeList.isFetchingNextPage}
           >
-            {isFetchingNextPage ? (
+            {activeList.isFetchingNextPage ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Loading more...
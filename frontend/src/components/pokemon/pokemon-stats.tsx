@@ -1,10 +1,69 @@
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, Zap, Calendar, Trophy } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TrendingUp, Zap, Clock, Timer } from 'lucide-react';
 import { usePokemonStats } from '@/hooks/use-pokemon-queries';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import type { StatsBucket, StatsRange } from '@/lib/types';
+
+type RangePreset = '7d' | '30d' | '90d' | 'all';
+
+const RANGE_PRESETS: Record<RangePreset, { label: string; days: number | null; bucket: StatsBucket }> = {
+  '7d': { label: '7 days', days: 7, bucket: 'day' },
+  '30d': { label: '30 days', days: 30, bucket: 'day' },
+  '90d': { label: '90 days', days: 90, bucket: 'week' },
+  all: { label: 'All time', days: null, bucket: 'month' },
+};
+
+const timelineConfig = {
+  calls: { label: 'Calls', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+const topPokemonConfig = {
+  count: { label: 'Calls', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+const CHANNEL_COLORS = ['var(--chart-1)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)'];
+
+const channelConfig = {
+  calls: { label: 'Calls' },
+  voice: { label: 'Voice', color: CHANNEL_COLORS[0] },
+  messaging: { label: 'Messaging', color: CHANNEL_COLORS[1] },
+} satisfies ChartConfig;
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatBucket(bucket: string, size: StatsBucket) {
+  const date = parseISO(bucket);
+  return size === 'month' ? format(date, 'MMM yyyy') : format(date, 'MMM d');
+}
 
 export function PokemonStats() {
-  const { data: stats, isLoading } = usePokemonStats();
+  const [preset, setPreset] = useState<RangePreset>('30d');
+
+  // Computed once per preset so the query key stays stable between renders
+  const range = useMemo<StatsRange>(() => {
+    const { days, bucket } = RANGE_PRESETS[preset];
+    return days === null
+      ? { bucket }
+      : { from: Math.floor(Date.now() / 1000) - days * 86400, bucket };
+  }, [preset]);
+
+  const { data, isLoading, isError } = usePokemonStats(range);
 
   if (isLoading) {
     return (
@@ -24,15 +83,22 @@ export function PokemonStats() {
     );
   }
 
-  if (!stats) {
-    return null;
+  if (isError || !data) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Statistics are unavailable right now.
+      </p>
+    );
   }
 
+  const { stats } = data;
+  const bucket = data.range.bucket;
+
   const statCards = [
     {
-      title: "Total Queries",
-      value: stats.totalQueries,
-      description: "Pokemon searched",
+      title: "Total Calls",
+      value: stats.totalCalls,
+      description: RANGE_PRESETS[preset].label,
       icon: TrendingUp,
       color: "text-blue-600 dark:text-blue-400",
     },
@@ -44,46 +110,145 @@ export function PokemonStats() {
       color: "text-yellow-600 dark:text-yellow-400",
     },
     {
-      title: "Last Query",
-      value: stats.lastQueryDate 
-        ? format(new Date(stats.lastQueryDate), 'MMM d') 
-        : "Never",
-      description: "Most recent search",
-      icon: Calendar,
+      title: "Average Call",
+      value: formatDuration(stats.averageDuration),
+      description: "Per call",
+      icon: Timer,
       color: "text-green-600 dark:text-green-400",
     },
     {
-      title: "Favorite Type",
-      value: stats.favoriteType || "Unknown",
-      description: "Most searched",
-      icon: Trophy,
+      title: "Total Talk Time",
+      value: formatDuration(stats.totalDuration),
+      description: "Across all calls",
+      icon: Clock,
       color: "text-purple-600 dark:text-purple-400",
     },
   ];
 
+  const timeline = stats.timeline.map((point) => ({
+    ...point,
+    label: formatBucket(point.bucket, bucket),
+  }));
+
+  const channels = stats.channels.map((entry, index) => ({
+    ...entry,
+    fill: CHANNEL_COLORS[index % CHANNEL_COLORS.length],
+  }));
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-      {statCards.map((stat, index) => {
-        const Icon = stat.icon;
-        return (
-          <Card key={index} className="bg-card border-border">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">
-                {stat.title}
-              </CardTitle>
-              <Icon className={`h-4 w-4 ${stat.color}`} />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-card-foreground">
-                {stat.value}
-              </div>
-              <p className="text-xs text-muted-foreground">
-                {stat.description}
-              </p>
-            </CardContent>
-          </Card>
-        );
-      })}
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={preset}
+          onValueChange={(value) => value && setPreset(value as RangePreset)}
+        >
+          {(Object.keys(RANGE_PRESETS) as RangePreset[]).map((key) => (
+            <ToggleGroupItem key={key} value={key} className="px-3">
+              {RANGE_PRESETS[key].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {statCards.map((stat, index) => {
+          const Icon = stat.icon;
+          return (
+            <Card key={index} className="bg-card border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {stat.title}
+                </CardTitle>
+                <Icon className={`h-4 w-4 ${stat.color}`} />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-card-foreground">
+                  {stat.value}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {stat.description}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">Calls over time</CardTitle>
+            <CardDescription>Per {bucket}, UTC</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {timeline.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-12 text-center">No calls in this period</p>
+            ) : (
+              <ChartContainer config={timelineConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={timeline}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="calls" fill="var(--color-calls)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Channels</CardTitle>
+            <CardDescription>Calls by channel</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {channels.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-12 text-center">No calls in this period</p>
+            ) : (
+              <ChartContainer config={channelConfig} className="h-64 w-full aspect-auto">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="channel" hideLabel />} />
+                  <Pie data={channels} dataKey="calls" nameKey="channel" innerRadius={50}>
+                    {channels.map((entry) => (
+                      <Cell key={entry.channel} fill={entry.fill} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="channel" />} />
+                </PieChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Top Pokemon</CardTitle>
+          <CardDescription>Number of calls each Pokemon came up in</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {stats.topPokemon.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No Pokemon mentioned yet</p>
+          ) : (
+            <ChartContainer
+              config={topPokemonConfig}
+              className="w-full aspect-auto"
+              style={{ height: Math.max(160, stats.topPokemon.length * 32) }}
+            >
+              <BarChart data={stats.topPokemon} layout="vertical" margin={{ left: 16 }}>
+                <XAxis type="number" allowDecimals={false} hide />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
-}
\ No newline at end of file
+}
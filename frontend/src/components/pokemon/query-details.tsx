@@ -5,6 +5,7 @@ import { Separator } from '@/components/ui/separator';
 import { ArrowLeft, Calendar, Phone, MessageSquare } from 'lucide-react';
 import { format } from 'date-fns';
 import { usePokemonQuery } from '@/hooks/use-pokemon-queries';
+import { TranscriptDownload } from './transcript-download';
 import { Loader2 } from 'lucide-react';
 
 interface QueryDetailsProps {
@@ -80,9 +81,12 @@ export function QueryDetails({ callSid, onBack }: QueryDetailsProps) {
                 </div>
               </div>
             </div>
-            <Badge variant="secondary">
-              Query #{query.id}
-            </Badge>
+            <div className="flex items-center gap-2">
+              <TranscriptDownload callSid={callSid} />
+              <Badge variant="secondary">
+                Query #{query.id}
+              </Badge>
+            </div>
           </div>
         </CardHeader>
 
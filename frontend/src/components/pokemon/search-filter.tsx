@@ -1,20 +1,22 @@
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Search, X } from 'lucide-react';
+import { Loader2, Search, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface SearchFilterProps {
   searchTerm: string;
   onSearchChange: (term: string) => void;
   totalQueries: number;
-  filteredCount: number;
+  matchCount?: number; // total server-side matches, once the search has run
+  isSearching?: boolean;
 }
 
 export function SearchFilter({
   searchTerm,
   onSearchChange,
   totalQueries,
-  filteredCount,
+  matchCount,
+  isSearching = false,
 }: SearchFilterProps) {
   const clearSearch = () => {
     onSearchChange('');
@@ -25,7 +27,7 @@ export function SearchFilter({
       <div className="relative max-w-md">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
-          placeholder="Search Pokemon..."
+          placeholder="Search transcripts..."
           value={searchTerm}
           onChange={(e) => onSearchChange(e.target.value)}
           className="pl-10 pr-10"
@@ -43,13 +45,17 @@ export function SearchFilter({
       </div>
 
       <div className="flex items-center gap-2 text-sm text-muted-foreground">
-        {searchTerm ? (
+        {searchTerm && isSearching ? (
           <>
-            <span>Showing</span>
-            <Badge variant="secondary">{filteredCount}</Badge>
+            <Loader2 className="h-3 w-3 animate-spin" />
+            <span>Searching...</span>
+          </>
+        ) : searchTerm && matchCount !== undefined ? (
+          <>
+            <Badge variant="secondary">{matchCount}</Badge>
             <span>of</span>
             <Badge variant="outline">{totalQueries}</Badge>
-            <span>queries</span>
+            <span>calls match</span>
           </>
         ) : (
           <>
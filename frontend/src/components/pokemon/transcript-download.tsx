@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiDownload } from '@/lib/api';
+import type { ExportFormat } from '@/lib/types';
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'txt', label: 'Plain text (.txt)' },
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'csv', label: 'Spreadsheet (.csv)' },
+  { format: 'json', label: 'JSON (.json)' },
+];
+
+interface TranscriptDownloadProps {
+  callSid: string;
+}
+
+export function TranscriptDownload({ callSid }: TranscriptDownloadProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async (format: ExportFormat) => {
+    setIsDownloading(true);
+    try {
+      await apiDownload(
+        `/api/pokemon-queries/${encodeURIComponent(callSid)}/export?format=${format}`,
+        `${callSid}.${format}`
+      );
+    } catch (error) {
+      toast.error('Download failed', {
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isDownloading}>
+          {isDownloading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Download
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Transcript format</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleDownload(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,30 @@
+import type { TranscriptMatch } from '@/lib/types';
+
+interface TranscriptSnippetProps {
+  match: TranscriptMatch;
+}
+
+// The API wraps matched terms in <mark></mark>; split on the markers and
+// render text nodes so transcript content is never injected as HTML.
+function highlight(snippet: string) {
+  return snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+    part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+      <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+        {part.slice(6, -7)}
+      </mark>
+    ) : (
+      part
+    )
+  );
+}
+
+export function TranscriptSnippet({ match }: TranscriptSnippetProps) {
+  return (
+    <p className="text-xs text-muted-foreground leading-relaxed">
+      <span className="font-medium text-card-foreground">
+        {match.role === 'user' ? 'You' : 'Pokedex'}:
+      </span>{' '}
+      {highlight(match.snippet)}
+    </p>
+  );
+}
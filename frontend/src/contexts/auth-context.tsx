@@ -1,7 +1,7 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiCall } from '@/lib/api';
-import type { Session, User } from '@/lib/types';
+import type { EraseDataResponse, Session, User } from '@/lib/types';
 import { queryKeys } from '@/lib/queries';
 
 interface AuthContextType {
@@ -9,6 +9,7 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   logout: () => Promise<void>;
+  eraseAccount: () => Promise<EraseDataResponse>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -52,11 +53,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Deletes all of the caller's data server-side; the session goes with it
+  const eraseAccount = async () => {
+    const result = await apiCall<EraseDataResponse>('/api/me', {
+      method: 'DELETE',
+    });
+    setUser(null);
+    queryClient.clear();
+    return result;
+  };
+
   const value: AuthContextType = {
     user,
     isLoading,
     isAuthenticated: !!user,
     logout,
+    eraseAccount,
   };
 
   return (
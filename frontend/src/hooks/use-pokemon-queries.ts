@@ -1,7 +1,7 @@
 import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
 import { apiCall } from '@/lib/api';
 import { queryKeys } from '@/lib/queries';
-import type { PokemonQuery, PokemonQueryStats, PaginatedResponse } from '@/lib/types';
+import type { PokemonQuery, PokemonQueryStats, PaginatedResponse, SearchResponse, StatsRange } from '@/lib/types';
 
 interface UsePokemonQueriesOptions {
   page?: number;
@@ -18,56 +18,11 @@ export function usePokemonQueries({ page = 1, limit = 10 }: UsePokemonQueriesOpt
   });
 }
 
-// Mock data for demo
-const mockPokemonQueries: PokemonQuery[] = [
-  {
-    call_sid: 'DEMO001',
-    timestamp: Date.now() - 3600000, // 1 hour ago
-    pokemon_names: ['Squirtle'],
-    duration: 135
-  },
-  {
-    call_sid: 'DEMO002',
-    timestamp: Date.now() - 7200000, // 2 hours ago
-    pokemon_names: ['Bulbasaur'],
-    duration: 140
-  },
-  {
-    call_sid: 'DEMO003',
-    timestamp: Date.now() - 10800000, // 3 hours ago
-    pokemon_names: ['Charmander'],
-    duration: 125
-  },
-  {
-    call_sid: 'DEMO004',
-    timestamp: Date.now() - 14400000, // 4 hours ago
-    pokemon_names: ['Butterfree'],
-    duration: 110
-  },
-  {
-    call_sid: 'DEMO005',
-    timestamp: Date.now() - 18000000, // 5 hours ago
-    pokemon_names: ['Pikachu'],
-    duration: 120
-  }
-];
-
 export function usePokemonQueriesInfinite({ limit = 10 }: { limit?: number } = {}) {
   return useInfiniteQuery({
     queryKey: ['pokemon-queries-infinite', { limit }],
-    queryFn: async ({ pageParam = 0 }) => {
-      // Return mock data for demo
-      const queries = mockPokemonQueries.slice(pageParam, pageParam + limit);
-      return {
-        queries,
-        pagination: {
-          limit,
-          offset: pageParam,
-          total: mockPokemonQueries.length,
-          hasMore: pageParam + limit < mockPokemonQueries.length
-        }
-      };
-    },
+    queryFn: ({ pageParam }) =>
+      apiCall<PaginatedResponse<PokemonQuery>>(`/api/pokemon-queries?offset=${pageParam}&limit=${limit}`),
     initialPageParam: 0,
     getNextPageParam: (lastPage) => 
       lastPage.pagination.hasMore ? lastPage.pagination.offset + lastPage.pagination.limit : undefined,
@@ -75,6 +30,23 @@ export function usePokemonQueriesInfinite({ limit = 10 }: { limit?: number } = {
   });
 }
 
+// Server-side transcript search; disabled until there is a term to search for
+export function usePokemonSearch(term: string, { limit = 12 }: { limit?: number } = {}) {
+  const q = term.trim();
+  return useInfiniteQuery({
+    queryKey: queryKeys.pokemonSearch(q, limit),
+    queryFn: ({ pageParam }) =>
+      apiCall<SearchResponse>(
+        `/api/pokemon-queries/search?q=${encodeURIComponent(q)}&offset=${pageParam}&limit=${limit}`
+      ),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasMore ? lastPage.pagination.offset + lastPage.pagination.limit : undefined,
+    enabled: q.length > 0,
+    staleTime: 30_000,
+  });
+}
+
 export function usePokemonQuery(callSid: string) {
   return useQuery({
     queryKey: queryKeys.pokemonQuery(callSid),
@@ -84,32 +56,15 @@ export function usePokemonQuery(callSid: string) {
   });
 }
 
-export function usePokemonStats() {
+export function usePokemonStats(range: StatsRange = {}) {
+  const params = new URLSearchParams();
+  if (range.from !== undefined) params.set('from', String(range.from));
+  if (range.to !== undefined) params.set('to', String(range.to));
+  if (range.bucket) params.set('bucket', range.bucket);
+
   return useQuery({
-    queryKey: queryKeys.pokemonStats(),
-    queryFn: async (): Promise<PokemonQueryStats> => {
-      // Return mock stats for demo
-      return {
-        stats: {
-          totalCalls: 5,
-          uniquePokemon: 5,
-          totalDuration: 630, // sum of all durations
-          averageDuration: 126, // 630/5
-          topPokemon: [
-            { name: 'Squirtle', count: 1 },
-            { name: 'Bulbasaur', count: 1 },
-            { name: 'Charmander', count: 1 },
-            { name: 'Butterfree', count: 1 },
-            { name: 'Pikachu', count: 1 }
-          ],
-          recentActivity: mockPokemonQueries.map(q => ({
-            callSid: q.call_sid,
-            timestamp: q.timestamp,
-            pokemonCount: q.pokemon_names.length
-          }))
-        }
-      };
-    },
+    queryKey: queryKeys.pokemonStats(range),
+    queryFn: () => apiCall<PokemonQueryStats>(`/api/pokemon-queries/stats?${params.toString()}`),
     staleTime: 60_000,
   });
-}
\ No newline at end of file
+}
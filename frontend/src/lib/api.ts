@@ -38,4 +38,31 @@ export async function apiCall<T = unknown>(
   }
 
   return data;
-}
\ No newline at end of file
+}
+
+// Fetches a file from the API and saves it through a temporary object URL
+export async function apiDownload(endpoint: string, fallbackName: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({
+      error: 'DownloadError',
+      message: `Download failed (${response.status})`,
+    }));
+    throw new FetchError(response.status, body as ApiError);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -1,9 +1,13 @@
+import type { StatsRange } from './types';
+
 export const queryKeys = {
   session: ['session'],
   pokemonQueries: (page?: number, limit?: number) => 
     ['pokemon-queries', { page, limit }],
   pokemonQuery: (callSid: string) => 
     ['pokemon-query', callSid],
-  pokemonStats: () => 
-    ['pokemon-stats'],
+  pokemonSearch: (term: string, limit?: number) =>
+    ['pokemon-search', { term, limit }],
+  pokemonStats: (range?: StatsRange) => 
+    ['pokemon-stats', range ?? {}],
 } as const;
\ No newline at end of file
@@ -24,6 +24,29 @@ export interface PokemonQuery {
   duration?: number;
 }
 
+export interface TranscriptMatch {
+  turnIndex: number;
+  role: 'system' | 'user' | 'assistant';
+  snippet: string; // matched terms wrapped in <mark></mark>
+}
+
+export interface TranscriptSearchResult extends PokemonQuery {
+  matchCount: number;
+  score: number;
+  matches: TranscriptMatch[];
+}
+
+export interface SearchResponse {
+  query: string;
+  results: TranscriptSearchResult[];
+  pagination: {
+    limit: number;
+    offset: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
 export interface PokemonQueryStats {
   stats: {
     totalCalls: number;
@@ -36,9 +59,32 @@ export interface PokemonQueryStats {
       timestamp: number;
       pokemonCount: number;
     }>;
+    timeline: Array<{
+      bucket: string; // UTC bucket start, YYYY-MM-DD
+      calls: number;
+      totalDuration: number;
+    }>;
+    channels: Array<{
+      channel: string;
+      calls: number;
+      totalDuration: number;
+    }>;
+  };
+  range: {
+    from: number | null;
+    to: number | null;
+    bucket: StatsBucket;
   };
 }
 
+export type StatsBucket = 'day' | 'week' | 'month';
+
+export interface StatsRange {
+  from?: number; // unix seconds
+  to?: number; // unix seconds
+  bucket?: StatsBucket;
+}
+
 export interface PaginatedResponse<T> {
   queries: T[];
   pagination: {
@@ -47,4 +93,17 @@ export interface PaginatedResponse<T> {
     total: number;
     hasMore: boolean;
   };
-}
\ No newline at end of file
+}
+
+export type ExportFormat = 'json' | 'txt' | 'md' | 'csv';
+
+export interface EraseDataResponse {
+  success: boolean;
+  deleted: {
+    conversations: number;
+    turns: number;
+    sessions: number;
+    callers: number;
+    images: number;
+  };
+}
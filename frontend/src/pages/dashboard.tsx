@@ -3,10 +3,11 @@ import { Button } from '@/components/ui/button';
 import { PokemonList } from '@/components/pokemon/pokemon-list';
 import { PokemonStats } from '@/components/pokemon/pokemon-stats';
 import { QueryDetails } from '@/components/pokemon/query-details';
+import { EraseDataDialog } from '@/components/auth/erase-data-dialog';
 import { useAuth } from '@/contexts/auth-context';
-import { LogOut, User, Phone, Sparkles } from 'lucide-react';
+import { LogOut, User, Phone, Sparkles, Download } from 'lucide-react';
 import { toast } from 'sonner';
-import { apiCall } from '@/lib/api';
+import { apiCall, apiDownload } from '@/lib/api';
 import { useQueryClient } from '@tanstack/react-query';
 
 export function Dashboard() {
@@ -21,6 +22,7 @@ export function Dashboard() {
   };
   const [selectedCallSid, setSelectedCallSid] = useState<string | null>(null);
   const [isCreatingDemo, setIsCreatingDemo] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   const handleLogout = async () => {
     try {
@@ -52,6 +54,19 @@ export function Dashboard() {
     }
   };
 
+  const handleExportAll = async () => {
+    setIsExporting(true);
+    try {
+      await apiDownload('/api/me/export?format=txt', 'pokedex-transcripts.zip');
+    } catch (error) {
+      toast.error('Export failed', {
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Helper function to format phone number to show only last 4 digits
   const formatPhoneDisplay = (phoneNumber: string) => {
     // Remove all non-digit characters
@@ -109,6 +124,16 @@ export function Dashboard() {
               <Sparkles className="mr-2 h-4 w-4" />
               {isCreatingDemo ? 'Creating...' : 'Demo Data'}
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleExportAll}
+              size="sm"
+              disabled={isExporting}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {isExporting ? 'Exporting...' : 'Export All'}
+            </Button>
+            <EraseDataDialog />
             <Button variant="outline" onClick={handleLogout} size="sm">
               <LogOut className="mr-2 h-4 w-4" />
               Sign Out